@@ -1,6 +1,8 @@
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import { SidebarLayout } from "@/components/layouts/sidebar-layout";
 import Dashboard from "@/pages/dashboard";
 import Goals from "@/pages/goals";
@@ -11,29 +13,37 @@ import Debug from "@/pages/debug";
 import NotFound from "@/pages/not-found";
 import Mantra from "@/pages/mantra";
 import Notepad from "@/pages/notepad";
+import AuthPage from "@/pages/auth";
 
 function Router() {
   return (
-    <SidebarLayout>
-      <Switch>
-        <Route path="/" component={Mantra} />
-        <Route path="/dashboard" component={Dashboard} />
-        <Route path="/goals" component={Goals} />
-        <Route path="/analytics" component={Analytics} />
-        <Route path="/achievements" component={Achievements} />
-        <Route path="/notepad" component={Notepad} />
-        <Route path="/settings" component={Settings} />
-        <Route path="/debug" component={Debug} />
-        <Route component={NotFound} />
-      </Switch>
-    </SidebarLayout>
+    <Switch>
+      <Route path="/auth" component={AuthPage} />
+      <Route>
+        <SidebarLayout>
+          <Switch>
+            <ProtectedRoute path="/" component={Mantra} />
+            <ProtectedRoute path="/dashboard" component={Dashboard} />
+            <ProtectedRoute path="/goals" component={Goals} />
+            <ProtectedRoute path="/analytics" component={Analytics} />
+            <ProtectedRoute path="/achievements" component={Achievements} />
+            <ProtectedRoute path="/notepad" component={Notepad} />
+            <ProtectedRoute path="/settings" component={Settings} />
+            <Route path="/debug" component={Debug} />
+            <Route component={NotFound} />
+          </Switch>
+        </SidebarLayout>
+      </Route>
+    </Switch>
   );
 }
 
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
+      <AuthProvider>
+        <Router />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,86 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Star } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/use-auth";
+import { cn } from "@/lib/utils";
+import { getLevelProgress, getLevelThreshold, pointRules } from "@shared/points";
+import type { PointsLedgerEntryWithGoal } from "@shared/schema";
+
+/**
+ * The user's level, how close they are to the next one, and every award
+ * that got them there. Awards that were taken back (a deleted log, an
+ * unticked milestone) are listed with the points they removed.
+ */
+export const PointsHistory: React.FC = () => {
+  const { user } = useAuth();
+  const { data: history, isLoading } = useQuery<PointsLedgerEntryWithGoal[]>({
+    queryKey: ['/api/points/history'],
+  });
+
+  const points = user?.points ?? 0;
+  const level = user?.level ?? 1;
+  const nextLevelPoints = getLevelThreshold(level + 1);
+
+  return (
+    <Card className="card border border-gray-800">
+      <CardContent className="p-6 space-y-6">
+        <div className="flex items-center">
+          <div className="w-12 h-12 rounded-full bg-amber-900 bg-opacity-30 flex items-center justify-center border border-amber-800 mr-4">
+            <Star className="h-6 w-6 text-amber-300" />
+          </div>
+          <div className="flex-grow">
+            <div className="flex justify-between items-baseline mb-1">
+              <span className="text-lg font-bold text-gray-100">Level {level}</span>
+              <span className="text-sm text-gray-400">{points} / {nextLevelPoints} XP</span>
+            </div>
+            <Progress value={getLevelProgress(points)} className="h-2 bg-gray-800" indicatorClassName="bg-amber-600" />
+            <p className="text-xs text-gray-500 mt-1">
+              {nextLevelPoints - points} XP to level {level + 1}
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, index) => (
+              <Skeleton key={index} className="h-10 w-full bg-gray-800" />
+            ))}
+          </div>
+        ) : history && history.length > 0 ? (
+          <ul className="divide-y divide-gray-800 max-h-80 overflow-y-auto">
+            {history.map((entry) => (
+              <li key={entry.id} className="flex items-center justify-between py-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-200">
+                    {pointRules[entry.event].label}
+                    {entry.points < 0 && <span className="text-gray-500"> (taken back)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {format(new Date(entry.createdAt), "MMM d, h:mm a")}
+                    {entry.goalDescription && ` · ${entry.goalDescription}`}
+                  </p>
+                </div>
+                <span
+                  className={cn(
+                    "ml-4 shrink-0 font-mono text-sm",
+                    entry.points < 0 ? "text-red-400" : "text-amber-300"
+                  )}
+                >
+                  {entry.points > 0 ? `+${entry.points}` : entry.points} XP
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Log progress, tick off milestones and complete action items to earn points.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
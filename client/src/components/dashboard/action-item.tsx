@@ -1,30 +1,77 @@
 import React, { useState } from "react";
+import { addDays, format, isBefore, startOfDay } from "date-fns";
+import { AlarmClock, ArrowUp, Check, Edit, Trash2, X } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
-import type { ActionItem } from "@shared/schema";
+import type { ActionItemWithGoal } from "@shared/schema";
 
 interface ActionItemProps {
-  item: ActionItem & { goalDescription: string };
+  item: ActionItemWithGoal;
   icon: React.ReactNode;
+  // Omitted for the first item in the list
+  onMoveUp?: () => void;
+  // Carried over from an earlier day; shows the day it was listed on
+  overdue?: boolean;
 }
 
-export const ActionItemCard: React.FC<ActionItemProps> = ({ item, icon }) => {
+/**
+ * One of the day's action items. Checking off an item with a quantity logs
+ * that much progress on its goal, and unchecking it takes the entry back.
+ * Custom items can also be renamed, snoozed to another day and removed;
+ * generated ones are rewritten by the planner instead, so only their quantity
+ * can be changed.
+ */
+export const ActionItemCard: React.FC<ActionItemProps> = ({ item, icon, onMoveUp, overdue = false }) => {
   const [isChecked, setIsChecked] = useState(item.completed);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editDescription, setEditDescription] = useState(item.description);
+  const [editQuantity, setEditQuantity] = useState("");
+  const [isSnoozeOpen, setIsSnoozeOpen] = useState(false);
   const { toast } = useToast();
 
+  const invalidateActionQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/action-items'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/action-items/overdue'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/points/history'] });
+    // Items with a quantity log progress against their goal
+    if (item.goalId !== null && item.quantity !== null) {
+      queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/progress-logs/${item.goalId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/goals/${item.goalId}/periods`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/badges'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats/streaks'] });
+    }
+  };
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
   const handleToggle = async (checked: boolean) => {
     setIsUpdating(true);
     try {
       setIsChecked(checked);
       await apiRequest('PATCH', `/api/action-items/${item.id}`, { completed: checked });
-      
+
       // Invalidate queries that might have changed
-      queryClient.invalidateQueries({ queryKey: ['/api/action-items'] });
-      
+      invalidateActionQueries();
+
       if (checked) {
         toast({
           title: "Task Completed",
@@ -34,37 +81,179 @@ export const ActionItemCard: React.FC<ActionItemProps> = ({ item, icon }) => {
     } catch (error) {
       // Revert the UI state if the API call fails
       setIsChecked(!checked);
-      toast({
-        title: "Error",
-        description: "Failed to update action item. Please try again.",
-        variant: "destructive",
-      });
+      showError("Failed to update action item. Please try again.");
     } finally {
       setIsUpdating(false);
     }
   };
 
+  const canEditQuantity = item.goalId !== null && !isChecked;
+
+  const startEditing = () => {
+    setEditDescription(item.description);
+    setEditQuantity(item.quantity !== null ? String(item.quantity) : "");
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const description = editDescription.trim();
+    if (!description) return;
+
+    const changes: Record<string, unknown> = {};
+    if (item.custom) changes.description = description;
+    // What a checked-off item logged can't change until it's unchecked
+    if (canEditQuantity) {
+      changes.quantity = editQuantity.trim() === "" ? null : parseFloat(editQuantity);
+    }
+
+    try {
+      await apiRequest('PATCH', `/api/action-items/${item.id}`, changes);
+      invalidateActionQueries();
+      setIsEditing(false);
+    } catch (error) {
+      showError("Failed to update action item. Please try again.");
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await apiRequest('DELETE', `/api/action-items/${item.id}`);
+      invalidateActionQueries();
+    } catch (error) {
+      showError("Failed to delete action item. Please try again.");
+    }
+  };
+
+  const handleSnooze = async (date: Date | undefined) => {
+    if (!date) return;
+
+    setIsSnoozeOpen(false);
+    try {
+      await apiRequest('PATCH', `/api/action-items/${item.id}`, { date });
+      invalidateActionQueries();
+      toast({
+        title: "Action Snoozed",
+        description: `Moved to ${format(date, "EEEE, MMM d")}.`,
+      });
+    } catch (error) {
+      showError("Failed to snooze action item. Please try again.");
+    }
+  };
+
+  const dueDate = item.dueDate ? new Date(item.dueDate) : null;
+  const isOverdue = dueDate !== null && !isChecked && isBefore(dueDate, startOfDay(new Date()));
+
   return (
-    <li className="flex items-center p-2 hover:bg-gray-800 rounded-lg border border-gray-800 mb-2">
+    <li className="group flex items-start p-3 border border-gray-800 rounded-lg bg-gray-900 bg-opacity-50 hover:bg-opacity-70 transition-all">
       <Checkbox
         checked={isChecked}
         disabled={isUpdating}
-        onCheckedChange={handleToggle}
-        className="h-4 w-4 text-blue-400 rounded border-gray-600 mr-3"
+        onCheckedChange={(checked) => handleToggle(checked === true)}
+        className="h-4 w-4 mt-1 text-blue-400 rounded border-gray-600 mr-3"
       />
-      <div className="flex-1">
-        <p 
-          className={cn(
-            "text-sm font-medium text-gray-200",
-            isChecked && "line-through text-gray-500"
+      <div className="flex-1 min-w-0">
+        {isEditing ? (
+          <div className="flex items-center gap-1">
+            {item.custom ? (
+              <Input
+                value={editDescription}
+                onChange={(e) => setEditDescription(e.target.value)}
+                className="h-8 bg-transparent border-gray-700 text-gray-200"
+                aria-label="Action description"
+              />
+            ) : (
+              <p className="flex-1 text-sm font-medium text-gray-200">{item.description}</p>
+            )}
+            {canEditQuantity && (
+              <Input
+                type="number"
+                value={editQuantity}
+                onChange={(e) => setEditQuantity(e.target.value)}
+                placeholder={item.goalUnit ?? "Amount"}
+                className="h-8 w-24 bg-transparent border-gray-700 text-gray-200"
+                aria-label="Progress to log"
+              />
+            )}
+            <Button type="button" size="icon" variant="ghost" className="h-8 w-8 text-gray-300" onClick={handleSave} title="Save">
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button type="button" size="icon" variant="ghost" className="h-8 w-8 text-gray-300" onClick={() => setIsEditing(false)} title="Cancel">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <p
+            className={cn(
+              "text-sm font-medium text-gray-200",
+              isChecked && "line-through text-gray-500"
+            )}
+          >
+            {item.description}
+          </p>
+        )}
+        <p className="text-xs text-gray-400">
+          {item.goalDescription ?? "No goal"}
+          {item.goalId !== null && item.quantity !== null && ` · +${item.quantity} ${item.goalUnit ?? ""} when done`}
+          {overdue && (
+            <span className="ml-2 text-amber-400">
+              From {format(new Date(item.date), "MMM d")}
+            </span>
+          )}
+          {dueDate && (
+            <span className={cn("ml-2", isOverdue && "text-red-400")}>
+              Due {format(dueDate, "MMM d")}
+            </span>
           )}
-        >
-          {item.description}
         </p>
-        <p className="text-xs text-gray-400">{item.goalDescription}</p>
       </div>
-      <div className="text-blue-400">
-        {icon}
+      <div className="ml-2 flex shrink-0 items-center">
+        <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+          {onMoveUp && (
+            <Button type="button" size="icon" variant="ghost" className="h-6 w-6 text-gray-400" onClick={onMoveUp} title="Move Up">
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+          )}
+          {!isEditing && (item.custom || canEditQuantity) && (
+            <Button type="button" size="icon" variant="ghost" className="h-6 w-6 text-gray-400" onClick={startEditing} title="Edit Action">
+              <Edit className="h-3 w-3" />
+            </Button>
+          )}
+          {item.custom && !isChecked && !isEditing && (
+            <Popover open={isSnoozeOpen} onOpenChange={setIsSnoozeOpen}>
+              <PopoverTrigger asChild>
+                <Button type="button" size="icon" variant="ghost" className="h-6 w-6 text-gray-400" title="Snooze">
+                  <AlarmClock className="h-3 w-3" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <div className="flex gap-2 p-2 border-b">
+                  {overdue && (
+                    <Button type="button" size="sm" variant="outline" onClick={() => handleSnooze(startOfDay(new Date()))}>
+                      Today
+                    </Button>
+                  )}
+                  <Button type="button" size="sm" variant="outline" onClick={() => handleSnooze(addDays(startOfDay(new Date()), 1))}>
+                    Tomorrow
+                  </Button>
+                </div>
+                <Calendar
+                  mode="single"
+                  onSelect={handleSnooze}
+                  fromDate={new Date()}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          )}
+          {item.custom && !isEditing && (
+            <Button type="button" size="icon" variant="ghost" className="h-6 w-6 text-gray-400" onClick={handleDelete} title="Delete Action">
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+        <div className="ml-1 text-blue-400">
+          {icon}
+        </div>
       </div>
     </li>
   );
@@ -3,26 +3,41 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Edit, Trash2, PlusCircle, BarChart2 } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Edit, Trash2, PlusCircle, BarChart2, Archive, ArchiveRestore, ListTree, ChevronDown, ChevronRight } from "lucide-react";
 import { LogProgressModal } from "@/components/modals/log-progress-modal";
+import { CreateGoalModal } from "@/components/modals/create-goal-modal";
+import { MilestoneChecklist } from "@/components/dashboard/milestone-checklist";
+import { PeriodHistory } from "@/components/dashboard/period-history";
+import { GoalForecast } from "@/components/dashboard/goal-forecast";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Goal, GoalWithCategory } from "@shared/schema";
+import { describeProgress, getProgressPercentage, isMeasuredGoal } from "@shared/goal-progress";
+import { describePeriod, isRecurring } from "@shared/recurrence";
+import { canHaveSubGoals, type GoalTreeNode } from "@shared/goal-tree";
 import { queryClient } from "@/lib/queryClient";
 import { format } from "date-fns";
 
 interface GoalCardProps {
   goal: GoalWithCategory;
   onEdit?: (goal: Goal) => void;
+  // Shown as a collapsible tree below the goal; see buildGoalTree
+  subGoals?: GoalTreeNode<GoalWithCategory>[];
 }
 
-export const GoalCard: React.FC<GoalCardProps> = ({ goal, onEdit }) => {
+export const GoalCard: React.FC<GoalCardProps> = ({ goal, onEdit, subGoals = [] }) => {
   const [isLoggingProgress, setIsLoggingProgress] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isAddingSubGoal, setIsAddingSubGoal] = useState(false);
+  const [isTreeOpen, setIsTreeOpen] = useState(false);
   const { toast } = useToast();
   
-  const progressPercentage = goal.targetValue > 0 
-    ? Math.min(Math.round((goal.currentValue / goal.targetValue) * 100), 100)
-    : 0;
+  const progressPercentage = getProgressPercentage(goal);
+  // A parent's progress is rolled up from its sub-goals, so it can't be logged directly
+  const hasSubGoals = subGoals.length > 0;
+  const canAddSubGoal = canHaveSubGoals(goal) && (hasSubGoals || goal.currentValue === 0);
   
   const progressColor = 
     progressPercentage >= 66 ? 'progress-cyberpunk-indicator bg-green-600' : 
@@ -30,15 +45,19 @@ export const GoalCard: React.FC<GoalCardProps> = ({ goal, onEdit }) => {
     'progress-cyberpunk-indicator bg-blue-600';
   
   const handleDelete = async () => {
-    if (window.confirm("Are you sure you want to delete this goal?")) {
+    if (window.confirm("Move this goal to the trash?")) {
       try {
         await apiRequest('DELETE', `/api/goals/${goal.id}`);
         toast({
-          title: "Goal Deleted",
-          description: "Your goal has been deleted successfully.",
+          title: "Goal Moved to Trash",
+          description: "You can restore it from the Trash tab on the Goals page.",
+          action: (
+            <ToastAction altText="Undo delete" onClick={handleUndoDelete}>
+              Undo
+            </ToastAction>
+          ),
         });
-        queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
-        queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+        invalidateGoalQueries();
       } catch (error) {
         toast({
           title: "Error",
@@ -49,6 +68,50 @@ export const GoalCard: React.FC<GoalCardProps> = ({ goal, onEdit }) => {
     }
   };
   
+  const handleUndoDelete = async () => {
+    try {
+      await apiRequest('POST', `/api/goals/${goal.id}/restore`);
+      invalidateGoalQueries();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to restore the goal. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const invalidateGoalQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/goals/trash'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/action-items'] });
+  };
+  
+  const handleArchiveToggle = async () => {
+    try {
+      await apiRequest('PATCH', `/api/goals/${goal.id}`, {
+        action: goal.archived ? 'unarchive' : 'archive',
+      });
+      toast({
+        title: goal.archived ? "Goal Restored" : "Goal Archived",
+        description: goal.archived
+          ? "Your goal is active again."
+          : "Your goal has been moved to the archive.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update the goal. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
   return (
     <>
       <Card className="mb-4 card border shadow-lg">
@@ -68,18 +131,39 @@ export const GoalCard: React.FC<GoalCardProps> = ({ goal, onEdit }) => {
               </div>
               <p className="text-sm text-gray-400 mt-1">
                 Deadline: {format(new Date(goal.deadline), "MMMM d, yyyy")}
+                {goal.parentGoalId !== null && goal.weight !== 1 && ` · Weight ${goal.weight}`}
               </p>
             </div>
             <div className="mt-3 md:mt-0 flex">
+              {canAddSubGoal && (
+                <Button
+                  variant="ghost" 
+                  size="icon"
+                  className="mr-2 hover:bg-gray-800 text-gray-300" 
+                  onClick={() => setIsAddingSubGoal(true)}
+                  title="Add Sub-goal"
+                >
+                  <ListTree className="h-5 w-5" />
+                </Button>
+              )}
               <Button
                 variant="ghost" 
                 size="icon"
                 className="mr-2 hover:bg-gray-800 text-gray-300" 
-                onClick={() => onEdit && onEdit(goal)}
+                onClick={() => onEdit ? onEdit(goal) : setIsEditing(true)}
                 title="Edit Goal"
               >
                 <Edit className="h-5 w-5" />
               </Button>
+              <Button
+                variant="ghost" 
+                size="icon"
+                className="mr-2 hover:bg-gray-800 text-gray-300" 
+                onClick={handleArchiveToggle}
+                title={goal.archived ? "Unarchive Goal" : "Archive Goal"}
+              >
+                {goal.archived ? <ArchiveRestore className="h-5 w-5" /> : <Archive className="h-5 w-5" />}
+              </Button>
               <Button 
                 variant="ghost" 
                 size="icon"
@@ -95,7 +179,10 @@ export const GoalCard: React.FC<GoalCardProps> = ({ goal, onEdit }) => {
           <div className="mb-3">
             <div className="flex justify-between mb-1">
               <span className="text-sm font-medium text-gray-300">
-                Progress: {goal.currentValue.toFixed(1)} / {goal.targetValue} {goal.unit}
+                {isRecurring(goal) ? describePeriod(goal.recurrence) : "Progress"}:{" "}
+                {hasSubGoals
+                  ? `from ${subGoals.length} sub-goal${subGoals.length === 1 ? "" : "s"}`
+                  : describeProgress(goal)}
               </span>
               <span 
                 className={`text-sm font-medium ${
@@ -108,17 +195,53 @@ export const GoalCard: React.FC<GoalCardProps> = ({ goal, onEdit }) => {
               </span>
             </div>
             <Progress value={progressPercentage} className="progress-cyberpunk" indicatorClassName={progressColor} />
+            {!goal.completed && !goal.archived && (
+              <div className="mt-2">
+                <GoalForecast goal={goal} />
+              </div>
+            )}
           </div>
           
+          {goal.goalType === 'checklist' && (
+            <div className="mb-3">
+              <MilestoneChecklist goal={goal} />
+            </div>
+          )}
+          
+          {isRecurring(goal) && (
+            <div className="mb-3">
+              <PeriodHistory goal={goal} />
+            </div>
+          )}
+          
+          {hasSubGoals && (
+            <Collapsible open={isTreeOpen} onOpenChange={setIsTreeOpen} className="mb-3">
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" size="sm" className="px-2 text-gray-300 hover:bg-gray-800">
+                  {isTreeOpen ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                  {isTreeOpen ? "Hide" : "Show"} {subGoals.length} sub-goal{subGoals.length === 1 ? "" : "s"}
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-2 pl-3 border-l border-gray-700">
+                {subGoals.map(subGoal => (
+                  <GoalCard key={subGoal.id} goal={subGoal} subGoals={subGoal.subGoals} />
+                ))}
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+          
           <div className="flex flex-col md:flex-row space-y-2 md:space-y-0 md:space-x-3">
-            <Button 
-              variant="default" 
-              className="md:flex-1 flex items-center justify-center bg-blue-900 hover:bg-blue-800 text-blue-100"
-              onClick={() => setIsLoggingProgress(true)}
-            >
-              <PlusCircle className="h-4 w-4 mr-1" />
-              Log Progress
-            </Button>
+            {/* Checklist goals move by ticking milestones, parents by their sub-goals */}
+            {goal.goalType !== 'checklist' && !hasSubGoals && (
+              <Button 
+                variant="default" 
+                className="md:flex-1 flex items-center justify-center bg-blue-900 hover:bg-blue-800 text-blue-100"
+                onClick={() => setIsLoggingProgress(true)}
+              >
+                <PlusCircle className="h-4 w-4 mr-1" />
+                {goal.goalType === 'boolean' ? 'Check In' : isMeasuredGoal(goal.goalType) ? 'Record Value' : 'Log Progress'}
+              </Button>
+            )}
             
             <Button 
               variant="outline" 
@@ -145,6 +268,25 @@ export const GoalCard: React.FC<GoalCardProps> = ({ goal, onEdit }) => {
           onClose={() => setIsLoggingProgress(false)}
         />
       )}
+      
+      {isEditing && (
+        <CreateGoalModal
+          goal={goal}
+          isOpen={isEditing}
+          onClose={() => setIsEditing(false)}
+        />
+      )}
+      
+      {isAddingSubGoal && (
+        <CreateGoalModal
+          parentGoal={goal}
+          isOpen={isAddingSubGoal}
+          onClose={() => {
+            setIsAddingSubGoal(false);
+            setIsTreeOpen(true);
+          }}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,70 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { Goal } from "@shared/schema";
+import type { ForecastStatus, GoalForecast as GoalForecastData } from "@shared/forecast";
+
+export const forecastStatusStyles: Record<ForecastStatus, { label: string; className: string }> = {
+  on_track: { label: "On track", className: "border-green-800 bg-green-900 bg-opacity-30 text-green-300" },
+  at_risk: { label: "At risk", className: "border-amber-800 bg-amber-900 bg-opacity-30 text-amber-300" },
+  behind: { label: "Behind", className: "border-red-800 bg-red-900 bg-opacity-30 text-red-300" },
+  completed: { label: "Completed", className: "border-blue-800 bg-blue-900 bg-opacity-30 text-blue-300" },
+};
+
+/**
+ * Every goal's forecast, fetched in one request. Keyed under '/api/goals' so
+ * whatever refreshes the goals refreshes their forecasts too.
+ */
+export function useGoalForecasts() {
+  return useQuery<GoalForecastData[]>({
+    queryKey: ['/api/goals', 'forecasts'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/goals/forecasts');
+      return res.json();
+    },
+  });
+}
+
+interface GoalForecastProps {
+  goal: Goal;
+}
+
+/**
+ * Whether the goal will be done by its deadline at its recent pace, and the
+ * daily rate it takes to get there
+ */
+export const GoalForecast: React.FC<GoalForecastProps> = ({ goal }) => {
+  const { data: forecasts, isLoading } = useGoalForecasts();
+  const forecast = forecasts?.find(forecast => forecast.goalId === goal.id);
+
+  if (isLoading) {
+    return <Skeleton className="h-4 w-full" />;
+  }
+
+  if (!forecast || forecast.status === "completed") {
+    return null;
+  }
+
+  const style = forecastStatusStyles[forecast.status];
+  const unit = goal.goalType === "checklist" ? "milestones" : goal.unit;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-gray-400">
+      <span className={cn("rounded border px-1.5 py-0.5 font-medium", style.className)}>{style.label}</span>
+      {forecast.requiredDailyRate !== null && (
+        <span>
+          Needs {forecast.requiredDailyRate} {unit}/day
+          {forecast.recentRate > 0 && ` (recently ${forecast.recentRate})`}
+        </span>
+      )}
+      <span>
+        {forecast.recentProjection
+          ? `· Projected ${format(parseISO(forecast.recentProjection), "MMM d, yyyy")}`
+          : "· No recent progress to project from"}
+      </span>
+    </div>
+  );
+};
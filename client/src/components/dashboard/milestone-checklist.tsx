@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowUp, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Goal, Milestone } from "@shared/schema";
+
+interface MilestoneChecklistProps {
+  goal: Goal;
+}
+
+/**
+ * Tickable milestones of a checklist goal; the goal's progress follows them.
+ * Milestones can be added, removed and moved up the list.
+ */
+export const MilestoneChecklist: React.FC<MilestoneChecklistProps> = ({ goal }) => {
+  const { toast } = useToast();
+  const [newTitle, setNewTitle] = useState("");
+
+  const { data: milestones, isLoading } = useQuery<Milestone[]>({
+    queryKey: [`/api/goals/${goal.id}/milestones`],
+  });
+
+  const invalidateMilestoneQueries = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/goals/${goal.id}/milestones`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/badges'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/points/history'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+  };
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleToggle = async (milestone: Milestone, completed: boolean) => {
+    try {
+      await apiRequest('PATCH', `/api/milestones/${milestone.id}`, { completed });
+      invalidateMilestoneQueries();
+    } catch (error) {
+      showError("Failed to update the milestone. Please try again.");
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = newTitle.trim();
+    if (!title) return;
+
+    try {
+      await apiRequest('POST', `/api/goals/${goal.id}/milestones`, { title });
+      setNewTitle("");
+      invalidateMilestoneQueries();
+    } catch (error) {
+      showError("Failed to add the milestone. Please try again.");
+    }
+  };
+
+  const handleDelete = async (milestone: Milestone) => {
+    try {
+      await apiRequest('DELETE', `/api/milestones/${milestone.id}`);
+      invalidateMilestoneQueries();
+    } catch (error) {
+      showError("Failed to remove the milestone. Please try again.");
+    }
+  };
+
+  const handleMoveUp = async (index: number) => {
+    if (!milestones || index === 0) return;
+
+    const ids = milestones.map((milestone) => milestone.id);
+    [ids[index - 1], ids[index]] = [ids[index], ids[index - 1]];
+    try {
+      await apiRequest('PUT', `/api/goals/${goal.id}/milestones/order`, { ids });
+      queryClient.invalidateQueries({ queryKey: [`/api/goals/${goal.id}/milestones`] });
+    } catch (error) {
+      showError("Failed to reorder the milestones. Please try again.");
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-2">
+        {milestones?.map((milestone, index) => (
+          <li key={milestone.id} className="group flex items-center">
+            <Checkbox
+              id={`milestone-${milestone.id}`}
+              checked={milestone.completed}
+              onCheckedChange={(checked) => handleToggle(milestone, checked === true)}
+              className="mr-2 border-gray-600"
+            />
+            <label
+              htmlFor={`milestone-${milestone.id}`}
+              className={`text-sm ${milestone.completed ? 'text-gray-500 line-through' : 'text-gray-300'}`}
+            >
+              {milestone.title}
+            </label>
+            <div className="ml-auto flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+              {index > 0 && (
+                <Button type="button" size="icon" variant="ghost" className="h-6 w-6 text-gray-400" onClick={() => handleMoveUp(index)} title="Move Up">
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+              )}
+              {milestones.length > 1 && (
+                <Button type="button" size="icon" variant="ghost" className="h-6 w-6 text-gray-400" onClick={() => handleDelete(milestone)} title="Remove Milestone">
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <Input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          placeholder="Add a milestone"
+          className="h-8 bg-transparent border-gray-700 text-gray-300"
+          aria-label="New milestone"
+        />
+        <Button type="submit" size="icon" variant="ghost" className="h-8 w-8 text-gray-300" title="Add Milestone" disabled={!newTitle.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { Goal, GoalPeriod } from "@shared/schema";
+
+interface PeriodHistoryProps {
+  goal: Goal;
+}
+
+// How many finished periods to show
+const RECENT_PERIODS = 14;
+
+/**
+ * Met / missed markers for the most recent finished periods of a recurring goal
+ */
+export const PeriodHistory: React.FC<PeriodHistoryProps> = ({ goal }) => {
+  const { data: periods, isLoading } = useQuery<GoalPeriod[]>({
+    queryKey: [`/api/goals/${goal.id}/periods`],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-4 w-full" />;
+  }
+
+  if (!periods || periods.length === 0) {
+    return null;
+  }
+
+  const recent = periods.slice(-RECENT_PERIODS);
+  const metCount = recent.filter((period) => period.met).length;
+  const dateFormat = goal.recurrence === "weekly" ? "'Week of' MMM d" : "MMM d";
+
+  return (
+    <div className="flex items-center justify-between">
+      <div className="flex gap-1">
+        {recent.map((period) => (
+          <span
+            key={period.id}
+            className={`h-3 w-3 rounded-sm ${period.met ? 'bg-green-500' : 'bg-gray-700'}`}
+            title={`${format(new Date(period.periodStart), dateFormat)}: ${period.achievedValue} / ${period.targetValue} ${goal.unit}`}
+          />
+        ))}
+      </div>
+      <span className="text-xs text-gray-400">
+        {metCount} of {recent.length} met
+      </span>
+    </div>
+  );
+};
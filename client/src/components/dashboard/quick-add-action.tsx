@@ -0,0 +1,130 @@
+import React, { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DatePicker } from "@/components/ui/date-picker";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { actionItemFormSchema } from "@shared/schema";
+import type { GoalWithCategory } from "@shared/schema";
+
+interface QuickAddActionProps {
+  goals: GoalWithCategory[];
+  onClose: () => void;
+}
+
+const NO_GOAL = "none";
+
+/**
+ * Inline form for adding a custom action item to today's list, optionally
+ * linked to a goal. A linked item can carry a quantity that is logged as
+ * progress on the goal when the item is checked off.
+ */
+export const QuickAddAction: React.FC<QuickAddActionProps> = ({ goals, onClose }) => {
+  const { toast } = useToast();
+  const [description, setDescription] = useState("");
+  const [goalId, setGoalId] = useState(NO_GOAL);
+  const [dueDate, setDueDate] = useState<Date | undefined>();
+  const [quantity, setQuantity] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const linkableGoals = goals.filter((goal) => !goal.completed && !goal.archived);
+  const selectedGoal = linkableGoals.find((goal) => String(goal.id) === goalId);
+  // Checklists move with their milestones and parents with their sub-goals
+  const canLogProgress = selectedGoal !== undefined
+    && selectedGoal.goalType !== 'checklist'
+    && !goals.some((goal) => goal.parentGoalId === selectedGoal.id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = actionItemFormSchema.safeParse({
+      description,
+      goalId: selectedGoal ? selectedGoal.id : null,
+      dueDate: dueDate ?? null,
+      quantity: canLogProgress && quantity.trim() !== "" ? parseFloat(quantity) : null,
+    });
+    if (!parsed.success) {
+      toast({
+        title: "Invalid Action",
+        description: parsed.error.errors[0]?.message ?? "Please check the action.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await apiRequest('POST', '/api/action-items', parsed.data);
+      queryClient.invalidateQueries({ queryKey: ['/api/action-items'] });
+      setDescription("");
+      setQuantity("");
+      setDueDate(undefined);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add the action. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="What do you want to get done today?"
+          className="h-8 bg-transparent border-gray-700 text-gray-300"
+          aria-label="New action"
+          autoFocus
+        />
+        <Button type="submit" size="icon" variant="ghost" className="h-8 w-8 text-gray-300" title="Add Action" disabled={isSubmitting || !description.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button type="button" size="icon" variant="ghost" className="h-8 w-8 text-gray-300" title="Cancel" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <Select value={goalId} onValueChange={setGoalId}>
+          <SelectTrigger className="h-8 bg-transparent border-gray-700 text-gray-300" aria-label="Linked goal">
+            <SelectValue placeholder="No goal" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_GOAL}>No goal</SelectItem>
+            {linkableGoals.map((goal) => (
+              <SelectItem key={goal.id} value={String(goal.id)}>
+                {goal.description}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DatePicker date={dueDate} onSelect={setDueDate} fromDate={new Date()} />
+      </div>
+      {canLogProgress && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            placeholder="Progress to log when done (optional)"
+            className="h-8 bg-transparent border-gray-700 text-gray-300"
+            aria-label="Quantity"
+          />
+          <span className="text-sm text-gray-400">{selectedGoal.unit}</span>
+        </div>
+      )}
+    </form>
+  );
+};
@@ -0,0 +1,108 @@
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArchiveRestore, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { GoalWithCategory } from "@shared/schema";
+import { describeProgress } from "@shared/goal-progress";
+import { format } from "date-fns";
+
+interface TrashedGoalCardProps {
+  goal: GoalWithCategory;
+}
+
+export const TrashedGoalCard: React.FC<TrashedGoalCardProps> = ({ goal }) => {
+  const { toast } = useToast();
+
+  const invalidateGoalQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/goals/trash'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/action-items'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+  };
+
+  const handleRestore = async () => {
+    try {
+      await apiRequest('POST', `/api/goals/${goal.id}/restore`);
+      toast({
+        title: "Goal Restored",
+        description: "Your goal is back in your goal list.",
+      });
+      invalidateGoalQueries();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to restore the goal. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePurge = async () => {
+    if (window.confirm("Permanently delete this goal and all of its progress history? This cannot be undone.")) {
+      try {
+        await apiRequest('DELETE', `/api/goals/${goal.id}/purge`);
+        toast({
+          title: "Goal Deleted",
+          description: "The goal and its history have been permanently deleted.",
+        });
+        invalidateGoalQueries();
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to delete the goal. Please try again.",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  return (
+    <Card className="mb-4 card border border-gray-800 shadow-lg opacity-80">
+      <CardContent className="p-4">
+        <div className="flex items-center mb-1">
+          {goal.category && (
+            <Badge
+              className="mr-2"
+              style={{ backgroundColor: goal.category.color }}
+            >
+              {goal.category.name}
+            </Badge>
+          )}
+          <h4 className="text-lg font-semibold text-gray-300 line-through decoration-gray-600">{goal.description}</h4>
+        </div>
+        <p className="text-sm text-gray-400">
+          Progress: {describeProgress(goal)}
+        </p>
+        {goal.deletedAt && (
+          <p className="text-xs text-gray-500 mt-1">
+            Deleted {format(new Date(goal.deletedAt), "MMMM d, yyyy")}
+          </p>
+        )}
+
+        <div className="flex flex-col md:flex-row space-y-2 md:space-y-0 md:space-x-3 mt-4">
+          <Button
+            variant="default"
+            className="md:flex-1 flex items-center justify-center bg-blue-900 hover:bg-blue-800 text-blue-100"
+            onClick={handleRestore}
+          >
+            <ArchiveRestore className="h-4 w-4 mr-1" />
+            Restore
+          </Button>
+          <Button
+            variant="outline"
+            className="md:flex-1 flex items-center justify-center border-red-900 text-red-300 hover:bg-red-950"
+            onClick={handlePurge}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete Forever
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import {
+  Award,
+  BrainCircuit,
+  FileText,
+  Flag,
+  LayoutDashboard,
+  LineChart,
+  Loader2,
+  Settings,
+  TrendingUp,
+} from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import type { GoalWithCategory } from "@shared/schema";
+import type { HighlightedText, SearchResult, SearchResults, SearchResultType } from "@shared/search";
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const pages = [
+  { label: "Mantra", href: "/", icon: BrainCircuit },
+  { label: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
+  { label: "My Goals", href: "/goals", icon: Flag },
+  { label: "Analytics", href: "/analytics", icon: LineChart },
+  { label: "Achievements", href: "/achievements", icon: Award },
+  { label: "Notepad", href: "/notepad", icon: FileText },
+  { label: "Settings", href: "/settings", icon: Settings },
+];
+
+const resultGroups: { type: SearchResultType; heading: string; icon: React.ElementType }[] = [
+  { type: "goal", heading: "Goals", icon: Flag },
+  { type: "note", heading: "Reflections", icon: FileText },
+  { type: "progress_log", heading: "Progress Notes", icon: TrendingUp },
+];
+
+async function fetchSearch(q: string): Promise<SearchResults> {
+  const res = await apiRequest('GET', `/api/search?${new URLSearchParams({ q })}`);
+  return res.json();
+}
+
+/**
+ * Matched words of a search result marked up for display
+ */
+const Highlighted: React.FC<{ value: HighlightedText }> = ({ value }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  value.highlights.forEach(([start, end]) => {
+    if (start > position) parts.push(value.text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-blue-900/60 text-blue-100 rounded-sm">
+        {value.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(value.text.slice(position));
+  return <>{parts}</>;
+};
+
+/**
+ * Search goals, progress notes and reflections from anywhere, or jump to a
+ * page. Results come ranked from the server, so cmdk's own filtering is off.
+ */
+export const SearchPalette: React.FC<SearchPaletteProps> = ({ open, onOpenChange }) => {
+  const [, setLocation] = useLocation();
+  const [input, setInput] = useState("");
+  const [search, setSearch] = useState("");
+
+  const { data: goals } = useQuery<GoalWithCategory[]>({
+    queryKey: ['/api/goals'],
+    enabled: open,
+  });
+
+  const { data: searchResults, isFetching } = useQuery<SearchResults>({
+    queryKey: ['/api/search', search],
+    queryFn: () => fetchSearch(search),
+    enabled: open && search !== "",
+    // Goals and notes change all over the app, so search again each time
+    staleTime: 0,
+    placeholderData: keepPreviousData,
+  });
+  const results = search !== "" ? searchResults?.results ?? [] : [];
+
+  // Search once typing pauses
+  useEffect(() => {
+    const searchTimer = setTimeout(() => setSearch(input.trim()), 200);
+    return () => clearTimeout(searchTimer);
+  }, [input]);
+
+  useEffect(() => {
+    if (!open) setInput("");
+  }, [open]);
+
+  const go = (href: string) => {
+    onOpenChange(false);
+    setLocation(href);
+  };
+
+  // Goals open on the Goals page, filtered to the goal in the tab it's on
+  const openResult = (result: SearchResult) => {
+    if (result.type === "note") {
+      return go(`/notepad?note=${result.id}`);
+    }
+    const goal = goals?.find(goal => goal.id === result.goalId);
+    const tab = goal?.archived ? "archived" : goal?.completed ? "completed" : "active";
+    go(`/goals?${new URLSearchParams({ q: goal?.description ?? result.title.text, tab })}`);
+  };
+
+  const matchingPages = pages.filter(page => page.label.toLowerCase().includes(input.trim().toLowerCase()));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 bg-gray-900 border-gray-800 text-gray-200 sm:max-w-[600px]">
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <Command shouldFilter={false} className="bg-gray-900 text-gray-200">
+          <CommandInput
+            value={input}
+            onValueChange={setInput}
+            placeholder="Search goals, reflections and progress notes..."
+          />
+          <CommandList className="max-h-[420px]">
+            {isFetching && results.length === 0 ? (
+              <div className="py-6 flex justify-center text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : (
+              <CommandEmpty className="py-6 text-center text-sm text-gray-500">
+                No results for "{input.trim()}"
+              </CommandEmpty>
+            )}
+            {resultGroups.map(({ type, heading, icon: Icon }) => {
+              const groupResults = results.filter(result => result.type === type);
+              if (groupResults.length === 0) return null;
+              return (
+                <CommandGroup key={type} heading={heading}>
+                  {groupResults.map(result => (
+                    <CommandItem
+                      key={`${type}-${result.id}`}
+                      value={`${type}-${result.id}`}
+                      onSelect={() => openResult(result)}
+                      className="items-start data-[selected=true]:bg-gray-800"
+                    >
+                      <Icon className="h-4 w-4 mr-2 mt-0.5 text-gray-500 shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-gray-200 truncate">
+                          <Highlighted value={result.title} />
+                        </p>
+                        {result.snippet && (
+                          <p className="text-xs text-gray-400 line-clamp-2">
+                            <Highlighted value={result.snippet} />
+                          </p>
+                        )}
+                      </div>
+                      <span className="ml-2 text-xs text-gray-500 shrink-0">
+                        {format(new Date(result.date), "MMM d")}
+                      </span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+            {matchingPages.length > 0 && (
+              <CommandGroup heading="Go to">
+                {matchingPages.map(({ label, href, icon: Icon }) => (
+                  <CommandItem
+                    key={href}
+                    value={`page-${href}`}
+                    onSelect={() => go(href)}
+                    className="data-[selected=true]:bg-gray-800"
+                  >
+                    <Icon className="h-4 w-4 mr-2 text-gray-500" />
+                    {label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+          {searchResults && search !== "" && searchResults.total > results.length && (
+            <p className="border-t border-gray-800 px-3 py-2 text-xs text-gray-500">
+              Showing the best {results.length} of {searchResults.total} matches.
+            </p>
+          )}
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Link, useLocation } from "wouter";
 import { 
   LayoutDashboard, 
@@ -11,11 +11,15 @@ import {
   Bug,
   BrainCircuit,
   FileText,
+  LogOut,
+  Search,
 } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
+import { SearchPalette } from "./search-palette";
 
 interface SidebarItemProps {
   icon: React.ElementType;
@@ -44,15 +48,63 @@ const SidebarItem = ({ icon: Icon, label, href, active }: SidebarItemProps) => {
   );
 };
 
+const UserPanel = () => {
+  const { user, logoutMutation } = useAuth();
+  if (!user) return null;
+  
+  // Every 100 points is one level, so the remainder is progress toward the next
+  const levelProgress = user.points % 100;
+  
+  return (
+    <div className="flex items-center">
+      <div className="w-10 h-10 bg-blue-900 bg-opacity-60 rounded-md flex items-center justify-center text-blue-200 font-mono font-semibold border border-blue-700 shadow-inner shadow-blue-900/20">
+        {user.username.slice(0, 2).toUpperCase() || <User className="h-5 w-5" />}
+      </div>
+      <div className="ml-3 flex-1 min-w-0">
+        <p className="text-sm font-medium text-blue-100 truncate">{user.username}</p>
+        <div className="flex items-center mt-1">
+          <div className="h-1.5 w-16 bg-gray-800 rounded overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${levelProgress}%` }}></div>
+          </div>
+          <p className="text-xs text-blue-400 ml-2 font-mono">LVL {user.level}</p>
+        </div>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-gray-400 hover:text-gray-100 hover:bg-gray-800"
+        onClick={() => logoutMutation.mutate()}
+        disabled={logoutMutation.isPending}
+        title="Log out"
+      >
+        <LogOut className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
 export const SidebarLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [location] = useLocation();
   const isMobile = useIsMobile();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
 
   const toggleMobileMenu = () => {
     setMobileMenuOpen(!mobileMenuOpen);
   };
 
+  // Ctrl+K (Cmd+K on a Mac) opens search from any page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setSearchOpen(open => !open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   return (
     <div className="min-h-screen flex bg-gray-950">
       {/* Sidebar for desktop */}
@@ -65,6 +117,18 @@ export const SidebarLayout: React.FC<{ children: React.ReactNode }> = ({ childre
           <p className="text-xs text-gray-400 mt-1">TARGET ACQUISITION SYSTEM</p>
         </div>
         
+        <div className="px-4 pt-4">
+          <button
+            type="button"
+            onClick={() => setSearchOpen(true)}
+            className="w-full flex items-center px-3 py-2 rounded-lg border border-gray-800 bg-gray-950 text-sm text-gray-500 hover:text-gray-300 hover:border-gray-700 transition-colors"
+          >
+            <Search className="mr-2 h-4 w-4" />
+            <span className="flex-1 text-left">Search...</span>
+            <kbd className="font-mono text-xs text-gray-600">Ctrl K</kbd>
+          </button>
+        </div>
+        
         <nav className="flex-1 p-4">
           <ul>
             <SidebarItem 
@@ -120,20 +184,7 @@ export const SidebarLayout: React.FC<{ children: React.ReactNode }> = ({ childre
         </nav>
         
         <div className="p-5 border-t border-gray-800 bg-black bg-opacity-30">
-          <div className="flex items-center">
-            <div className="w-10 h-10 bg-blue-900 bg-opacity-60 rounded-md flex items-center justify-center text-blue-200 font-mono font-semibold border border-blue-700 shadow-inner shadow-blue-900/20">
-              JS
-            </div>
-            <div className="ml-3">
-              <p className="text-sm font-medium text-blue-100">John Smith</p>
-              <div className="flex items-center mt-1">
-                <div className="h-1.5 w-16 bg-gray-800 rounded overflow-hidden">
-                  <div className="h-full bg-blue-500 w-1/2"></div>
-                </div>
-                <p className="text-xs text-blue-400 ml-2 font-mono">LVL 3</p>
-              </div>
-            </div>
-          </div>
+          <UserPanel />
         </div>
       </div>
       
@@ -145,9 +196,14 @@ export const SidebarLayout: React.FC<{ children: React.ReactNode }> = ({ childre
               <h1 className="text-xl font-bold bg-gradient-to-r from-blue-200 to-gray-100 bg-clip-text text-transparent">GOAL:SYNC</h1>
               <p className="text-xs text-gray-400">TARGET ACQUISITION</p>
             </div>
-            <Button variant="ghost" size="icon" onClick={toggleMobileMenu} className="text-blue-200 hover:bg-blue-900 hover:bg-opacity-40">
-              <Menu className="h-6 w-6" />
-            </Button>
+            <div className="flex items-center">
+              <Button variant="ghost" size="icon" onClick={() => setSearchOpen(true)} className="text-blue-200 hover:bg-blue-900 hover:bg-opacity-40" title="Search">
+                <Search className="h-5 w-5" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={toggleMobileMenu} className="text-blue-200 hover:bg-blue-900 hover:bg-opacity-40">
+                <Menu className="h-6 w-6" />
+              </Button>
+            </div>
           </div>
           
           {/* Mobile Menu */}
@@ -208,20 +264,7 @@ export const SidebarLayout: React.FC<{ children: React.ReactNode }> = ({ childre
               </nav>
               <Separator className="bg-gray-800"/>
               <div className="p-4 bg-black bg-opacity-30">
-                <div className="flex items-center">
-                  <div className="w-10 h-10 bg-blue-900 bg-opacity-60 rounded-md flex items-center justify-center text-blue-200 font-mono font-semibold border border-blue-700 shadow-inner shadow-blue-900/20">
-                    <User className="h-5 w-5" />
-                  </div>
-                  <div className="ml-3">
-                    <p className="text-sm font-medium text-blue-100">John Smith</p>
-                    <div className="flex items-center mt-1">
-                      <div className="h-1.5 w-16 bg-gray-800 rounded overflow-hidden">
-                        <div className="h-full bg-blue-500 w-1/2"></div>
-                      </div>
-                      <p className="text-xs text-blue-400 ml-2 font-mono">LVL 3</p>
-                    </div>
-                  </div>
-                </div>
+                <UserPanel />
               </div>
             </div>
           )}
@@ -237,6 +280,8 @@ export const SidebarLayout: React.FC<{ children: React.ReactNode }> = ({ childre
           {children}
         </main>
       </div>
+      
+      <SearchPalette open={searchOpen} onOpenChange={setSearchOpen} />
     </div>
   );
 };
@@ -1,13 +1,13 @@
-import React from "react";
+import React, { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { goalFormSchema } from "@shared/schema";
+import { goalFormSchema, goalUpdateSchema, type GoalType, type Recurrence } from "@shared/schema";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
-import { Category } from "@shared/schema";
+import type { Category, Goal } from "@shared/schema";
 
 import {
   Dialog,
@@ -26,6 +26,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { DatePicker } from "@/components/ui/date-picker";
 import {
   Select,
@@ -38,46 +39,131 @@ import {
 interface CreateGoalModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // When set, the modal edits this goal instead of creating a new one
+  goal?: Goal;
+  // When set, the new goal is created as a sub-goal of this one
+  parentGoal?: Goal;
 }
 
 type FormValues = z.infer<typeof goalFormSchema>;
 
+const goalTypeOptions: { value: GoalType; label: string }[] = [
+  { value: "cumulative", label: "Add up to a total" },
+  { value: "decreasing", label: "Bring a number down" },
+  { value: "latest", label: "Reach a value" },
+  { value: "boolean", label: "Habit (done / not done)" },
+  { value: "checklist", label: "Checklist of milestones" },
+];
+
+const recurrenceOptions: { value: Recurrence; label: string }[] = [
+  { value: "none", label: "Once, by the deadline" },
+  { value: "daily", label: "Every day" },
+  { value: "weekly", label: "Every week" },
+];
+
 export const CreateGoalModal: React.FC<CreateGoalModalProps> = ({
   isOpen,
   onClose,
+  goal,
+  parentGoal,
 }) => {
   const { toast } = useToast();
+  const isEditing = !!goal;
+  // Raw textarea contents, so blank lines survive while typing
+  const [milestoneText, setMilestoneText] = useState("");
   
   const { data: categories, isLoading: isCategoriesLoading } = useQuery<Category[]>({
     queryKey: ['/api/categories'],
   });
 
   const form = useForm<FormValues>({
-    resolver: zodResolver(goalFormSchema),
-    defaultValues: {
-      description: "",
-      targetValue: 0,
-      unit: "",
-      deadline: new Date(),
-      reminderFrequency: "daily",
-    },
+    // Editing validates against the same schema the PATCH route uses
+    resolver: zodResolver(isEditing ? goalUpdateSchema : goalFormSchema),
+    defaultValues: goal
+      ? {
+          description: goal.description,
+          targetValue: goal.targetValue,
+          unit: goal.unit,
+          deadline: new Date(goal.deadline),
+          categoryId: goal.categoryId ?? undefined,
+          reminderFrequency: goal.reminderFrequency as FormValues["reminderFrequency"],
+          weight: goal.weight,
+        }
+      : {
+          description: "",
+          goalType: "cumulative",
+          recurrence: "none",
+          targetValue: 0,
+          unit: "",
+          deadline: parentGoal ? new Date(parentGoal.deadline) : new Date(),
+          reminderFrequency: "daily",
+          parentGoalId: parentGoal?.id,
+          weight: parentGoal ? 1 : undefined,
+        },
   });
 
+  const goalType = isEditing ? goal.goalType : form.watch("goalType");
+  const isChecklist = goalType === "checklist";
+  // Only totals and habits can restart each period, and sub-goals never do
+  const canRecur = !parentGoal && (goalType === "cumulative" || goalType === "boolean");
+  const isSubGoal = isEditing ? goal.parentGoalId !== null : !!parentGoal;
+  const recurrence = isEditing ? goal.recurrence : form.watch("recurrence");
+
+  const handleGoalTypeChange = (value: GoalType) => {
+    form.setValue("goalType", value);
+    if (value !== "cumulative" && value !== "boolean") {
+      form.setValue("recurrence", "none");
+    }
+    if (value === "checklist") {
+      form.setValue("unit", "milestones");
+      form.setValue("targetValue", form.getValues("milestones")?.length ?? 0);
+    }
+  };
+
+  const handleMilestonesChange = (text: string) => {
+    setMilestoneText(text);
+    const titles = text.split("\n").map((line) => line.trim()).filter(Boolean);
+    form.setValue("milestones", titles, { shouldValidate: form.formState.isSubmitted });
+    // A checklist's target is its number of milestones
+    form.setValue("targetValue", titles.length);
+  };
+
   const onSubmit = async (data: FormValues) => {
     try {
-      await apiRequest('POST', '/api/goals', data);
+      if (goal) {
+        // Only send the fields that actually changed
+        const dirtyFields = form.formState.dirtyFields;
+        const changes = Object.fromEntries(
+          Object.entries(data).filter(([key]) => dirtyFields[key as keyof FormValues])
+        );
+        if (Object.keys(changes).length === 0) {
+          onClose();
+          return;
+        }
+        await apiRequest('PATCH', `/api/goals/${goal.id}`, goalUpdateSchema.parse(changes));
+        queryClient.invalidateQueries({ queryKey: [`/api/goals/${goal.id}`] });
+      } else {
+        await apiRequest('POST', '/api/goals', data);
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
       toast({
         title: "Success",
-        description: "Your goal has been created successfully!",
+        description: isEditing
+          ? "Your goal has been updated successfully!"
+          : "Your goal has been created successfully!",
       });
       form.reset();
+      setMilestoneText("");
       onClose();
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to create goal. Please try again.",
+        description: isEditing
+          ? "Failed to update goal. Please try again."
+          : "Failed to create goal. Please try again.",
         variant: "destructive",
       });
     }
@@ -87,7 +173,14 @@ export const CreateGoalModal: React.FC<CreateGoalModalProps> = ({
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle className="text-lg font-semibold text-gray-800">Create New Goal</DialogTitle>
+          <DialogTitle className="text-lg font-semibold text-gray-800">
+            {isEditing ? "Edit Goal" : parentGoal ? "Add Sub-goal" : "Create New Goal"}
+          </DialogTitle>
+          {parentGoal && (
+            <p className="text-sm text-gray-500">
+              Progress on this goal counts towards "{parentGoal.description}".
+            </p>
+          )}
         </DialogHeader>
         
         <Form {...form}>
@@ -106,13 +199,123 @@ export const CreateGoalModal: React.FC<CreateGoalModalProps> = ({
               )}
             />
 
+            {!isEditing && (
+              <FormField
+                control={form.control}
+                name="goalType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Goal Type</FormLabel>
+                    <Select
+                      onValueChange={(value) => handleGoalTypeChange(value as GoalType)}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a goal type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {goalTypeOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!isEditing && canRecur && (
+              <FormField
+                control={form.control}
+                name="recurrence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeats</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="How often?" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {recurrenceOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!isEditing && (goalType === "decreasing" || goalType === "latest") && (
+              <FormField
+                control={form.control}
+                name="startValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      Start Value{goalType === "latest" && " (optional)"}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="Where are you now? e.g. 90"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!isEditing && isChecklist && (
+              <FormField
+                control={form.control}
+                name="milestones"
+                render={() => (
+                  <FormItem>
+                    <FormLabel>Milestones</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder={"One per line, in order"}
+                        className="resize-none"
+                        rows={4}
+                        value={milestoneText}
+                        onChange={(e) => handleMilestonesChange(e.target.value)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!isChecklist && (
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
                 name="targetValue"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Target Value</FormLabel>
+                    <FormLabel>
+                      {goalType === "boolean" ? "Times To Do It" : "Target Value"}
+                      {recurrence === "daily" && " Per Day"}
+                      {recurrence === "weekly" && " Per Week"}
+                    </FormLabel>
                     <FormControl>
                       <Input
                         type="number"
@@ -133,13 +336,38 @@ export const CreateGoalModal: React.FC<CreateGoalModalProps> = ({
                   <FormItem>
                     <FormLabel>Unit</FormLabel>
                     <FormControl>
-                      <Input placeholder="e.g. miles" {...field} />
+                      <Input placeholder={goalType === "boolean" ? "e.g. days" : "e.g. miles"} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
             </div>
+            )}
+
+            {isSubGoal && (
+              <FormField
+                control={form.control}
+                name="weight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weight</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="1"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <p className="text-xs text-gray-500">
+                      How much this counts towards the parent goal, relative to its other sub-goals.
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
 
             <FormField
               control={form.control}
@@ -215,7 +443,7 @@ export const CreateGoalModal: React.FC<CreateGoalModalProps> = ({
                 Cancel
               </Button>
               <Button type="submit" disabled={form.formState.isSubmitting}>
-                Create Goal
+                {isEditing ? "Save Changes" : "Create Goal"}
               </Button>
             </DialogFooter>
           </form>
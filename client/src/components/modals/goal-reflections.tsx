@@ -0,0 +1,110 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { FileText, Plus } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Goal, NoteLinks, NotePage, NoteWithLinks } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface GoalReflectionsProps {
+  goal: Goal;
+  onOpenNote: () => void;
+}
+
+/**
+ * Start a reflection linked to goals and progress entries. The Notepad opens
+ * it with `/notepad?note=<id>`.
+ */
+export async function createReflection(title: string, links: Partial<NoteLinks>): Promise<NoteWithLinks> {
+  const res = await apiRequest('POST', '/api/notes', { title, content: "", ...links });
+  queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+  return res.json();
+}
+
+/**
+ * Notes linked to a goal, most recently updated first, with a shortcut to
+ * write another
+ */
+export const GoalReflections: React.FC<GoalReflectionsProps> = ({ goal, onOpenNote }) => {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: notePage, isLoading } = useQuery<NotePage>({
+    queryKey: ['/api/notes', { goalId: goal.id }],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/notes?goalId=${goal.id}`);
+      return res.json();
+    },
+  });
+
+  const openNote = (noteId: number) => {
+    onOpenNote();
+    setLocation(`/notepad?note=${noteId}`);
+  };
+
+  const handleWrite = async () => {
+    try {
+      const note = await createReflection(`Reflection on ${goal.description}`, { goalIds: [goal.id] });
+      openNote(note.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to start a reflection. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {notePage && notePage.notes.length > 0 ? (
+        <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+          {notePage.notes.map((note) => (
+            <li key={note.id}>
+              <button
+                type="button"
+                className="w-full text-left py-2 hover:bg-gray-50"
+                onClick={() => openNote(note.id)}
+              >
+                <p className="text-sm font-medium text-gray-800 line-clamp-1">{note.title}</p>
+                {note.content && <p className="text-xs text-gray-500 line-clamp-1">{note.content}</p>}
+                <p className="text-xs text-gray-400">
+                  {format(new Date(note.updatedAt), "MMM d, yyyy")}
+                  {note.progressLogIds.length > 0 &&
+                    ` · ${note.progressLogIds.length} progress entr${note.progressLogIds.length === 1 ? "y" : "ies"}`}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 flex items-center">
+          <FileText className="h-4 w-4 mr-2" />
+          No reflections on this goal yet.
+        </p>
+      )}
+      {notePage && notePage.total > notePage.notes.length && (
+        <p className="text-xs text-gray-400">
+          Showing the latest {notePage.notes.length} of {notePage.total}.
+        </p>
+      )}
+      <Button type="button" variant="outline" size="sm" onClick={handleWrite}>
+        <Plus className="h-4 w-4 mr-1" />
+        Write a reflection
+      </Button>
+    </div>
+  );
+};
@@ -1,12 +1,17 @@
-import React from "react";
+import React, { useRef } from "react";
 import { useForm } from "react-hook-form";
+import { useLocation } from "wouter";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { progressLogFormSchema } from "@shared/schema";
+import { getProgressDateError } from "@shared/schema";
+import { DEFAULT_TIME_ZONE } from "@shared/timezone";
+import { describeProgress, getProgressValueError, isMeasuredGoal } from "@shared/goal-progress";
 import { z } from "zod";
+import { isToday } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Goal } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import type { Goal, ProgressLog } from "@shared/schema";
 
 import {
   Dialog,
@@ -26,7 +31,17 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { DatePicker } from "@/components/ui/date-picker";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ProgressHistory } from "@/components/modals/progress-history";
+import { GoalReflections, createReflection } from "@/components/modals/goal-reflections";
 
 interface LogProgressModalProps {
   goal: Goal;
@@ -40,41 +55,78 @@ type FormValues = {
   date: Date;
 };
 
+/**
+ * The picker only chooses a day. Today's entries are left for the server to
+ * timestamp; earlier days keep the current time of day so entries logged
+ * for the same day stay in the order they were entered.
+ */
+function toLogDate(day: Date): Date | undefined {
+  if (isToday(day)) return undefined;
+  
+  const now = new Date();
+  const date = new Date(day);
+  date.setHours(now.getHours(), now.getMinutes(), now.getSeconds(), now.getMilliseconds());
+  return date;
+}
+
 export const LogProgressModal: React.FC<LogProgressModalProps> = ({
   goal,
   isOpen,
   onClose,
 }) => {
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const timeZone = user?.timeZone ?? DEFAULT_TIME_ZONE;
+  // Set by "Log & Reflect" to open a reflection on the new entry afterwards
+  const reflectAfterLogging = useRef(false);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(
       z.object({
-        value: z.number().positive("Progress value must be positive"),
+        value: z.number().superRefine((value, ctx) => {
+          const message = getProgressValueError(goal, value);
+          if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+        }),
         notes: z.string().optional(),
-        date: z.date(),
+        date: z.date().superRefine((date, ctx) => {
+          const message = getProgressDateError(date, new Date(goal.createdAt), timeZone);
+          if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+        }),
       })
     ),
     defaultValues: {
-      value: 0,
+      // Habit check-ins default to "done"
+      value: goal.goalType === 'boolean' ? 1 : 0,
       notes: "",
       date: new Date(),
     },
   });
 
   const onSubmit = async (data: FormValues) => {
+    const reflect = reflectAfterLogging.current;
+    reflectAfterLogging.current = false;
+    let log: ProgressLog;
     try {
-      await apiRequest('POST', '/api/progress-logs', {
+      const res = await apiRequest('POST', '/api/progress-logs', {
         goalId: goal.id,
         value: data.value,
         notes: data.notes,
-        date: data.date,
+        date: toLogDate(data.date),
       });
+      log = await res.json();
       
       // Invalidate relevant queries
       queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
       queryClient.invalidateQueries({ queryKey: [`/api/progress-logs/${goal.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/goals/${goal.id}/periods`] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/badges'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats/streaks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/points/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
       
       toast({
         title: "Progress Logged",
@@ -88,6 +140,20 @@ export const LogProgressModal: React.FC<LogProgressModalProps> = ({
         description: "Failed to log progress. Please try again.",
         variant: "destructive",
       });
+      return;
+    }
+    
+    if (reflect) {
+      try {
+        const note = await createReflection(`Reflection on ${goal.description}`, { progressLogIds: [log.id] });
+        setLocation(`/notepad?note=${note.id}`);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Your progress was logged, but the reflection couldn't be started.",
+          variant: "destructive",
+        });
+      }
     }
   };
 
@@ -101,18 +167,46 @@ export const LogProgressModal: React.FC<LogProgressModalProps> = ({
         <div className="mb-4">
           <p className="font-medium text-gray-800">Goal: {goal.description}</p>
           <p className="text-sm text-gray-500">
-            Current progress: {goal.currentValue.toFixed(1)} / {goal.targetValue} {goal.unit}
+            Current progress: {describeProgress(goal)}
           </p>
         </div>
         
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {goal.goalType === 'boolean' ? (
+              <FormField
+                control={form.control}
+                name="value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Did you do it?</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      value={field.value.toString()}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="1">Yes, done</SelectItem>
+                        <SelectItem value="0">No, missed it</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
             <FormField
               control={form.control}
               name="value"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>How much progress did you make?</FormLabel>
+                  <FormLabel>
+                    {isMeasuredGoal(goal.goalType) ? "What's your latest measurement?" : "How much progress did you make?"}
+                  </FormLabel>
                   <div className="flex">
                     <FormControl>
                       <Input
@@ -134,6 +228,7 @@ export const LogProgressModal: React.FC<LogProgressModalProps> = ({
                 </FormItem>
               )}
             />
+            )}
 
             <FormField
               control={form.control}
@@ -144,6 +239,8 @@ export const LogProgressModal: React.FC<LogProgressModalProps> = ({
                   <DatePicker
                     date={field.value}
                     onSelect={field.onChange}
+                    fromDate={new Date(goal.createdAt)}
+                    toDate={new Date()}
                   />
                   <FormMessage />
                 </FormItem>
@@ -172,12 +269,37 @@ export const LogProgressModal: React.FC<LogProgressModalProps> = ({
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
               </Button>
-              <Button type="submit" disabled={form.formState.isSubmitting}>
+              <Button
+                type="submit"
+                variant="secondary"
+                disabled={form.formState.isSubmitting}
+                onClick={() => { reflectAfterLogging.current = true; }}
+              >
+                Log & Reflect
+              </Button>
+              <Button
+                type="submit"
+                disabled={form.formState.isSubmitting}
+                onClick={() => { reflectAfterLogging.current = false; }}
+              >
                 Log Progress
               </Button>
             </DialogFooter>
           </form>
         </Form>
+        
+        <Tabs defaultValue="history" className="border-t border-gray-200 pt-4">
+          <TabsList>
+            <TabsTrigger value="history">History</TabsTrigger>
+            <TabsTrigger value="reflections">Reflections</TabsTrigger>
+          </TabsList>
+          <TabsContent value="history">
+            <ProgressHistory goal={goal} />
+          </TabsContent>
+          <TabsContent value="reflections">
+            <GoalReflections goal={goal} onOpenNote={onClose} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { diffLines } from "@shared/note-revisions";
+import type { NoteRevision, NoteWithLinks } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToastAction } from "@/components/ui/toast";
+import { cn } from "@/lib/utils";
+
+interface NoteHistoryModalProps {
+  note: NoteWithLinks;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore: (note: NoteWithLinks) => void;
+}
+
+type Comparison = "previous" | "current";
+
+const diffLineStyles = {
+  same: "text-gray-400",
+  added: "bg-emerald-900/40 text-emerald-200",
+  removed: "bg-red-900/40 text-red-200 line-through",
+};
+
+const diffLinePrefixes = { same: " ", added: "+", removed: "-" };
+
+/**
+ * A note's saved revisions, what each one changed, and restoring one
+ */
+export const NoteHistoryModal: React.FC<NoteHistoryModalProps> = ({ note, isOpen, onClose, onRestore }) => {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<Comparison>("previous");
+
+  const { data: revisions, isLoading } = useQuery<NoteRevision[]>({
+    queryKey: ['/api/notes', note.id, 'revisions'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/notes/${note.id}/revisions`);
+      return res.json();
+    },
+    enabled: isOpen,
+  });
+
+  const selectedIndex = revisions?.findIndex(revision => revision.id === selectedId) ?? -1;
+  const selected = revisions?.[selectedIndex];
+  // Revisions are newest first, so the one before is next in the list
+  const previous = revisions?.[selectedIndex + 1];
+
+  useEffect(() => {
+    if (!selected && revisions && revisions.length > 0) {
+      setSelectedId(revisions[0].id);
+    }
+  }, [revisions, selected]);
+
+  const restore = async (revisionId: number) => {
+    const res = await apiRequest('POST', `/api/note-revisions/${revisionId}/restore`);
+    const restoredNote: NoteWithLinks = await res.json();
+    queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+    onRestore(restoredNote);
+    return restoredNote;
+  };
+
+  const handleRestore = async () => {
+    if (!selected || !revisions) return;
+
+    // What the note holds now, to go back to
+    const latestId = revisions[0].id;
+    try {
+      await restore(selected.id);
+      setSelectedId(null);
+      toast({
+        title: "Reflection restored",
+        description: `Restored the version from ${format(new Date(selected.updatedAt), "MMM d, h:mm a")}.`,
+        action: (
+          <ToastAction altText="Undo restore" onClick={() => restore(latestId).catch(showRestoreError)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      showRestoreError();
+    }
+  };
+
+  const showRestoreError = () => {
+    toast({
+      title: "Error",
+      description: "Failed to restore the reflection. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  // What the selected version changed, or what has changed since it
+  const [from, to] = comparison === "current" ? [selected, note] : [previous, selected];
+  const changes = to ? diffLines(from?.content ?? "", to.content) : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[820px] bg-gray-900 border-gray-800 text-gray-200">
+        <DialogHeader>
+          <DialogTitle className="text-gray-100 flex items-center">
+            <History className="h-4 w-4 mr-2 text-emerald-400" />
+            Version History
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Saves close together are kept as one version. Restoring a version keeps the current one in the history.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : !revisions || revisions.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">
+            No earlier versions yet. They are kept from the next time this reflection is saved.
+          </p>
+        ) : (
+          <div className="flex gap-4 h-[400px]">
+            <ul className="w-52 overflow-y-auto space-y-1">
+              {revisions.map((revision, index) => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    className={cn(
+                      "w-full text-left px-2 py-1.5 rounded",
+                      revision.id === selectedId ? "bg-emerald-900/40" : "hover:bg-gray-800"
+                    )}
+                    onClick={() => setSelectedId(revision.id)}
+                  >
+                    <p className="text-sm text-gray-200">
+                      {format(new Date(revision.updatedAt), "MMM d, h:mm a")}
+                      {index === 0 && <span className="ml-1 text-xs text-emerald-400">(current)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 line-clamp-1">{revision.title}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="flex-1 flex flex-col min-w-0">
+                <div className="flex items-center justify-between mb-2">
+                  <Tabs value={comparison} onValueChange={(value) => setComparison(value as Comparison)}>
+                    <TabsList className="h-8 bg-gray-950">
+                      <TabsTrigger value="previous" className="text-xs">Changes in this version</TabsTrigger>
+                      <TabsTrigger value="current" className="text-xs">Compared to now</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                  <Button
+                    size="sm"
+                    className="bg-emerald-600 hover:bg-emerald-700"
+                    disabled={selectedIndex === 0}
+                    onClick={handleRestore}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                </div>
+                {from && to && from.title !== to.title && (
+                  <p className="text-xs text-gray-400 mb-2">
+                    Title: <span className="line-through">{from.title}</span> → {to.title}
+                  </p>
+                )}
+                <pre className="flex-1 overflow-auto rounded-md border border-gray-800 bg-gray-950 p-3 text-xs font-mono whitespace-pre-wrap">
+                  {changes.length > 0 ? (
+                    changes.map((line, i) => (
+                      <div key={i} className={diffLineStyles[line.type]}>
+                        {diffLinePrefixes[line.type]} {line.text}
+                      </div>
+                    ))
+                  ) : (
+                    <span className="text-gray-500">No content.</span>
+                  )}
+                </pre>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { noteTemplateFormSchema, type NoteTemplate } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+interface NoteTemplatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Edit the user's library of reflection templates. `{{date}}` in a
+ * template becomes the day a note is started from it.
+ */
+export const NoteTemplatesModal: React.FC<NoteTemplatesModalProps> = ({ isOpen, onClose }) => {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [content, setContent] = useState("");
+
+  const { data: templates, isLoading } = useQuery<NoteTemplate[]>({
+    queryKey: ['/api/note-templates'],
+  });
+  const selected = templates?.find(template => template.id === selectedId);
+
+  useEffect(() => {
+    if (!selected && templates && templates.length > 0) {
+      setSelectedId(templates[0].id);
+    }
+  }, [templates, selected]);
+
+  useEffect(() => {
+    setName(selected?.name ?? "");
+    setContent(selected?.content ?? "");
+  }, [selected?.id]);
+
+  const showError = (description: string) => {
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const handleAdd = async () => {
+    try {
+      const res = await apiRequest('POST', '/api/note-templates', { name: "New Template", content: "" });
+      const template: NoteTemplate = await res.json();
+      await queryClient.invalidateQueries({ queryKey: ['/api/note-templates'] });
+      setSelectedId(template.id);
+    } catch (error) {
+      showError("Failed to add a template. Please try again.");
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+
+    const parsed = noteTemplateFormSchema.safeParse({ name, content });
+    if (!parsed.success) {
+      return showError(parsed.error.errors[0]?.message ?? "Please check the template.");
+    }
+    try {
+      await apiRequest('PATCH', `/api/note-templates/${selected.id}`, parsed.data);
+      queryClient.invalidateQueries({ queryKey: ['/api/note-templates'] });
+      toast({ title: "Template saved", description: `"${parsed.data.name}" has been updated.` });
+    } catch (error) {
+      showError("Failed to save the template. Please try again.");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete the "${selected.name}" template?`)) return;
+
+    try {
+      await apiRequest('DELETE', `/api/note-templates/${selected.id}`);
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/note-templates'] });
+    } catch (error) {
+      showError("Failed to delete the template. Please try again.");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[720px] bg-gray-900 border-gray-800 text-gray-200">
+        <DialogHeader>
+          <DialogTitle className="text-gray-100">Reflection Templates</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Start new reflections from these. Markdown works, and {"{{date}}"} becomes the day you use the template.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 min-h-[320px]">
+          <div className="w-48 space-y-1">
+            {isLoading ? (
+              <Skeleton className="h-8 w-full" />
+            ) : (
+              templates?.map(template => (
+                <button
+                  key={template.id}
+                  type="button"
+                  className={cn(
+                    "w-full text-left text-sm px-2 py-1.5 rounded",
+                    template.id === selectedId ? "bg-emerald-900/40 text-emerald-200" : "text-gray-300 hover:bg-gray-800"
+                  )}
+                  onClick={() => setSelectedId(template.id)}
+                >
+                  {template.name}
+                </button>
+              ))
+            )}
+            <Button variant="ghost" size="sm" className="w-full justify-start text-emerald-400" onClick={handleAdd}>
+              <Plus className="h-4 w-4 mr-1" />
+              New template
+            </Button>
+          </div>
+
+          {selected ? (
+            <div className="flex-1 flex flex-col gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Template name"
+                className="bg-transparent border-gray-800"
+              />
+              <Textarea
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                className="flex-1 min-h-[240px] font-mono text-sm resize-none bg-transparent border-gray-800"
+              />
+              <div className="flex justify-between">
+                <Button variant="ghost" size="sm" className="text-gray-400 hover:text-red-400" onClick={handleDelete}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+                <Button size="sm" className="bg-emerald-600 hover:bg-emerald-700" onClick={handleSave}>
+                  <Save className="h-4 w-4 mr-1" />
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="flex-1 text-sm text-gray-500">No templates yet. Add one to get started.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
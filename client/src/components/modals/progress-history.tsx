@@ -0,0 +1,218 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, isSameDay } from "date-fns";
+import { Check, Edit, Trash2, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { getProgressDateError, progressLogUpdateSchema } from "@shared/schema";
+import { getProgressValueError } from "@shared/goal-progress";
+import { DEFAULT_TIME_ZONE } from "@shared/timezone";
+import type { Goal, ProgressLog } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { DatePicker } from "@/components/ui/date-picker";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface ProgressHistoryProps {
+  goal: Goal;
+}
+
+function formatLogValue(goal: Goal, value: number): string {
+  switch (goal.goalType) {
+    case 'boolean':
+      return value > 0 ? "Done" : "Missed";
+    case 'decreasing':
+    case 'latest':
+      return `${value} ${goal.unit}`;
+    default:
+      return `+${value} ${goal.unit}`;
+  }
+}
+
+/**
+ * An entry moved to another day keeps its time of day, so entries on the
+ * same day stay in the order they were logged, but never lands in the future
+ */
+function moveToDay(logDate: Date, day: Date): Date {
+  const date = new Date(day);
+  date.setHours(logDate.getHours(), logDate.getMinutes(), logDate.getSeconds(), logDate.getMilliseconds());
+  const now = new Date();
+  return date > now ? now : date;
+}
+
+/**
+ * Logged entries for a goal, newest first, with inline correction and removal.
+ * The server recomputes the goal's total after each change.
+ */
+export const ProgressHistory: React.FC<ProgressHistoryProps> = ({ goal }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const timeZone = user?.timeZone ?? DEFAULT_TIME_ZONE;
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editValue, setEditValue] = useState("");
+  const [editNotes, setEditNotes] = useState("");
+  const [editDate, setEditDate] = useState<Date | undefined>(undefined);
+
+  const { data: logs, isLoading } = useQuery<ProgressLog[]>({
+    queryKey: [`/api/progress-logs/${goal.id}`],
+  });
+
+  const sortedLogs = logs
+    ? [...logs].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    : [];
+
+  const invalidateProgressQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/progress-logs/${goal.id}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/goals/${goal.id}/periods`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/badges'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats/streaks'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/points/history'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+  };
+
+  const startEditing = (log: ProgressLog) => {
+    setEditingId(log.id);
+    setEditValue(String(log.value));
+    setEditNotes(log.notes ?? "");
+    setEditDate(new Date(log.date));
+  };
+
+  const handleSave = async (log: ProgressLog) => {
+    const logDate = new Date(log.date);
+    // Only sent when the day changes, so the entry's timestamp is kept otherwise
+    const date = editDate && !isSameDay(editDate, logDate) ? moveToDay(logDate, editDate) : undefined;
+    const parsed = progressLogUpdateSchema.safeParse({
+      value: parseFloat(editValue),
+      notes: editNotes.trim() === "" ? null : editNotes,
+      ...(date && { date }),
+    });
+    const message = parsed.success
+      ? getProgressValueError(goal, parsed.data.value!) ??
+        (date && getProgressDateError(date, new Date(goal.createdAt), timeZone))
+      : parsed.error.errors[0]?.message ?? "Please check the value.";
+    if (!parsed.success || message) {
+      toast({
+        title: "Invalid Entry",
+        description: message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await apiRequest('PATCH', `/api/progress-logs/${log.id}`, parsed.data);
+      invalidateProgressQueries();
+      setEditingId(null);
+      toast({
+        title: "Entry Updated",
+        description: "Your goal's progress has been recalculated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update the entry. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (log: ProgressLog) => {
+    if (window.confirm("Delete this progress entry? The points it earned will be removed.")) {
+      try {
+        await apiRequest('DELETE', `/api/progress-logs/${log.id}`);
+        invalidateProgressQueries();
+        toast({
+          title: "Entry Deleted",
+          description: "Your goal's progress has been recalculated.",
+        });
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to delete the entry. Please try again.",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (sortedLogs.length === 0) {
+    return <p className="text-sm text-gray-500">No progress logged yet.</p>;
+  }
+
+  return (
+    <ul className="max-h-48 overflow-y-auto divide-y divide-gray-200">
+      {sortedLogs.map((log) => (
+        <li key={log.id} className="py-2">
+          {editingId === log.id ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  className="h-8"
+                  aria-label="Progress value"
+                />
+                <span className="text-sm text-gray-500">{goal.unit}</span>
+                <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleSave(log)} title="Save">
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)} title="Cancel">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <Input
+                value={editNotes}
+                onChange={(e) => setEditNotes(e.target.value)}
+                placeholder="Notes (optional)"
+                className="h-8"
+                aria-label="Notes"
+              />
+              <DatePicker
+                date={editDate}
+                onSelect={setEditDate}
+                fromDate={new Date(goal.createdAt)}
+                toDate={new Date()}
+              />
+            </div>
+          ) : (
+            <div className="flex items-center justify-between">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-800">
+                  {formatLogValue(goal, log.value)}
+                  <span className="ml-2 text-xs font-normal text-gray-500">
+                    {format(new Date(log.date), "MMM d, yyyy")}
+                  </span>
+                </p>
+                {log.notes && <p className="text-xs text-gray-500 truncate">{log.notes}</p>}
+              </div>
+              <div className="flex shrink-0">
+                <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={() => startEditing(log)} title="Edit Entry">
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleDelete(log)} title="Delete Entry">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,91 @@
+import React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DEFAULT_TIME_ZONE } from "@shared/timezone";
+import type { SafeUser, UserSettings } from "@shared/schema";
+
+/**
+ * Account preferences for daily planning, saved as soon as they change
+ */
+export const PlanningSettings: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const timeZone = user?.timeZone ?? DEFAULT_TIME_ZONE;
+  // The browser's list leaves out UTC, and may not know an older zone name
+  const timeZones = Array.from(
+    new Set([DEFAULT_TIME_ZONE, timeZone, ...Intl.supportedValuesOf("timeZone")])
+  );
+
+  const saveSettings = async (settings: UserSettings) => {
+    try {
+      const res = await apiRequest('PATCH', '/api/users/me', settings);
+      queryClient.setQueryData(['/api/auth/me'], (await res.json()) as SafeUser);
+      queryClient.invalidateQueries({ queryKey: ['/api/action-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/action-items/overdue'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save your settings. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="card border border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-gray-100">Daily Planning</CardTitle>
+        <CardDescription>Choose how your action items behave from day to day</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <div className="text-sm font-medium text-gray-200">Time Zone</div>
+            <div className="text-xs text-gray-500">
+              Your days, weeks and deadlines start at midnight in this zone
+            </div>
+          </div>
+          <Select
+            value={timeZone}
+            disabled={!user}
+            onValueChange={(value) => saveSettings({ timeZone: value })}
+          >
+            <SelectTrigger className="w-56" aria-label="Time zone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeZones.map((zone) => (
+                <SelectItem key={zone} value={zone}>
+                  {zone.replace(/_/g, " ")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <div className="text-sm font-medium text-gray-200">Carry Over Unfinished Actions</div>
+            <div className="text-xs text-gray-500">
+              Keep custom actions you didn't finish on the dashboard as overdue until you complete, snooze or delete them
+            </div>
+          </div>
+          <Switch
+            checked={user?.carryOverActionItems ?? true}
+            disabled={!user}
+            onCheckedChange={(checked) => saveSettings({ carryOverActionItems: checked })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
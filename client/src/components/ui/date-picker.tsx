@@ -14,9 +14,12 @@ interface DatePickerProps {
   date: Date | undefined;
   onSelect: (date: Date | undefined) => void;
   disabled?: boolean;
+  // Earliest and latest selectable days
+  fromDate?: Date;
+  toDate?: Date;
 }
 
-export function DatePicker({ date, onSelect, disabled }: DatePickerProps) {
+export function DatePicker({ date, onSelect, disabled, fromDate, toDate }: DatePickerProps) {
   return (
     <Popover>
       <PopoverTrigger asChild>
@@ -37,6 +40,8 @@ export function DatePicker({ date, onSelect, disabled }: DatePickerProps) {
           mode="single"
           selected={date}
           onSelect={onSelect}
+          fromDate={fromDate}
+          toDate={toDate}
           initialFocus
         />
       </PopoverContent>
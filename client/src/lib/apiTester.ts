@@ -12,14 +12,26 @@ import * as debugStorage from './debugStorage';
 // API endpoint groups for testing
 export enum ApiEndpoint {
   USERS = '/api/users',
+  AUTH_ME = '/api/auth/me',
   DASHBOARD = '/api/dashboard/stats',
   GOALS = '/api/goals',
   GOAL_BY_ID = '/api/goals/:id',
+  GOAL_FORECAST = '/api/goals/:goalId/forecast',
+  GOAL_FORECASTS = '/api/goals/forecasts',
+  GOALS_TRASH = '/api/goals/trash',
   CATEGORIES = '/api/categories',
   PROGRESS_LOGS = '/api/progress-logs',
   PROGRESS_LOGS_BY_GOAL = '/api/progress-logs/:goalId',
   ACTION_ITEMS = '/api/action-items',
   BADGES = '/api/badges',
+  POINTS_HISTORY = '/api/points/history',
+  ACHIEVEMENTS = '/api/achievements',
+  STREAKS = '/api/stats/streaks',
+  ANALYTICS = '/api/analytics',
+  SEARCH = '/api/search?q=:q',
+  NOTES = '/api/notes',
+  NOTE_TEMPLATES = '/api/note-templates',
+  NOTE_REVISIONS = '/api/notes/:noteId/revisions',
 }
 
 // Test result interface
@@ -146,6 +158,7 @@ export async function testAllEndpoints(): Promise<ApiTestResult[]> {
   
   // Goals endpoints
   results.push(await testEndpoint(ApiEndpoint.GOALS));
+  results.push(await testEndpoint(ApiEndpoint.GOAL_FORECASTS));
   
   // Categories
   results.push(await testEndpoint(ApiEndpoint.CATEGORIES));
@@ -156,6 +169,36 @@ export async function testAllEndpoints(): Promise<ApiTestResult[]> {
   // Badges 
   results.push(await testEndpoint(ApiEndpoint.BADGES));
   
+  // Points history
+  results.push(await testEndpoint(ApiEndpoint.POINTS_HISTORY));
+  
+  // Achievements
+  results.push(await testEndpoint(ApiEndpoint.ACHIEVEMENTS));
+  
+  // Streaks
+  results.push(await testEndpoint(ApiEndpoint.STREAKS));
+  
+  // Analytics
+  results.push(await testEndpoint(ApiEndpoint.ANALYTICS));
+  
+  // Search
+  results.push(await testEndpoint(ApiEndpoint.SEARCH, 'GET', undefined, { q: 'goal' }));
+  
+  // Notes
+  results.push(await testEndpoint(ApiEndpoint.NOTES));
+  results.push(await testEndpoint(ApiEndpoint.NOTE_TEMPLATES));
+  
+  // Revisions of the most recently updated note
+  const notesResult = await testEndpoint(ApiEndpoint.NOTES);
+  if (notesResult.success && notesResult.data.notes.length > 0) {
+    results.push(await testEndpoint(
+      ApiEndpoint.NOTE_REVISIONS,
+      'GET',
+      undefined,
+      { noteId: notesResult.data.notes[0].id.toString() }
+    ));
+  }
+  
   // Test goal creation
   const testGoal = {
     description: 'API Test Goal',
@@ -209,6 +252,14 @@ export async function testAllEndpoints(): Promise<ApiTestResult[]> {
       undefined,
       { id: goalId.toString() }
     ));
+    
+    // Forecast the goal from the progress just logged
+    results.push(await testEndpoint(
+      ApiEndpoint.GOAL_FORECAST,
+      'GET',
+      undefined,
+      { goalId: goalId.toString() }
+    ));
   }
   
   // Log testing summary
@@ -141,15 +141,15 @@ registerFeatureTest({
         
         // Verify action item has required fields
         if (typeof firstItem.id !== 'number' ||
-            typeof firstItem.goalId !== 'number' ||
+            (firstItem.goalId !== null && typeof firstItem.goalId !== 'number') ||
             typeof firstItem.description !== 'string' ||
             typeof firstItem.completed !== 'boolean') {
           console.error('Action item missing required fields:', firstItem);
           return false;
         }
         
-        // Verify action item has goal description
-        if (typeof firstItem.goalDescription !== 'string') {
+        // Verify action item has goal description (null for custom items without a goal)
+        if (firstItem.goalId !== null && typeof firstItem.goalDescription !== 'string') {
           console.error('Action item missing goal description:', firstItem);
           return false;
         }
@@ -1,24 +1,22 @@
 import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { 
   Award, 
   Trophy, 
   Star, 
-  Medal, 
   ThumbsUp, 
   Target, 
   Flame, 
   Zap, 
   Share2,
-  Clock,
   CalendarClock,
-  BookOpen,
-  Calendar,
   Dumbbell,
   Briefcase,
   GraduationCap,
   Filter,
-  SlidersHorizontal
+  SlidersHorizontal,
+  type LucideIcon
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -26,7 +24,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
-import type { Badge as BadgeType } from "@shared/schema";
+import { achievementCategories, type AchievementCategory, type AchievementStatus } from "@shared/achievements";
+import { PointsHistory } from "@/components/achievements/points-history";
+
+interface AchievementStyle {
+  icon: LucideIcon;
+  bgColor: string;
+  borderColor: string;
+  iconColor: string;
+}
 
 // Badge component with animation
 const AchievementBadge: React.FC<{
@@ -121,190 +127,88 @@ const Lock = ({ className }: { className?: string }) => {
   );
 };
 
+// How each achievement looks; the catalog itself lives on the server
+const achievementStyles: Record<string, AchievementStyle> = {
+  "first-steps": { icon: Flame, bgColor: "bg-amber-600", borderColor: "border-amber-800", iconColor: "text-amber-300" },
+  "consistency-master": { icon: Flame, bgColor: "bg-amber-600", borderColor: "border-amber-800", iconColor: "text-amber-300" },
+  "dedicated-tracker": { icon: Flame, bgColor: "bg-amber-600", borderColor: "border-amber-800", iconColor: "text-amber-300" },
+  "hundred-day-streak": { icon: Flame, bgColor: "bg-green-600", borderColor: "border-green-800", iconColor: "text-green-300" },
+  "goal-setter": { icon: Target, bgColor: "bg-blue-600", borderColor: "border-blue-800", iconColor: "text-blue-300" },
+  "progress-tracker": { icon: Target, bgColor: "bg-blue-600", borderColor: "border-blue-800", iconColor: "text-blue-300" },
+  "goal-completer": { icon: Target, bgColor: "bg-blue-600", borderColor: "border-blue-800", iconColor: "text-blue-300" },
+  "fitness-enthusiast": { icon: Dumbbell, bgColor: "bg-green-600", borderColor: "border-green-800", iconColor: "text-green-300" },
+  "scholar": { icon: GraduationCap, bgColor: "bg-purple-600", borderColor: "border-purple-800", iconColor: "text-purple-300" },
+  "career-climber": { icon: Briefcase, bgColor: "bg-red-600", borderColor: "border-red-800", iconColor: "text-red-300" },
+  "overachiever": { icon: Zap, bgColor: "bg-cyan-600", borderColor: "border-cyan-800", iconColor: "text-cyan-300" },
+  "fast-achiever": { icon: ThumbsUp, bgColor: "bg-blue-600", borderColor: "border-blue-800", iconColor: "text-blue-300" },
+  "perfect-planner": { icon: CalendarClock, bgColor: "bg-pink-600", borderColor: "border-pink-800", iconColor: "text-pink-300" },
+  "goal-master": { icon: Trophy, bgColor: "bg-yellow-600", borderColor: "border-yellow-800", iconColor: "text-yellow-300" },
+};
+
+const defaultStyle: AchievementStyle = { icon: Award, bgColor: "bg-gray-600", borderColor: "border-gray-800", iconColor: "text-gray-300" };
+
+const categoryNames: Record<AchievementCategory, string> = {
+  streaks: "Streaks & Consistency",
+  milestones: "Goal Milestones",
+  categories: "Category Specific",
+  special: "Special Achievements",
+};
+
 const Achievements: React.FC = () => {
   const [activeTab, setActiveTab] = useState<string>("all");
   
-  // Fetch badges
-  const { data: badges, isLoading } = useQuery<BadgeType[]>({
-    queryKey: ['/api/badges'],
+  const { data: achievements, isLoading } = useQuery<AchievementStatus[]>({
+    queryKey: ['/api/achievements'],
   });
   
-  // Hardcoded achievements for display
-  const achievementCategories = [
-    {
-      id: "streaks",
-      name: "Streaks & Consistency",
-      achievements: [
-        {
-          id: 1,
-          title: "First Steps",
-          description: "Log progress for 3 days in a row",
-          icon: <Flame className="w-8 h-8" />,
-          bgColor: "bg-amber-600",
-          borderColor: "border-amber-800",
-          iconColor: "text-amber-300",
-          date: "Mar 3, 2023",
-          isLocked: false,
-          progress: 100
-        },
-        {
-          id: 2,
-          title: "Consistency Master",
-          description: "Log progress for 7 days in a row",
-          icon: <Flame className="w-8 h-8" />,
-          bgColor: "bg-amber-600",
-          borderColor: "border-amber-800",
-          iconColor: "text-amber-300",
-          date: "Mar 7, 2023",
-          isLocked: false,
-          progress: 100
-        },
-        {
-          id: 3,
-          title: "Dedicated Tracker",
-          description: "Log progress for 30 days in a row",
-          icon: <Flame className="w-8 h-8" />,
-          bgColor: "bg-amber-600",
-          borderColor: "border-amber-800",
-          iconColor: "text-amber-300",
-          isLocked: true,
-          progress: 67
-        }
-      ]
-    },
-    {
-      id: "milestones",
-      name: "Goal Milestones",
-      achievements: [
-        {
-          id: 4,
-          title: "Goal Setter",
-          description: "Create your first goal",
-          icon: <Target className="w-8 h-8" />,
-          bgColor: "bg-blue-600",
-          borderColor: "border-blue-800",
-          iconColor: "text-blue-300",
-          date: "Feb 28, 2023",
-          isLocked: false,
-          progress: 100
-        },
-        {
-          id: 5,
-          title: "Progress Tracker",
-          description: "Log progress 10 times",
-          icon: <Target className="w-8 h-8" />,
-          bgColor: "bg-blue-600",
-          borderColor: "border-blue-800",
-          iconColor: "text-blue-300",
-          date: "Mar 5, 2023",
-          isLocked: false,
-          progress: 100
-        },
-        {
-          id: 6,
-          title: "Goal Completer",
-          description: "Complete 5 goals",
-          icon: <Target className="w-8 h-8" />,
-          bgColor: "bg-blue-600",
-          borderColor: "border-blue-800",
-          iconColor: "text-blue-300",
-          isLocked: true,
-          progress: 40
-        }
-      ]
-    },
-    {
-      id: "categories",
-      name: "Category Specific",
-      achievements: [
-        {
-          id: 7,
-          title: "Fitness Enthusiast",
-          description: "Complete 3 fitness goals",
-          icon: <Dumbbell className="w-8 h-8" />,
-          bgColor: "bg-green-600",
-          borderColor: "border-green-800",
-          iconColor: "text-green-300",
-          isLocked: true,
-          progress: 33
-        },
-        {
-          id: 8,
-          title: "Scholar",
-          description: "Complete 3 education goals",
-          icon: <GraduationCap className="w-8 h-8" />,
-          bgColor: "bg-purple-600",
-          borderColor: "border-purple-800",
-          iconColor: "text-purple-300",
-          isLocked: true,
-          progress: 66
-        },
-        {
-          id: 9,
-          title: "Career Climber",
-          description: "Complete 3 career goals",
-          icon: <Briefcase className="w-8 h-8" />,
-          bgColor: "bg-red-600",
-          borderColor: "border-red-800",
-          iconColor: "text-red-300",
-          date: "Mar 1, 2023",
-          isLocked: false,
-          progress: 100
-        }
-      ]
-    },
-    {
-      id: "special",
-      name: "Special Achievements",
-      achievements: [
-        {
-          id: 10,
-          title: "Overachiever",
-          description: "Complete a goal before the deadline",
-          icon: <Zap className="w-8 h-8" />,
-          bgColor: "bg-cyan-600",
-          borderColor: "border-cyan-800",
-          iconColor: "text-cyan-300",
-          date: "Mar 8, 2023",
-          isLocked: false,
-          progress: 100
-        },
-        {
-          id: 11,
-          title: "Perfect Planner",
-          description: "Create goals in all categories",
-          icon: <CalendarClock className="w-8 h-8" />,
-          bgColor: "bg-pink-600",
-          borderColor: "border-pink-800", 
-          iconColor: "text-pink-300",
-          isLocked: true,
-          progress: 80
-        },
-        {
-          id: 12,
-          title: "Goal Master",
-          description: "Complete 50 goals total",
-          icon: <Trophy className="w-8 h-8" />,
-          bgColor: "bg-yellow-600",
-          borderColor: "border-yellow-800",
-          iconColor: "text-yellow-300",
-          isLocked: true,
-          progress: 4
-        }
-      ]
-    }
-  ];
+  const achievementGroups = achievementCategories.map(id => ({
+    id,
+    name: categoryNames[id],
+    achievements: (achievements ?? []).filter(achievement => achievement.category === id),
+  }));
   
   // Filter achievements based on active tab
   const filteredCategories = activeTab === "all" 
-    ? achievementCategories 
-    : achievementCategories.filter(cat => cat.id === activeTab);
+    ? achievementGroups 
+    : achievementGroups.filter(cat => cat.id === activeTab);
   
   // Calculate stats
-  const totalAchievements = achievementCategories.reduce((acc, cat) => acc + cat.achievements.length, 0);
-  const unlockedAchievements = achievementCategories.reduce((acc, cat) => 
-    acc + cat.achievements.filter(a => !a.isLocked).length, 0);
-  const unlockedPercentage = (unlockedAchievements / totalAchievements) * 100;
+  const totalAchievements = achievements?.length ?? 0;
+  const unlockedAchievements = achievements?.filter(a => a.unlocked).length ?? 0;
+  const unlockedPercentage = totalAchievements > 0 ? (unlockedAchievements / totalAchievements) * 100 : 0;
+  
+  // The most recently unlocked achievements
+  const showcase = (achievements ?? [])
+    .filter(a => a.unlockedAt !== null)
+    .sort((a, b) => new Date(b.unlockedAt!).getTime() - new Date(a.unlockedAt!).getTime())
+    .slice(0, 3);
+  
+  const renderBadge = (achievement: AchievementStatus) => {
+    const style = achievementStyles[achievement.id] ?? defaultStyle;
+    const Icon = style.icon;
+    return (
+      <AchievementBadge
+        key={achievement.id}
+        title={achievement.title}
+        description={achievement.description}
+        icon={<Icon className="w-8 h-8" />}
+        bgColor={style.bgColor}
+        borderColor={style.borderColor}
+        iconColor={style.iconColor}
+        date={achievement.unlockedAt ? format(new Date(achievement.unlockedAt), "MMM d, yyyy") : undefined}
+        isLocked={!achievement.unlocked}
+        progress={achievement.progress}
+      />
+    );
+  };
+  
+  const renderSkeletons = () => (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
+      {[...Array(3)].map((_, index) => (
+        <Skeleton key={index} className="h-64 w-full bg-gray-800" />
+      ))}
+    </div>
+  );
   
   return (
     <div>
@@ -359,100 +263,54 @@ const Achievements: React.FC = () => {
           <h3 className="text-lg font-semibold text-gray-100">SHOWCASE</h3>
         </div>
         
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
-          <Card className="card border border-yellow-900 border-opacity-30 relative overflow-hidden">
-            <div className="absolute top-0 left-0 w-full h-full bg-gradient-to-b from-yellow-600 to-amber-900 opacity-10 pointer-events-none"></div>
-            <CardContent className="p-6">
-              <div className="flex flex-col items-center text-center">
-                <div className="relative mb-4">
-                  <div className="w-24 h-24 rounded-full bg-yellow-900 bg-opacity-30 flex items-center justify-center border border-yellow-800">
-                    <Trophy className="w-12 h-12 text-yellow-300" />
-                  </div>
-                  <div className="absolute -bottom-2 -right-2 w-8 h-8 rounded-full bg-yellow-600 flex items-center justify-center border-2 border-gray-900">
-                    <Star className="w-5 h-5 text-yellow-100" fill="currentColor" />
-                  </div>
-                </div>
-                
-                <h3 className="text-xl font-bold text-yellow-100 mb-2">Goal Master</h3>
-                <p className="text-sm text-gray-400 mb-4">Highest achievement unlocked by completing 50 goals</p>
-                
-                <Badge className="bg-yellow-900 border-yellow-800 text-yellow-100 mb-2">
-                  Top 5% of users
-                </Badge>
-                
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  className="border-yellow-800 text-yellow-100 hover:bg-yellow-900 hover:bg-opacity-30"
-                >
-                  <Share2 className="h-4 w-4 mr-2" /> Share Achievement
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card className="card border border-green-900 border-opacity-30 relative overflow-hidden">
-            <div className="absolute top-0 left-0 w-full h-full bg-gradient-to-b from-green-600 to-emerald-900 opacity-10 pointer-events-none"></div>
-            <CardContent className="p-6">
-              <div className="flex flex-col items-center text-center">
-                <div className="relative mb-4">
-                  <div className="w-24 h-24 rounded-full bg-green-900 bg-opacity-30 flex items-center justify-center border border-green-800">
-                    <Flame className="w-12 h-12 text-green-300" />
-                  </div>
-                  <div className="absolute -bottom-2 -right-2 w-8 h-8 rounded-full bg-green-600 flex items-center justify-center border-2 border-gray-900">
-                    <Medal className="w-5 h-5 text-green-100" />
-                  </div>
-                </div>
-                
-                <h3 className="text-xl font-bold text-green-100 mb-2">100-Day Streak</h3>
-                <p className="text-sm text-gray-400 mb-4">Logged progress for 100 consecutive days</p>
-                
-                <Badge className="bg-green-900 border-green-800 text-green-100 mb-2">
-                  Top 10% of users
-                </Badge>
-                
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  className="border-green-800 text-green-100 hover:bg-green-900 hover:bg-opacity-30"
-                >
-                  <Share2 className="h-4 w-4 mr-2" /> Share Achievement
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card className="card border border-blue-900 border-opacity-30 relative overflow-hidden">
-            <div className="absolute top-0 left-0 w-full h-full bg-gradient-to-b from-blue-600 to-indigo-900 opacity-10 pointer-events-none"></div>
-            <CardContent className="p-6">
-              <div className="flex flex-col items-center text-center">
-                <div className="relative mb-4">
-                  <div className="w-24 h-24 rounded-full bg-blue-900 bg-opacity-30 flex items-center justify-center border border-blue-800">
-                    <Target className="w-12 h-12 text-blue-300" />
-                  </div>
-                  <div className="absolute -bottom-2 -right-2 w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center border-2 border-gray-900">
-                    <ThumbsUp className="w-5 h-5 text-blue-100" />
-                  </div>
-                </div>
-                
-                <h3 className="text-xl font-bold text-blue-100 mb-2">Fast Achiever</h3>
-                <p className="text-sm text-gray-400 mb-4">Completed 5 goals ahead of schedule</p>
-                
-                <Badge className="bg-blue-900 border-blue-800 text-blue-100 mb-2">
-                  Recently earned
-                </Badge>
-                
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  className="border-blue-800 text-blue-100 hover:bg-blue-900 hover:bg-opacity-30"
-                >
-                  <Share2 className="h-4 w-4 mr-2" /> Share Achievement
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+        {isLoading ? (
+          renderSkeletons()
+        ) : showcase.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+            {showcase.map(achievement => {
+              const style = achievementStyles[achievement.id] ?? defaultStyle;
+              const Icon = style.icon;
+              return (
+                <Card key={achievement.id} className={`card border ${style.borderColor} border-opacity-30 relative overflow-hidden`}>
+                  <div className={`absolute top-0 left-0 w-full h-full ${style.bgColor} opacity-10 pointer-events-none`}></div>
+                  <CardContent className="p-6">
+                    <div className="flex flex-col items-center text-center">
+                      <div className="relative mb-4">
+                        <div className={`w-24 h-24 rounded-full ${style.bgColor} bg-opacity-30 flex items-center justify-center border ${style.borderColor}`}>
+                          <Icon className={`w-12 h-12 ${style.iconColor}`} />
+                        </div>
+                        <div className={`absolute -bottom-2 -right-2 w-8 h-8 rounded-full ${style.bgColor} flex items-center justify-center border-2 border-gray-900`}>
+                          <Star className="w-5 h-5 text-gray-100" fill="currentColor" />
+                        </div>
+                      </div>
+                      
+                      <h3 className="text-xl font-bold text-gray-100 mb-2">{achievement.title}</h3>
+                      <p className="text-sm text-gray-400 mb-4">{achievement.description}</p>
+                      
+                      <Badge className={`${style.bgColor} ${style.borderColor} text-gray-100 mb-2`}>
+                        {format(new Date(achievement.unlockedAt!), "MMM d, yyyy")}
+                      </Badge>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Unlocked achievements will show up here. Create a goal and start logging progress to earn your first one.
+          </p>
+        )}
+      </div>
+      
+      {/* Points Section */}
+      <div className="mb-8">
+        <div className="flex items-center mb-4">
+          <div className="w-1 h-6 bg-amber-600 rounded-full mr-3"></div>
+          <h3 className="text-lg font-semibold text-gray-100">POINTS</h3>
         </div>
+        
+        <PointsHistory />
       </div>
       
       {/* Achievements Tabs */}
@@ -502,7 +360,7 @@ const Achievements: React.FC = () => {
         </div>
         
         <TabsContent value="all" className="pt-2 space-y-8">
-          {filteredCategories.map(category => (
+          {isLoading ? renderSkeletons() : filteredCategories.map(category => (
             <div key={category.id}>
               <div className="flex items-center mb-4">
                 <h3 className="text-md font-semibold text-gray-300">{category.name}</h3>
@@ -510,43 +368,19 @@ const Achievements: React.FC = () => {
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5 mb-6">
-                {category.achievements.map(achievement => (
-                  <AchievementBadge
-                    key={achievement.id}
-                    title={achievement.title}
-                    description={achievement.description}
-                    icon={achievement.icon}
-                    bgColor={achievement.bgColor}
-                    borderColor={achievement.borderColor}
-                    iconColor={achievement.iconColor}
-                    date={achievement.date}
-                    isLocked={achievement.isLocked}
-                    progress={achievement.progress}
-                  />
-                ))}
+                {category.achievements.map(renderBadge)}
               </div>
             </div>
           ))}
         </TabsContent>
         
-        {achievementCategories.map(category => (
+        {achievementGroups.map(category => (
           <TabsContent key={category.id} value={category.id} className="pt-2">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
-              {category.achievements.map(achievement => (
-                <AchievementBadge
-                  key={achievement.id}
-                  title={achievement.title}
-                  description={achievement.description}
-                  icon={achievement.icon}
-                  bgColor={achievement.bgColor}
-                  borderColor={achievement.borderColor}
-                  iconColor={achievement.iconColor}
-                  date={achievement.date}
-                  isLocked={achievement.isLocked}
-                  progress={achievement.progress}
-                />
-              ))}
-            </div>
+            {isLoading ? renderSkeletons() : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
+                {category.achievements.map(renderBadge)}
+              </div>
+            )}
           </TabsContent>
         ))}
       </Tabs>
@@ -559,31 +393,34 @@ const Achievements: React.FC = () => {
         </div>
         
         <div className="space-y-4">
-          {achievementCategories
-            .flatMap(cat => cat.achievements)
-            .filter(ach => ach.isLocked && ach.progress > 0)
+          {(achievements ?? [])
+            .filter(ach => !ach.unlocked && ach.progress > 0)
             .sort((a, b) => b.progress - a.progress)
             .slice(0, 3)
-            .map(achievement => (
-              <Card key={achievement.id} className="card border border-gray-800 bg-black bg-opacity-60">
-                <CardContent className="p-5">
-                  <div className="flex items-center">
-                    <div className={`w-12 h-12 rounded-full ${achievement.bgColor} bg-opacity-20 flex items-center justify-center mr-4 border ${achievement.borderColor}`}>
-                      <div className={achievement.iconColor}>{achievement.icon}</div>
-                    </div>
-                    
-                    <div className="flex-grow">
-                      <div className="flex justify-between items-start mb-1">
-                        <h4 className="text-md font-medium text-gray-100">{achievement.title}</h4>
-                        <span className="text-sm text-gray-400">{achievement.progress}%</span>
+            .map(achievement => {
+              const style = achievementStyles[achievement.id] ?? defaultStyle;
+              const Icon = style.icon;
+              return (
+                <Card key={achievement.id} className="card border border-gray-800 bg-black bg-opacity-60">
+                  <CardContent className="p-5">
+                    <div className="flex items-center">
+                      <div className={`w-12 h-12 rounded-full ${style.bgColor} bg-opacity-20 flex items-center justify-center mr-4 border ${style.borderColor}`}>
+                        <Icon className={`w-8 h-8 ${style.iconColor}`} />
+                      </div>
+                      
+                      <div className="flex-grow">
+                        <div className="flex justify-between items-start mb-1">
+                          <h4 className="text-md font-medium text-gray-100">{achievement.title}</h4>
+                          <span className="text-sm text-gray-400">{achievement.current} / {achievement.target}</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mb-2">{achievement.description}</p>
+                        <Progress value={achievement.progress} className="h-2 bg-gray-800" indicatorClassName={style.bgColor} />
                       </div>
-                      <p className="text-xs text-gray-500 mb-2">{achievement.description}</p>
-                      <Progress value={achievement.progress} className="h-2 bg-gray-800" indicatorClassName={achievement.bgColor} />
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
         </div>
       </div>
     </div>
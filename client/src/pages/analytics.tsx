@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
 import { 
   BarChart2, 
   PieChart, 
@@ -20,7 +21,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import type { GoalWithCategory, ProgressLog } from "@shared/schema";
+import type { AnalyticsTimeFrame, GoalWithCategory, ProgressLog } from "@shared/schema";
+import type { UserStreaks } from "@shared/streaks";
+import { timesOfDay, type Analytics as AnalyticsData } from "@shared/analytics";
+import { apiRequest } from "@/lib/queryClient";
 import {
   BarChart,
   Bar,
@@ -37,50 +41,91 @@ import {
   Pie
 } from "recharts";
 
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Chart labels for a bucket's first day
+const bucketFormats: Record<AnalyticsTimeFrame, string> = {
+  week: "EEE",
+  month: "MMM d",
+  quarter: "MMM d",
+  year: "MMM",
+  all: "MMM yyyy",
+};
+
+// "6pm" for 18
+const formatHour = (hour: number) => format(new Date(2000, 0, 1, hour % 24), "ha").toLowerCase();
+
+const consistencyMessage = (score: number) => {
+  if (score >= 7) return "You're maintaining steady progress";
+  if (score >= 4) return "Try logging progress a few more days a week";
+  return "Log progress more often to build momentum";
+};
+
 const Analytics: React.FC = () => {
-  const [timeFrame, setTimeFrame] = useState<string>("week");
+  const [timeFrame, setTimeFrame] = useState<AnalyticsTimeFrame>("week");
+  // "all" or a goal id
+  const [goalFilter, setGoalFilter] = useState<string>("all");
   const [activeTab, setActiveTab] = useState<string>("progress");
   
   // Fetch goals
-  const { data: goals, isLoading: isGoalsLoading } = useQuery<GoalWithCategory[]>({
+  const { data: goals } = useQuery<GoalWithCategory[]>({
     queryKey: ['/api/goals'],
   });
   
-  // Sample data for charts (would be derived from real data in production)
-  const progressData = [
-    { day: 'Mon', value: 7 },
-    { day: 'Tue', value: 5 },
-    { day: 'Wed', value: 12 },
-    { day: 'Thu', value: 8 },
-    { day: 'Fri', value: 10 },
-    { day: 'Sat', value: 6 },
-    { day: 'Sun', value: 9 },
-  ];
+  const { data: streaks, isLoading: isStreaksLoading } = useQuery<UserStreaks>({
+    queryKey: ['/api/stats/streaks'],
+  });
+  
+  const { data: analytics, isLoading: isAnalyticsLoading } = useQuery<AnalyticsData>({
+    queryKey: ['/api/analytics', timeFrame, goalFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ timeFrame });
+      if (goalFilter !== "all") params.set('goalId', goalFilter);
+      const res = await apiRequest('GET', `/api/analytics?${params}`);
+      return res.json();
+    },
+  });
+  
+  const bucketLabel = (start: string) => format(parseISO(start), bucketFormats[analytics?.timeFrame ?? timeFrame]);
+  
+  const progressData = analytics?.progress.map(bucket => ({
+    day: bucketLabel(bucket.start),
+    value: bucket.logs,
+    reflections: bucket.reflections,
+  })) ?? [];
+  
+  const categoryData = analytics?.categories.map(category => ({
+    name: category.name,
+    value: category.goals,
+    color: category.color,
+  })) ?? [];
+  
+  const categoryPerformance = analytics?.categories.map(category => {
+    const completed = Math.round((category.completed / category.goals) * 100);
+    return { name: category.name, completed, inProgress: 100 - completed };
+  }) ?? [];
   
-  const categoryData = [
-    { name: 'Fitness', value: 35 },
-    { name: 'Education', value: 25 },
-    { name: 'Career', value: 15 },
-    { name: 'Finance', value: 15 },
-    { name: 'Personal', value: 10 },
-  ];
+  const completionData = analytics?.completions.map(bucket => ({
+    month: bucketLabel(bucket.start),
+    completed: bucket.completed,
+    active: bucket.active,
+  })) ?? [];
   
-  const completionData = [
-    { month: 'Jan', completed: 2, active: 5 },
-    { month: 'Feb', completed: 3, active: 6 },
-    { month: 'Mar', completed: 4, active: 4 },
-    { month: 'Apr', completed: 5, active: 3 },
-    { month: 'May', completed: 2, active: 7 },
-    { month: 'Jun', completed: 6, active: 4 },
-  ];
+  const timeOfDayData = timesOfDay.map(time => ({
+    hour: time.charAt(0).toUpperCase() + time.slice(1),
+    activity: analytics?.byTimeOfDay[time] ?? 0,
+  }));
   
-  const COLORS = ['#3b82f6', '#10b981', '#8b5cf6', '#f59e0b', '#ef4444'];
+  const weekdayData = WEEKDAYS.map((day, index) => ({ day, activity: analytics?.byWeekday[index] ?? 0 }));
   
-  // Calculate some basic stats (would use real data in production)
-  const activeGoals = goals?.filter(goal => !goal.completed).length || 0;
+  const heatmapMax = Math.max(1, ...(analytics?.heatmap.map(day => day.logs) ?? []));
+  const insights = analytics?.insights;
+  
+  // Calculate some basic stats
+  const activeGoals = goals?.filter(goal => !goal.completed && !goal.archived).length || 0;
   const completedGoals = goals?.filter(goal => goal.completed).length || 0;
-  const topCategory = "Fitness"; // In production, calculate this from real data
-  const streak = 5; // In production, calculate this from real data
+  const topCategory = analytics?.categories[0]?.name ?? "None";
   
   return (
     <div>
@@ -94,7 +139,7 @@ const Analytics: React.FC = () => {
             <p className="text-gray-300 mb-6">Visualize your progress and identify patterns</p>
             
             <div className="flex flex-col sm:flex-row gap-3">
-              <Select value={timeFrame} onValueChange={setTimeFrame}>
+              <Select value={timeFrame} onValueChange={(value) => setTimeFrame(value as AnalyticsTimeFrame)}>
                 <SelectTrigger className="w-[180px] bg-gray-900 bg-opacity-50 border-gray-800 text-gray-200">
                   <SelectValue placeholder="Select timeframe" />
                 </SelectTrigger>
@@ -107,6 +152,18 @@ const Analytics: React.FC = () => {
                 </SelectContent>
               </Select>
               
+              <Select value={goalFilter} onValueChange={setGoalFilter}>
+                <SelectTrigger className="w-[220px] bg-gray-900 bg-opacity-50 border-gray-800 text-gray-200">
+                  <SelectValue placeholder="Select goal" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-800 text-gray-200">
+                  <SelectItem value="all">All Goals</SelectItem>
+                  {goals?.map(goal => (
+                    <SelectItem key={goal.id} value={goal.id.toString()}>{goal.description}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              
               <Button 
                 variant="outline" 
                 className="border border-purple-700 text-purple-100 bg-transparent hover:bg-purple-900 hover:bg-opacity-30 flex items-center"
@@ -180,9 +237,20 @@ const Analytics: React.FC = () => {
             <div>
               <h3 className="text-amber-100 text-sm font-medium mb-1">CURRENT STREAK</h3>
               <div className="flex items-baseline">
-                <span className="text-3xl font-bold text-white mr-2">{streak}</span>
+                {isStreaksLoading ? (
+                  <Skeleton className="h-9 w-12 bg-gray-800 mr-2" />
+                ) : (
+                  <span className="text-3xl font-bold text-white mr-2">{streaks?.current ?? 0}</span>
+                )}
                 <span className="text-xs text-amber-300 uppercase font-mono">Days</span>
               </div>
+              {streaks && (
+                <p className="text-xs text-gray-400 mt-1">
+                  Best {streaks.longest}
+                  {streaks.freezesAvailable > 0 && ` · ${streaks.freezesAvailable} freeze${streaks.freezesAvailable === 1 ? "" : "s"}`}
+                  {streaks.current > 0 && !streaks.activeToday && " · log today to keep it"}
+                </p>
+              )}
             </div>
             <div className="w-12 h-12 rounded-md bg-amber-900 bg-opacity-40 flex items-center justify-center border border-amber-800 shadow-inner">
               <Zap className="h-6 w-6 text-amber-300" />
@@ -230,11 +298,11 @@ const Analytics: React.FC = () => {
             <Card className="card border border-blue-900 border-opacity-30 lg:col-span-2">
               <CardHeader className="pb-2">
                 <CardTitle className="text-lg font-semibold text-gray-100">Goal Progress Trends</CardTitle>
-                <CardDescription className="text-gray-400">Your progress over time</CardDescription>
+                <CardDescription className="text-gray-400">Progress entries logged and reflections written over time</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="h-[350px] w-full">
-                  {isGoalsLoading ? (
+                  {isAnalyticsLoading ? (
                     <div className="h-full w-full flex items-center justify-center">
                       <Skeleton className="h-[300px] w-full" />
                     </div>
@@ -249,6 +317,10 @@ const Analytics: React.FC = () => {
                             <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.8}/>
                             <stop offset="95%" stopColor="#3b82f6" stopOpacity={0.1}/>
                           </linearGradient>
+                          <linearGradient id="colorReflections" x1="0" y1="0" x2="0" y2="1">
+                            <stop offset="5%" stopColor="#10b981" stopOpacity={0.6}/>
+                            <stop offset="95%" stopColor="#10b981" stopOpacity={0.05}/>
+                          </linearGradient>
                         </defs>
                         <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
                         <XAxis dataKey="day" stroke="#94a3b8" />
@@ -265,10 +337,20 @@ const Analytics: React.FC = () => {
                         <Area 
                           type="monotone" 
                           dataKey="value" 
+                          name="Entries"
                           stroke="#3b82f6" 
                           fillOpacity={1} 
                           fill="url(#colorValue)" 
                         />
+                        <Area 
+                          type="monotone" 
+                          dataKey="reflections" 
+                          name="Reflections"
+                          stroke="#10b981" 
+                          fillOpacity={1} 
+                          fill="url(#colorReflections)" 
+                        />
+                        <Legend />
                       </AreaChart>
                     </ResponsiveContainer>
                   )}
@@ -290,7 +372,11 @@ const Analytics: React.FC = () => {
                       </div>
                       <div>
                         <h4 className="text-sm font-medium text-blue-100">Most Productive Day</h4>
-                        <p className="text-xs text-gray-400 mt-1">Wednesday shows the highest activity</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {insights?.mostProductiveWeekday != null
+                            ? `${WEEKDAY_NAMES[insights.mostProductiveWeekday]} shows the highest activity`
+                            : "Log some progress to find out"}
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -302,7 +388,11 @@ const Analytics: React.FC = () => {
                       </div>
                       <div>
                         <h4 className="text-sm font-medium text-blue-100">Top Activity Time</h4>
-                        <p className="text-xs text-gray-400 mt-1">Most progress logged between 6-8pm</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {insights?.topActivityHour != null
+                            ? `Most progress logged between ${formatHour(insights.topActivityHour)}-${formatHour(insights.topActivityHour + 2)}`
+                            : "Log some progress to find out"}
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -314,7 +404,11 @@ const Analytics: React.FC = () => {
                       </div>
                       <div>
                         <h4 className="text-sm font-medium text-blue-100">Consistency Score</h4>
-                        <p className="text-xs text-gray-400 mt-1">8.5/10 - You're maintaining steady progress</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {insights
+                            ? `${insights.consistencyScore}/10 - ${consistencyMessage(insights.consistencyScore)}`
+                            : "Calculating..."}
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -326,7 +420,11 @@ const Analytics: React.FC = () => {
                       </div>
                       <div>
                         <h4 className="text-sm font-medium text-blue-100">Areas for Improvement</h4>
-                        <p className="text-xs text-gray-400 mt-1">Weekend activity appears to drop significantly</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {insights?.leastProductiveWeekday != null
+                            ? `${WEEKDAY_NAMES[insights.leastProductiveWeekday]} has the least activity`
+                            : "Nothing to improve on yet"}
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -346,7 +444,7 @@ const Analytics: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <div className="h-[300px] w-full flex items-center justify-center">
-                  {isGoalsLoading ? (
+                  {isAnalyticsLoading ? (
                     <Skeleton className="h-[250px] w-full" />
                   ) : (
                     <ResponsiveContainer width="100%" height="100%">
@@ -362,7 +460,7 @@ const Analytics: React.FC = () => {
                           label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
                         >
                           {categoryData.map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                            <Cell key={`cell-${index}`} fill={entry.color} />
                           ))}
                         </Pie>
                         <Tooltip 
@@ -388,18 +486,12 @@ const Analytics: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <div className="h-[300px] w-full">
-                  {isGoalsLoading ? (
+                  {isAnalyticsLoading ? (
                     <Skeleton className="h-[250px] w-full" />
                   ) : (
                     <ResponsiveContainer width="100%" height="100%">
                       <BarChart
-                        data={[
-                          {name: 'Fitness', completed: 75, inProgress: 25},
-                          {name: 'Education', completed: 60, inProgress: 40},
-                          {name: 'Career', completed: 40, inProgress: 60},
-                          {name: 'Finance', completed: 80, inProgress: 20},
-                          {name: 'Personal', completed: 50, inProgress: 50},
-                        ]}
+                        data={categoryPerformance}
                         margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
                       >
                         <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
@@ -436,7 +528,7 @@ const Analytics: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <div className="h-[350px] w-full">
-                  {isGoalsLoading ? (
+                  {isAnalyticsLoading ? (
                     <Skeleton className="h-[300px] w-full" />
                   ) : (
                     <ResponsiveContainer width="100%" height="100%">
@@ -485,7 +577,11 @@ const Analytics: React.FC = () => {
                       </div>
                       <div>
                         <h4 className="text-sm font-medium text-green-100">Completion Rate</h4>
-                        <p className="text-xs text-gray-400 mt-1">68% of goals completed on time</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {insights?.onTimeRate != null
+                            ? `${insights.onTimeRate}% of goals completed on time`
+                            : "No goals completed in this period"}
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -497,7 +593,11 @@ const Analytics: React.FC = () => {
                       </div>
                       <div>
                         <h4 className="text-sm font-medium text-green-100">Avg. Time to Complete</h4>
-                        <p className="text-xs text-gray-400 mt-1">24 days on average per goal</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {insights?.averageDaysToComplete != null
+                            ? `${insights.averageDaysToComplete} days on average per goal`
+                            : "No goals completed in this period"}
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -509,7 +609,11 @@ const Analytics: React.FC = () => {
                       </div>
                       <div>
                         <h4 className="text-sm font-medium text-green-100">Most Completed Category</h4>
-                        <p className="text-xs text-gray-400 mt-1">Finance goals have highest completion</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {insights?.mostCompletedCategory
+                            ? `${insights.mostCompletedCategory} goals have highest completion`
+                            : "No goals completed in this period"}
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -521,7 +625,11 @@ const Analytics: React.FC = () => {
                       </div>
                       <div>
                         <h4 className="text-sm font-medium text-green-100">Improvement Trend</h4>
-                        <p className="text-xs text-gray-400 mt-1">15% increase in completion rate this month</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {insights?.completionTrend != null
+                            ? `${Math.abs(insights.completionTrend)}% ${insights.completionTrend >= 0 ? "increase" : "decrease"} in completions from the period before`
+                            : "Not enough history to compare"}
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -540,9 +648,9 @@ const Analytics: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-7 gap-2 mt-4">
-                {Array.from({ length: 28 }).map((_, i) => {
-                  // Generate random activity levels for demo
-                  const activityLevel = Math.floor(Math.random() * 4); // 0-3
+                {(analytics?.heatmap ?? []).map((day, i) => {
+                  // 0-3, relative to the busiest day
+                  const activityLevel = Math.ceil((day.logs / heatmapMax) * 3);
                   let bgColorClass = '';
                   
                   if (activityLevel === 0) bgColorClass = 'bg-gray-800';
@@ -550,19 +658,17 @@ const Analytics: React.FC = () => {
                   else if (activityLevel === 2) bgColorClass = 'bg-amber-700';
                   else bgColorClass = 'bg-amber-500';
                   
-                  // Get day name (Sun, Mon, etc.)
-                  const dayIndex = i % 7;
-                  const days = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+                  const date = parseISO(day.date);
                   const showDay = i < 7;
                   
                   return (
-                    <div key={i} className="flex flex-col items-center">
+                    <div key={day.date} className="flex flex-col items-center">
                       {showDay && (
-                        <div className="text-xs text-gray-500 mb-1">{days[dayIndex]}</div>
+                        <div className="text-xs text-gray-500 mb-1">{format(date, "EEEEE")}</div>
                       )}
                       <div 
                         className={`w-full h-8 rounded ${bgColorClass} hover:opacity-80 transition-opacity`}
-                        title={`Activity Level: ${activityLevel}`}
+                        title={`${format(date, "MMM d")}: ${day.logs} ${day.logs === 1 ? "entry" : "entries"}`}
                       />
                     </div>
                   );
@@ -590,12 +696,7 @@ const Analytics: React.FC = () => {
                 <div className="h-[250px] w-full">
                   <ResponsiveContainer width="100%" height="100%">
                     <BarChart
-                      data={[
-                        {hour: 'Morning', activity: 30},
-                        {hour: 'Afternoon', activity: 20},
-                        {hour: 'Evening', activity: 40},
-                        {hour: 'Night', activity: 10},
-                      ]}
+                      data={timeOfDayData}
                       margin={{top: 20, right: 30, left: 20, bottom: 5}}
                     >
                       <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
@@ -610,7 +711,7 @@ const Analytics: React.FC = () => {
                         itemStyle={{ color: '#e2e8f0' }}
                         labelStyle={{ color: '#e2e8f0' }}
                       />
-                      <Bar dataKey="activity" name="Activity %" fill="#f59e0b" />
+                      <Bar dataKey="activity" name="Entries" fill="#f59e0b" />
                     </BarChart>
                   </ResponsiveContainer>
                 </div>
@@ -626,15 +727,7 @@ const Analytics: React.FC = () => {
                 <div className="h-[250px] w-full">
                   <ResponsiveContainer width="100%" height="100%">
                     <BarChart
-                      data={[
-                        {day: 'Sun', activity: 15},
-                        {day: 'Mon', activity: 25},
-                        {day: 'Tue', activity: 30},
-                        {day: 'Wed', activity: 45},
-                        {day: 'Thu', activity: 35},
-                        {day: 'Fri', activity: 20},
-                        {day: 'Sat', activity: 10},
-                      ]}
+                      data={weekdayData}
                       margin={{top: 20, right: 30, left: 20, bottom: 5}}
                     >
                       <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
@@ -649,7 +742,7 @@ const Analytics: React.FC = () => {
                         itemStyle={{ color: '#e2e8f0' }}
                         labelStyle={{ color: '#e2e8f0' }}
                       />
-                      <Bar dataKey="activity" name="Activity %" fill="#f59e0b" />
+                      <Bar dataKey="activity" name="Entries" fill="#f59e0b" />
                     </BarChart>
                   </ResponsiveContainer>
                 </div>
@@ -0,0 +1,171 @@
+import React from "react";
+import { Redirect } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { BrainCircuit, LogIn, UserPlus, Loader2 } from "lucide-react";
+import { loginSchema, registerSchema } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+type LoginValues = z.infer<typeof loginSchema>;
+type RegisterValues = z.infer<typeof registerSchema>;
+
+const AuthPage: React.FC = () => {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  const loginForm = useForm<LoginValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const registerForm = useForm<RegisterValues>({
+    resolver: zodResolver(registerSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  if (user) {
+    return <Redirect to="/dashboard" />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-950 px-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-6">
+          <div className="inline-block p-1.5 px-3 mb-4 rounded-full bg-blue-500/10 border border-blue-500/20 text-blue-400 text-xs font-medium tracking-wider uppercase">
+            <span className="flex items-center">
+              <BrainCircuit className="w-4 h-4 mr-1.5" />
+              <span>GOAL:SYNC</span>
+            </span>
+          </div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-200 to-gray-100 bg-clip-text text-transparent">
+            Target Acquisition System
+          </h1>
+          <p className="text-sm text-gray-400 mt-2">Sign in to keep your goals in sync</p>
+        </div>
+
+        <Card className="bg-gray-900 border-gray-800 shadow-xl">
+          <Tabs defaultValue="login">
+            <CardHeader className="pb-2">
+              <TabsList className="grid grid-cols-2 border border-gray-800 bg-gray-950 p-1">
+                <TabsTrigger
+                  value="login"
+                  className="data-[state=active]:bg-blue-900 data-[state=active]:text-gray-100 data-[state=active]:shadow-none"
+                >
+                  <LogIn className="h-4 w-4 mr-2" />
+                  Login
+                </TabsTrigger>
+                <TabsTrigger
+                  value="register"
+                  className="data-[state=active]:bg-blue-900 data-[state=active]:text-gray-100 data-[state=active]:shadow-none"
+                >
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Register
+                </TabsTrigger>
+              </TabsList>
+            </CardHeader>
+
+            <CardContent>
+              <TabsContent value="login">
+                <CardTitle className="text-lg text-gray-100 mb-1">Welcome back</CardTitle>
+                <CardDescription className="text-gray-400 mb-4">Log in with your username and password.</CardDescription>
+                <Form {...loginForm}>
+                  <form
+                    onSubmit={loginForm.handleSubmit((data) => loginMutation.mutate(data))}
+                    className="space-y-4"
+                  >
+                    <FormField
+                      control={loginForm.control}
+                      name="username"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-gray-300">Username</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="username" className="bg-gray-950 border-gray-800" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={loginForm.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-gray-300">Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" autoComplete="current-password" className="bg-gray-950 border-gray-800" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="submit" className="w-full btn-primary" disabled={loginMutation.isPending}>
+                      {loginMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Log In
+                    </Button>
+                  </form>
+                </Form>
+              </TabsContent>
+
+              <TabsContent value="register">
+                <CardTitle className="text-lg text-gray-100 mb-1">Create an account</CardTitle>
+                <CardDescription className="text-gray-400 mb-4">Start tracking your goals in seconds.</CardDescription>
+                <Form {...registerForm}>
+                  <form
+                    onSubmit={registerForm.handleSubmit((data) => registerMutation.mutate(data))}
+                    className="space-y-4"
+                  >
+                    <FormField
+                      control={registerForm.control}
+                      name="username"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-gray-300">Username</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="username" className="bg-gray-950 border-gray-800" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={registerForm.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-gray-300">Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" autoComplete="new-password" className="bg-gray-950 border-gray-800" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="submit" className="w-full btn-primary" disabled={registerMutation.isPending}>
+                      {registerMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Create Account
+                    </Button>
+                  </form>
+                </Form>
+              </TabsContent>
+            </CardContent>
+          </Tabs>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AuthPage;
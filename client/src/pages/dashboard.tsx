@@ -10,20 +10,32 @@ import {
   ListChecks, 
   Plus, 
   LineChart, 
-  BarChart2 
+  BarChart2,
+  TrendingDown,
+  Target
 } from "lucide-react";
 import { StatsCard } from "@/components/dashboard/stats-card";
 import { GoalCard } from "@/components/dashboard/goal-card";
+import { useGoalForecasts } from "@/components/dashboard/goal-forecast";
 import { ActionItemCard } from "@/components/dashboard/action-item";
+import { QuickAddAction } from "@/components/dashboard/quick-add-action";
 import { InsightCard, InsightsWidget } from "@/components/dashboard/insight-card";
 import { CreateGoalModal } from "@/components/modals/create-goal-modal";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { GoalWithCategory, DashboardStats, ActionItem } from "@shared/schema";
+import type { GoalWithCategory, DashboardStats, ActionItemWithGoal } from "@shared/schema";
+import { getProgressPercentage } from "@shared/goal-progress";
+import { buildGoalTree } from "@shared/goal-tree";
+import { getLevelProgress } from "@shared/points";
+import type { ForecastStatus } from "@shared/forecast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 const Dashboard: React.FC = () => {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isAddingAction, setIsAddingAction] = useState(false);
+  const { toast } = useToast();
   
   // Fetch dashboard stats
   const { data: stats, isLoading: isStatsLoading } = useQuery<DashboardStats>({
@@ -36,10 +48,42 @@ const Dashboard: React.FC = () => {
   });
   
   // Fetch action items
-  const { data: actionItems, isLoading: isActionItemsLoading } = useQuery<(ActionItem & { goalDescription: string })[]>({
+  const { data: actionItems, isLoading: isActionItemsLoading } = useQuery<ActionItemWithGoal[]>({
     queryKey: ['/api/action-items'],
   });
   
+  // Unfinished custom items from earlier days; empty when carry-over is off
+  const { data: overdueItems } = useQuery<ActionItemWithGoal[]>({
+    queryKey: ['/api/action-items/overdue'],
+  });
+  
+  // Shares its cache with the forecasts on each goal card
+  const { data: forecasts } = useGoalForecasts();
+  const openGoals = goals?.filter(goal => !goal.completed && !goal.archived) ?? [];
+  const goalsByForecast = (status: ForecastStatus) => openGoals.filter(goal =>
+    forecasts?.find(forecast => forecast.goalId === goal.id)?.status === status
+  );
+  const behindGoals = goalsByForecast("behind");
+  const atRiskGoals = goalsByForecast("at_risk");
+  const onTrackGoals = goalsByForecast("on_track");
+  
+  const handleMoveActionUp = async (index: number) => {
+    if (!actionItems || index === 0) return;
+    
+    const ids = actionItems.map(item => item.id);
+    [ids[index - 1], ids[index]] = [ids[index], ids[index - 1]];
+    try {
+      await apiRequest('PUT', '/api/action-items/order', { ids });
+      queryClient.invalidateQueries({ queryKey: ['/api/action-items'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to reorder the actions. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+  
   return (
     <div>
       {/* Enhanced Welcome Section */}
@@ -154,7 +198,7 @@ const Dashboard: React.FC = () => {
                 </div>
               </div>
               <div className="mt-4 h-1 w-full bg-gray-800 rounded-full overflow-hidden">
-                <div className="h-full bg-amber-600 rounded-full" style={{ width: `${stats?.pointsEarned ? Math.min(stats.pointsEarned / 2, 100) : 0}%` }}></div>
+                <div className="h-full bg-amber-600 rounded-full" style={{ width: `${getLevelProgress(stats?.pointsEarned ?? 0)}%` }}></div>
               </div>
             </div>
           </>
@@ -198,11 +242,11 @@ const Dashboard: React.FC = () => {
         ) : goals && goals.length > 0 ? (
           // Show only active goals (not completed), and limit to 3
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-5">
-            {goals
-              .filter(goal => !goal.completed)
+            {buildGoalTree(goals)
+              .filter(goal => !goal.completed && !goal.archived)
               .slice(0, 3)
               .map(goal => (
-                <GoalCard key={goal.id} goal={goal} />
+                <GoalCard key={goal.id} goal={goal} subGoals={goal.subGoals} />
               ))}
           </div>
         ) : (
@@ -265,39 +309,36 @@ const Dashboard: React.FC = () => {
           
           <Card className="border border-gray-800 bg-black bg-opacity-40 flex-grow">
             <CardContent className="p-5">
+              {overdueItems && overdueItems.length > 0 && (
+                <div className="mb-4 pb-4 border-b border-gray-800">
+                  <div className="flex items-center mb-3 text-amber-400">
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    <h4 className="text-sm font-semibold">OVERDUE</h4>
+                  </div>
+                  <ul className="space-y-3">
+                    {overdueItems.map(item => (
+                      <ActionItemCard
+                        key={item.id}
+                        item={item}
+                        icon={<ListChecks className="h-4 w-4" />}
+                        overdue
+                      />
+                    ))}
+                  </ul>
+                </div>
+              )}
+              
               {isActionItemsLoading ? (
                 <Skeleton className="h-32 w-full" />
               ) : actionItems && actionItems.length > 0 ? (
                 <ul className="space-y-3">
-                  {actionItems.map(item => (
-                    <li key={item.id} className="p-3 border border-gray-800 rounded-lg bg-gray-900 bg-opacity-50 hover:bg-opacity-70 transition-all group">
-                      <div className="flex items-start">
-                        <div className="mr-3 mt-0.5 w-8 h-8 rounded bg-green-900 bg-opacity-40 flex items-center justify-center border border-green-800 group-hover:bg-green-800 group-hover:bg-opacity-40 transition-all">
-                          <Trophy className="h-4 w-4 text-green-400" />
-                        </div>
-                        <div className="flex-grow">
-                          <div className="flex items-center justify-between">
-                            <p className="text-sm font-medium text-gray-100">{item.goalDescription}</p>
-                            <div className="flex items-center">
-                              {item.completed ? (
-                                <span className="text-xs bg-green-900 bg-opacity-30 text-green-300 px-2 py-0.5 rounded border border-green-800">
-                                  Completed
-                                </span>
-                              ) : (
-                                <Button 
-                                  size="sm" 
-                                  variant="outline" 
-                                  className="h-7 text-xs border-green-800 text-green-300 hover:bg-green-900 hover:bg-opacity-30"
-                                >
-                                  Complete
-                                </Button>
-                              )}
-                            </div>
-                          </div>
-                          <p className="text-xs text-gray-400 mt-1">{item.description}</p>
-                        </div>
-                      </div>
-                    </li>
+                  {actionItems.map((item, index) => (
+                    <ActionItemCard
+                      key={item.id}
+                      item={item}
+                      icon={item.custom ? <ListChecks className="h-4 w-4" /> : <Trophy className="h-4 w-4 text-green-400" />}
+                      onMoveUp={index > 0 ? () => handleMoveActionUp(index) : undefined}
+                    />
                   ))}
                 </ul>
               ) : (
@@ -307,20 +348,27 @@ const Dashboard: React.FC = () => {
                   </div>
                   <p className="text-gray-400 mb-1">No action items for today</p>
                   <p className="text-xs text-gray-500">
-                    Action items will appear when you set up goals with daily tasks.
+                    Action items will appear when you set up goals with daily tasks, or add your own below.
                   </p>
                 </div>
               )}
               
               {/* Action Items Footer */}
-              {actionItems && actionItems.length > 0 && (
-                <div className="mt-4 pt-4 border-t border-gray-800">
-                  <Button variant="ghost" size="sm" className="text-xs text-blue-400 hover:text-blue-300">
+              <div className="mt-4 pt-4 border-t border-gray-800">
+                {isAddingAction ? (
+                  <QuickAddAction goals={goals ?? []} onClose={() => setIsAddingAction(false)} />
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                    onClick={() => setIsAddingAction(true)}
+                  >
                     <Plus className="h-3 w-3 mr-1" />
                     Add Custom Action
                   </Button>
-                </div>
-              )}
+                )}
+              </div>
             </CardContent>
           </Card>
         </div>
@@ -336,7 +384,53 @@ const Dashboard: React.FC = () => {
             <CardContent className="p-5">
               {goals && goals.length > 0 ? (
                 <ul className="space-y-3">
-                  {goals.some(goal => goal.currentValue / goal.targetValue >= 0.7) && (
+                  {behindGoals.length > 0 && (
+                    <li className="p-3 border border-red-900 border-opacity-40 rounded-lg bg-red-900 bg-opacity-10 hover:bg-opacity-20 transition-all group">
+                      <div className="flex items-start">
+                        <div className="mr-3 mt-0.5 w-8 h-8 rounded bg-red-900 bg-opacity-40 flex items-center justify-center border border-red-800">
+                          <TrendingDown className="h-4 w-4 text-red-300" />
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium text-red-200">Falling Behind</p>
+                          <p className="text-xs text-red-400 mt-1">
+                            {behindGoals.map(goal => goal.description).join(", ")} {behindGoals.length === 1 ? "is" : "are"} behind schedule.
+                          </p>
+                        </div>
+                      </div>
+                    </li>
+                  )}
+                  
+                  {atRiskGoals.length > 0 && (
+                    <li className="p-3 border border-amber-900 border-opacity-40 rounded-lg bg-amber-900 bg-opacity-10 hover:bg-opacity-20 transition-all group">
+                      <div className="flex items-start">
+                        <div className="mr-3 mt-0.5 w-8 h-8 rounded bg-amber-900 bg-opacity-40 flex items-center justify-center border border-amber-800">
+                          <AlertTriangle className="h-4 w-4 text-amber-300" />
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium text-amber-200">Goals at Risk</p>
+                          <p className="text-xs text-amber-400 mt-1">
+                            At your recent pace, {atRiskGoals.map(goal => goal.description).join(", ")} won't be done by the deadline.
+                          </p>
+                        </div>
+                      </div>
+                    </li>
+                  )}
+                  
+                  {onTrackGoals.length > 0 && behindGoals.length === 0 && atRiskGoals.length === 0 && (
+                    <li className="p-3 border border-green-900 border-opacity-40 rounded-lg bg-green-900 bg-opacity-10 hover:bg-opacity-20 transition-all group">
+                      <div className="flex items-start">
+                        <div className="mr-3 mt-0.5 w-8 h-8 rounded bg-green-900 bg-opacity-40 flex items-center justify-center border border-green-800">
+                          <Target className="h-4 w-4 text-green-300" />
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium text-green-200">All On Track</p>
+                          <p className="text-xs text-green-400 mt-1">Every active goal is on pace to finish by its deadline.</p>
+                        </div>
+                      </div>
+                    </li>
+                  )}
+                  
+                  {goals.some(goal => getProgressPercentage(goal) >= 70) && (
                     <li className="p-3 border border-blue-900 border-opacity-40 rounded-lg bg-blue-900 bg-opacity-10 hover:bg-opacity-20 transition-all group">
                       <div className="flex items-start">
                         <div className="mr-3 mt-0.5 w-8 h-8 rounded bg-blue-900 bg-opacity-40 flex items-center justify-center border border-blue-800">
@@ -352,7 +446,7 @@ const Dashboard: React.FC = () => {
                   
                   {goals.some(goal => 
                     goal.deadline < new Date(new Date().getTime() + 7 * 24 * 60 * 60 * 1000) && 
-                    !goal.completed
+                    !goal.completed && !goal.archived
                   ) && (
                     <li className="p-3 border border-amber-900 border-opacity-40 rounded-lg bg-amber-900 bg-opacity-10 hover:bg-opacity-20 transition-all group">
                       <div className="flex items-start">
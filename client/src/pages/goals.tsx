@@ -1,6 +1,8 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { GoalCard } from "@/components/dashboard/goal-card";
+import { TrashedGoalCard } from "@/components/dashboard/trashed-goal-card";
 import { CreateGoalModal } from "@/components/modals/create-goal-modal";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -20,26 +22,58 @@ import {
   FilterX,
   SlidersHorizontal,
   LayoutGrid,
-  List
+  List,
+  Archive,
+  Trash2
 } from "lucide-react";
 import type { GoalWithCategory, Goal } from "@shared/schema";
+import { buildGoalTree, flattenGoalTree } from "@shared/goal-tree";
 
 const Goals: React.FC = () => {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<string>("active");
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [searchQuery, setSearchQuery] = useState("");
+  const urlSearch = useSearch();
+  
+  // ?q= and ?tab= open the page on a search result, e.g. from the search palette
+  useEffect(() => {
+    const params = new URLSearchParams(urlSearch);
+    const q = params.get("q");
+    const tab = params.get("tab");
+    if (q !== null) setSearchQuery(q);
+    if (tab === "active" || tab === "completed" || tab === "archived" || tab === "trash") setActiveTab(tab);
+  }, [urlSearch]);
   
   // Fetch goals
   const { data: goals, isLoading } = useQuery<GoalWithCategory[]>({
     queryKey: ['/api/goals'],
   });
   
+  // Trashed goals are only fetched once the Trash tab is opened
+  const { data: trashedGoals, isLoading: isTrashLoading } = useQuery<GoalWithCategory[]>({
+    queryKey: ['/api/goals/trash'],
+    enabled: activeTab === "trash",
+  });
+  
+  const filteredTrashedGoals = trashedGoals
+    ? trashedGoals.filter(goal =>
+        searchQuery.trim() === "" || goal.description.toLowerCase().includes(searchQuery.toLowerCase())
+      )
+    : [];
+  
+  // Sub-goals are shown inside their parent's card, unless searching
+  const isSearching = searchQuery.trim() !== "";
+  const goalTree = goals ? buildGoalTree(goals) : [];
+  
   // Filter goals based on active tab and search query
   const filteredGoals = goals 
-    ? goals.filter(goal => {
-        // First filter by active/completed status
-        const statusMatch = activeTab === "active" ? !goal.completed : goal.completed;
+    ? (isSearching ? flattenGoalTree(goalTree) : goalTree).filter(goal => {
+        // First filter by active/completed/archived status
+        const statusMatch =
+          activeTab === "archived" ? goal.archived :
+          activeTab === "active" ? !goal.completed && !goal.archived :
+          goal.completed && !goal.archived;
         
         // Then filter by search query if there is one
         if (searchQuery.trim() === "") return statusMatch;
@@ -132,7 +166,7 @@ const Goals: React.FC = () => {
       </div>
       
       {/* Enhanced Tabs */}
-      <Tabs defaultValue="active" onValueChange={setActiveTab} className="mb-8">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="mb-8">
         <TabsList className="border border-gray-800 bg-gray-900 p-1">
           <TabsTrigger 
             value="active" 
@@ -148,6 +182,20 @@ const Goals: React.FC = () => {
             <CheckCircle className="h-4 w-4 mr-2 text-green-400" />
             Completed Goals
           </TabsTrigger>
+          <TabsTrigger 
+            value="archived" 
+            className="data-[state=active]:bg-gray-800 data-[state=active]:text-gray-100 data-[state=active]:shadow-none"
+          >
+            <Archive className="h-4 w-4 mr-2 text-gray-400" />
+            Archived
+          </TabsTrigger>
+          <TabsTrigger 
+            value="trash" 
+            className="data-[state=active]:bg-red-950 data-[state=active]:text-gray-100 data-[state=active]:shadow-none"
+          >
+            <Trash2 className="h-4 w-4 mr-2 text-red-400" />
+            Trash
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="active" className="pt-6">
@@ -164,7 +212,7 @@ const Goals: React.FC = () => {
           ) : filteredGoals.length > 0 ? (
             <div className={viewMode === "grid" ? "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5" : "space-y-4"}>
               {filteredGoals.map(goal => (
-                <GoalCard key={goal.id} goal={goal} />
+                <GoalCard key={goal.id} goal={goal} subGoals={isSearching ? undefined : goal.subGoals} />
               ))}
             </div>
           ) : (
@@ -234,7 +282,7 @@ const Goals: React.FC = () => {
           ) : filteredGoals.length > 0 ? (
             <div className={viewMode === "grid" ? "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5" : "space-y-4"}>
               {filteredGoals.map(goal => (
-                <GoalCard key={goal.id} goal={goal} />
+                <GoalCard key={goal.id} goal={goal} subGoals={isSearching ? undefined : goal.subGoals} />
               ))}
             </div>
           ) : (
@@ -281,6 +329,78 @@ const Goals: React.FC = () => {
             </Card>
           )}
         </TabsContent>
+        
+        <TabsContent value="archived" className="pt-6">
+          {isLoading ? (
+            <div className={viewMode === "grid" ? "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5" : "space-y-4"}>
+              {[1, 2, 3].map((i) => (
+                <Card key={i} className="border border-gray-800 bg-black bg-opacity-50">
+                  <CardContent className="p-6">
+                    <Skeleton className="h-32 w-full" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : filteredGoals.length > 0 ? (
+            <div className={viewMode === "grid" ? "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5" : "space-y-4"}>
+              {filteredGoals.map(goal => (
+                <GoalCard key={goal.id} goal={goal} subGoals={isSearching ? undefined : goal.subGoals} />
+              ))}
+            </div>
+          ) : (
+            <Card className="card border border-gray-800">
+              <CardContent className="p-8 text-center">
+                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-gray-800 bg-opacity-50 flex items-center justify-center border border-gray-700">
+                  <Archive className="h-8 w-8 text-gray-400 opacity-70" />
+                </div>
+                <h3 className="text-xl font-semibold text-gray-100 mb-2">
+                  {searchQuery ? "No Matching Goals" : "No Archived Goals"}
+                </h3>
+                <p className="text-gray-400 max-w-md mx-auto">
+                  {searchQuery
+                    ? `We couldn't find any archived goals matching "${searchQuery}"`
+                    : "Goals you archive are kept here, out of your active list."}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+        
+        <TabsContent value="trash" className="pt-6">
+          {isTrashLoading ? (
+            <div className={viewMode === "grid" ? "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5" : "space-y-4"}>
+              {[1, 2, 3].map((i) => (
+                <Card key={i} className="border border-gray-800 bg-black bg-opacity-50">
+                  <CardContent className="p-6">
+                    <Skeleton className="h-24 w-full" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : filteredTrashedGoals.length > 0 ? (
+            <div className={viewMode === "grid" ? "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5" : "space-y-4"}>
+              {filteredTrashedGoals.map(goal => (
+                <TrashedGoalCard key={goal.id} goal={goal} />
+              ))}
+            </div>
+          ) : (
+            <Card className="card border border-gray-800">
+              <CardContent className="p-8 text-center">
+                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-gray-800 bg-opacity-50 flex items-center justify-center border border-gray-700">
+                  <Trash2 className="h-8 w-8 text-gray-400 opacity-70" />
+                </div>
+                <h3 className="text-xl font-semibold text-gray-100 mb-2">
+                  {searchQuery ? "No Matching Goals" : "Trash Is Empty"}
+                </h3>
+                <p className="text-gray-400 max-w-md mx-auto">
+                  {searchQuery
+                    ? `We couldn't find any deleted goals matching "${searchQuery}"`
+                    : "Deleted goals stay here until you restore them or delete them forever."}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
       </Tabs>
       
       {/* Create Goal Modal */}
@@ -14,6 +14,13 @@ import {
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { principles, type PrincipleId } from "@shared/reflections";
+
+const principleStyles: Record<PrincipleId, { icon: React.ElementType; box: string; iconColor: string }> = {
+  understanding: { icon: Brain, box: "bg-blue-900/30 border-blue-800/40", iconColor: "text-blue-400" },
+  alignment: { icon: Target, box: "bg-purple-900/30 border-purple-800/40", iconColor: "text-purple-400" },
+  iteration: { icon: RefreshCcw, box: "bg-emerald-900/30 border-emerald-800/40", iconColor: "text-emerald-400" },
+};
 
 const Mantra: React.FC = () => {
   return (
@@ -43,35 +50,20 @@ const Mantra: React.FC = () => {
           </h2>
           
           <div className="space-y-3 pt-1">
-            <div className="flex items-start">
-              <div className="h-8 w-8 rounded bg-blue-900/30 flex items-center justify-center mr-3 mt-0.5 border border-blue-800/40">
-                <Brain className="h-4 w-4 text-blue-400" />
-              </div>
-              <div>
-                <p className="font-medium text-gray-200 text-sm">Deep Understanding</p>
-                <p className="text-xs text-gray-400">Don't just track tasks—understand why they matter to your growth journey.</p>
-              </div>
-            </div>
-            
-            <div className="flex items-start">
-              <div className="h-8 w-8 rounded bg-purple-900/30 flex items-center justify-center mr-3 mt-0.5 border border-purple-800/40">
-                <Target className="h-4 w-4 text-purple-400" />
-              </div>
-              <div>
-                <p className="font-medium text-gray-200 text-sm">Intentional Alignment</p>
-                <p className="text-xs text-gray-400">Align each goal with your deeper purpose for natural motivation.</p>
-              </div>
-            </div>
-            
-            <div className="flex items-start">
-              <div className="h-8 w-8 rounded bg-emerald-900/30 flex items-center justify-center mr-3 mt-0.5 border border-emerald-800/40">
-                <RefreshCcw className="h-4 w-4 text-emerald-400" />
-              </div>
-              <div>
-                <p className="font-medium text-gray-200 text-sm">Conscious Iteration</p>
-                <p className="text-xs text-gray-400">Treat each setback as data, not failure. Progress is a spiral, not a line.</p>
-              </div>
-            </div>
+            {principles.map(({ id, title, description }) => {
+              const { icon: Icon, box, iconColor } = principleStyles[id];
+              return (
+                <div key={id} className="flex items-start">
+                  <div className={`h-8 w-8 rounded flex items-center justify-center mr-3 mt-0.5 border ${box}`}>
+                    <Icon className={`h-4 w-4 ${iconColor}`} />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-200 text-sm">{title}</p>
+                    <p className="text-xs text-gray-400">{description}</p>
+                  </div>
+                </div>
+              );
+            })}
           </div>
           
           <div className="pt-2 border-t border-gray-800 mt-4">
@@ -1,39 +1,228 @@
-import React, { useState, useEffect } from "react";
-import { Link } from "wouter";
-import { FileText, Save, Trash2, ArrowLeft, Plus, Download, CheckCircle, Timer } from "lucide-react";
+import React, { useState, useEffect, useRef } from "react";
+import { Link, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { format } from "date-fns";
+import { FileText, Save, Trash2, ArrowLeft, Plus, Download, CheckCircle, Timer, ChevronLeft, ChevronRight, Target, X, Lightbulb, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { NoteTemplatesModal } from "@/components/modals/note-templates-modal";
+import { NoteHistoryModal } from "@/components/modals/note-history-modal";
 import { formatDate } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { DEFAULT_TIME_ZONE } from "@shared/timezone";
+import { applyTemplate, getPromptOfTheDay } from "@shared/reflections";
+import type { GoalWithCategory, NoteWithLinks, NotePage, NoteTemplate } from "@shared/schema";
 
-interface Note {
-  id: string;
+// Where notes were kept before they were stored on the server
+const LEGACY_NOTES_KEY = 'goalSyncNotes';
+// What POST /api/notes/import accepts (see noteImportSchema)
+const IMPORT_BATCH_SIZE = 1000;
+const MAX_TITLE_LENGTH = 200;
+const MAX_CONTENT_LENGTH = 100000;
+// Well under the server's request body limit, which a batch of long notes
+// would pass long before it reached IMPORT_BATCH_SIZE
+const IMPORT_BATCH_BYTES = 512 * 1024;
+const UNTITLED = "Untitled Reflection";
+const PAGE_SIZE = 20;
+// The "New from template" menu's entry that opens the template library
+const MANAGE_TEMPLATES = "manage";
+
+type ViewMode = "write" | "split" | "preview";
+
+// The old Notepad checked nothing, so any of these may be missing or odd
+interface LegacyNote {
+  title?: unknown;
+  content?: unknown;
+  createdAt?: unknown;
+  updatedAt?: unknown;
+}
+
+interface ImportedNote {
   title: string;
   content: string;
-  createdAt: Date;
-  updatedAt: Date;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The saved date as an ISO string, or undefined if it can't be read
+function parseLegacyDate(value: unknown): string | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * A note the old Notepad saved, fitted to what the import accepts: long
+ * titles are cut short, unreadable dates replaced and content too long for
+ * one note split over several, numbered in the title. Entries that aren't
+ * notes at all are skipped.
+ */
+function toImportedNotes(note: unknown, now: string): ImportedNote[] {
+  if (!note || typeof note !== "object") return [];
+  const { title, content, createdAt, updatedAt } = note as LegacyNote;
+  const created = parseLegacyDate(createdAt) ?? now;
+  const baseTitle = (typeof title === "string" ? title.trim() : "") || UNTITLED;
+  const text = typeof content === "string" ? content : "";
+
+  const parts: string[] = [];
+  for (let start = 0; start < text.length; start += MAX_CONTENT_LENGTH) {
+    parts.push(text.slice(start, start + MAX_CONTENT_LENGTH));
+  }
+  if (parts.length === 0) parts.push("");
+
+  return parts.map((part, i) => {
+    const suffix = parts.length > 1 ? ` (${i + 1}/${parts.length})` : "";
+    return {
+      title: baseTitle.slice(0, MAX_TITLE_LENGTH - suffix.length) + suffix,
+      content: part,
+      createdAt: created,
+      updatedAt: parseLegacyDate(updatedAt) ?? created,
+    };
+  });
+}
+
+// How many of the notes, from the first, fit in one import request
+function nextBatchSize(notes: ImportedNote[]): number {
+  const encoder = new TextEncoder();
+  let bytes = 0;
+  let count = 0;
+  while (count < notes.length && count < IMPORT_BATCH_SIZE) {
+    bytes += encoder.encode(JSON.stringify(notes[count])).length;
+    // A note is always sent, even alone in a batch
+    if (count > 0 && bytes > IMPORT_BATCH_BYTES) break;
+    count++;
+  }
+  return count;
+}
+
+async function fetchNotes(search: string, page: number, pageSize = PAGE_SIZE): Promise<NotePage> {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+  if (search) params.set('q', search);
+  const res = await apiRequest('GET', `/api/notes?${params}`);
+  return res.json();
 }
 
 const Notepad: React.FC = () => {
   const { toast } = useToast();
-  const [notes, setNotes] = useState<Note[]>(() => {
-    const savedNotes = localStorage.getItem('goalSyncNotes');
-    return savedNotes ? JSON.parse(savedNotes) : [];
-  });
-  
-  const [activeNote, setActiveNote] = useState<Note | null>(null);
+  const { user } = useAuth();
+  const [activeNote, setActiveNote] = useState<NoteWithLinks | null>(null);
   const [title, setTitle] = useState("");
   const [content, setContent] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
   const [isSaved, setIsSaved] = useState(true);
+  const [viewMode, setViewMode] = useState<ViewMode>("write");
+  const [isTemplatesModalOpen, setIsTemplatesModalOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const importStarted = useRef(false);
+  // ?note=<id> opens a note, e.g. one just started from a goal
+  const linkedNoteId = new URLSearchParams(useSearch()).get('note');
+
+  const { data: goals } = useQuery<GoalWithCategory[]>({
+    queryKey: ['/api/goals'],
+  });
 
-  // Save notes to localStorage whenever the notes array changes
+  const { data: templates } = useQuery<NoteTemplate[]>({
+    queryKey: ['/api/note-templates'],
+  });
+
+  const prompt = getPromptOfTheDay(new Date(), user?.timeZone ?? DEFAULT_TIME_ZONE);
+
+  const { data: notePage } = useQuery<NotePage>({
+    queryKey: ['/api/notes', search, page],
+    queryFn: () => fetchNotes(search, page),
+  });
+  const notes = notePage?.notes ?? [];
+  const pageCount = notePage ? Math.max(1, Math.ceil(notePage.total / notePage.pageSize)) : 1;
+
+  const invalidateNoteQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics'] });
+  };
+
+  const openNote = (note: NoteWithLinks) => {
+    setActiveNote(note);
+    setTitle(note.title);
+    setContent(note.content);
+    setIsSaved(true);
+  };
+
+  useEffect(() => {
+    if (!linkedNoteId) return;
+    apiRequest('GET', `/api/notes/${linkedNoteId}`)
+      .then(res => res.json())
+      .then(openNote)
+      .catch(() => {
+        toast({
+          title: "Reflection not found",
+          description: "It may have been deleted.",
+          variant: "destructive"
+        });
+      });
+  }, [linkedNoteId]);
+
+  // Search once typing pauses, from the first page
+  useEffect(() => {
+    const searchTimer = setTimeout(() => {
+      setSearch(searchQuery.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(searchTimer);
+  }, [searchQuery]);
+
+  // Move notes written before they were stored on the server over to it, once
   useEffect(() => {
-    localStorage.setItem('goalSyncNotes', JSON.stringify(notes));
-  }, [notes]);
+    const savedNotes = localStorage.getItem(LEGACY_NOTES_KEY);
+    if (!savedNotes || importStarted.current) return;
+    importStarted.current = true;
+
+    const importLegacyNotes = async () => {
+      let imported = 0;
+      try {
+        const parsed: unknown = JSON.parse(savedNotes);
+        const now = new Date().toISOString();
+        const legacyNotes = (Array.isArray(parsed) ? parsed : [])
+          .flatMap(note => toImportedNotes(note, now));
+
+        while (imported < legacyNotes.length) {
+          const rest = legacyNotes.slice(imported);
+          const batch = rest.slice(0, nextBatchSize(rest));
+          await apiRequest('POST', '/api/notes/import', { notes: batch });
+          imported += batch.length;
+          // Should a later batch fail, only the rest is tried again
+          localStorage.setItem(LEGACY_NOTES_KEY, JSON.stringify(legacyNotes.slice(imported)));
+        }
+        localStorage.removeItem(LEGACY_NOTES_KEY);
+        if (imported > 0) {
+          invalidateNoteQueries();
+          toast({
+            title: "Reflections imported",
+            description: `${imported} reflection${imported === 1 ? "" : "s"} saved in this browser now sync with your account.`,
+          });
+        }
+      } catch (error) {
+        if (imported > 0) invalidateNoteQueries();
+        // Keep the rest in the browser to try again next time
+        toast({
+          title: "Import failed",
+          description: "Your saved reflections couldn't be imported. We'll try again next time.",
+          variant: "destructive"
+        });
+      }
+    };
+    importLegacyNotes();
+  }, []);
 
   // Auto-save functionality
   useEffect(() => {
@@ -46,97 +235,153 @@ const Notepad: React.FC = () => {
     }
   }, [title, content, activeNote, isSaved]);
 
-  const createNewNote = () => {
+  const createNewNote = async (noteTitle = UNTITLED, noteContent = "") => {
     // Prompt to save any unsaved changes
     if (activeNote && !isSaved) {
       if (window.confirm("You have unsaved changes. Would you like to save them before creating a new note?")) {
-        handleSaveNote();
+        await handleSaveNote();
       }
     }
     
-    const newNote: Note = {
-      id: Date.now().toString(),
-      title: "Untitled Reflection",
-      content: "",
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    
-    setNotes([newNote, ...notes]);
-    setActiveNote(newNote);
-    setTitle(newNote.title);
-    setContent(newNote.content);
-    setIsSaved(false);
+    try {
+      const res = await apiRequest('POST', '/api/notes', { title: noteTitle, content: noteContent });
+      const newNote: NoteWithLinks = await res.json();
+      invalidateNoteQueries();
+      openNote(newNote);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create a reflection. Please try again.",
+        variant: "destructive"
+      });
+    }
   };
 
-  const handleNoteClick = (note: Note) => {
+  const handleTemplateSelect = (value: string) => {
+    if (value === MANAGE_TEMPLATES) {
+      setIsTemplatesModalOpen(true);
+      return;
+    }
+    const template = templates?.find(template => template.id.toString() === value);
+    if (template) {
+      createNewNote(template.name, applyTemplate(template.content, { date: format(new Date(), "MMM d, yyyy") }));
+    }
+  };
+
+  const handleNoteClick = async (note: NoteWithLinks) => {
     // Prompt to save any unsaved changes
     if (activeNote && !isSaved) {
       if (window.confirm("You have unsaved changes. Would you like to save them before switching notes?")) {
-        handleSaveNote();
+        await handleSaveNote();
       }
     }
     
-    setActiveNote(note);
-    setTitle(note.title);
-    setContent(note.content);
-    setIsSaved(true);
+    openNote(note);
   };
 
-  const handleDeleteNote = (noteId: string) => {
+  // Links are saved straight away, apart from the title and content
+  const handleLinkGoals = async (goalIds: number[]) => {
+    if (!activeNote) return;
+    
+    try {
+      const res = await apiRequest('PATCH', `/api/notes/${activeNote.id}`, { goalIds });
+      const linkedNote: NoteWithLinks = await res.json();
+      invalidateNoteQueries();
+      setActiveNote({ ...linkedNote, title: activeNote.title, content: activeNote.content });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update the linked goals. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const goalName = (goalId: number) => goals?.find(goal => goal.id === goalId)?.description;
+
+  const handleDeleteNote = async (noteId: number) => {
     const confirmDelete = window.confirm("Are you sure you want to delete this reflection? This action cannot be undone.");
     if (confirmDelete) {
-      const updatedNotes = notes.filter(note => note.id !== noteId);
-      setNotes(updatedNotes);
-      
-      // If the deleted note was the active note, clear the editor
-      if (activeNote && activeNote.id === noteId) {
-        setActiveNote(null);
-        setTitle("");
-        setContent("");
+      try {
+        await apiRequest('DELETE', `/api/notes/${noteId}`);
+        invalidateNoteQueries();
+        
+        // If the deleted note was the active note, clear the editor
+        if (activeNote && activeNote.id === noteId) {
+          setActiveNote(null);
+          setTitle("");
+          setContent("");
+          setIsSaved(true);
+        }
+        
+        toast({
+          title: "Reflection deleted",
+          description: "Your reflection has been successfully deleted.",
+          variant: "default"
+        });
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to delete the reflection. Please try again.",
+          variant: "destructive"
+        });
       }
+    }
+  };
+
+  const handleSaveNote = async () => {
+    if (!activeNote) return;
+    
+    try {
+      const res = await apiRequest('PATCH', `/api/notes/${activeNote.id}`, {
+        title: title.trim() || UNTITLED,
+        content
+      });
+      const savedNote: NoteWithLinks = await res.json();
+      invalidateNoteQueries();
+      setActiveNote(savedNote);
+      if (!title.trim()) setTitle(savedNote.title);
+      setIsSaved(true);
       
       toast({
-        title: "Reflection deleted",
-        description: "Your reflection has been successfully deleted.",
+        title: "Reflection saved",
+        description: "Your reflections have been saved successfully.",
         variant: "default"
       });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save the reflection. Please try again.",
+        variant: "destructive"
+      });
     }
   };
 
-  const handleSaveNote = () => {
-    if (!activeNote) return;
-    
-    const updatedNotes = notes.map(note => {
-      if (note.id === activeNote.id) {
-        return {
-          ...note,
-          title,
-          content,
-          updatedAt: new Date()
-        };
-      }
-      return note;
-    });
-    
-    setNotes(updatedNotes);
-    setActiveNote({
-      ...activeNote,
-      title,
-      content,
-      updatedAt: new Date()
-    });
-    setIsSaved(true);
-    
-    toast({
-      title: "Reflection saved",
-      description: "Your reflections have been saved successfully.",
-      variant: "default"
-    });
+  // The history shows saved versions, so save what's in the editor first
+  const handleOpenHistory = async () => {
+    if (!isSaved) await handleSaveNote();
+    setIsHistoryOpen(true);
   };
 
-  const handleExportNotes = () => {
-    const dataStr = JSON.stringify(notes, null, 2);
+  const handleExportNotes = async () => {
+    // Every note, not just the page on screen
+    const allNotes: NoteWithLinks[] = [];
+    try {
+      for (let exportPage = 1; ; exportPage++) {
+        const result = await fetchNotes("", exportPage, 100);
+        allNotes.push(...result.notes);
+        if (allNotes.length >= result.total || result.notes.length === 0) break;
+      }
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: "Your reflections couldn't be loaded. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    const dataStr = JSON.stringify(allNotes, null, 2);
     const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
     
     const exportFileDefaultName = `goalsync-reflections-${new Date().toISOString().slice(0,10)}.json`;
@@ -153,12 +398,6 @@ const Notepad: React.FC = () => {
     });
   };
 
-  // Filter notes based on search query
-  const filteredNotes = notes.filter(note => 
-    note.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-    note.content.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
   return (
     <div className="h-full flex flex-col">
       <div className="border-b border-gray-800 bg-gray-900 py-4 px-6">
@@ -191,10 +430,21 @@ const Notepad: React.FC = () => {
                 Saved
               </span>
             )}
-            <Button onClick={createNewNote} size="sm" className="bg-emerald-600 hover:bg-emerald-700 h-8 px-3">
+            <Button onClick={() => createNewNote()} size="sm" className="bg-emerald-600 hover:bg-emerald-700 h-8 px-3">
               <Plus className="h-4 w-4 mr-1" />
               New Note
             </Button>
+            <Select value="" onValueChange={handleTemplateSelect}>
+              <SelectTrigger className="h-8 w-[170px] text-xs bg-transparent border-emerald-800 text-emerald-300">
+                <SelectValue placeholder="New from template..." />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-900 border-gray-800 text-gray-200">
+                {templates?.map(template => (
+                  <SelectItem key={template.id} value={template.id.toString()}>{template.name}</SelectItem>
+                ))}
+                <SelectItem value={MANAGE_TEMPLATES} className="text-emerald-400">Manage templates...</SelectItem>
+              </SelectContent>
+            </Select>
             <Button onClick={handleExportNotes} size="sm" variant="outline" className="h-8 px-3 border-emerald-800 text-emerald-300 hover:bg-emerald-900/30">
               <Download className="h-4 w-4 mr-1" />
               Export
@@ -215,11 +465,29 @@ const Notepad: React.FC = () => {
               onChange={(e) => setSearchQuery(e.target.value)}
             />
           </div>
+          <div className="px-4 pb-4">
+            <Card className="bg-gray-950 border-gray-800">
+              <CardContent className="p-3">
+                <p className="text-xs font-medium text-emerald-400 flex items-center">
+                  <Lightbulb className="h-3 w-3 mr-1" />
+                  Prompt of the day · {prompt.principle.title}
+                </p>
+                <p className="text-sm text-gray-300 mt-1">{prompt.text}</p>
+                <Button
+                  variant="link"
+                  className="text-emerald-400 p-0 h-auto mt-1 text-xs"
+                  onClick={() => createNewNote(prompt.principle.title, `> ${prompt.text}\n\n`)}
+                >
+                  Reflect on this
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
           <Separator className="bg-gray-800" />
           <div className="p-2">
-            {filteredNotes.length > 0 ? (
+            {notes.length > 0 ? (
               <div className="space-y-2">
-                {filteredNotes.map((note) => (
+                {notes.map((note) => (
                   <Card 
                     key={note.id} 
                     className={`hover:bg-gray-800 cursor-pointer transition-colors ${
@@ -251,6 +519,29 @@ const Notepad: React.FC = () => {
                     </CardContent>
                   </Card>
                 ))}
+                {pageCount > 1 && (
+                  <div className="flex items-center justify-between pt-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-gray-400"
+                      disabled={page <= 1}
+                      onClick={() => setPage(page - 1)}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span className="text-xs text-gray-500">Page {page} of {pageCount}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-gray-400"
+                      disabled={page >= pageCount}
+                      onClick={() => setPage(page + 1)}
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="text-center py-10">
@@ -262,7 +553,7 @@ const Notepad: React.FC = () => {
                   <Button 
                     variant="link" 
                     className="text-emerald-400 mt-2 text-xs"
-                    onClick={createNewNote}
+                    onClick={() => createNewNote()}
                   >
                     Create your first reflection
                   </Button>
@@ -286,36 +577,109 @@ const Notepad: React.FC = () => {
                   placeholder="Note title"
                   className="text-lg font-medium bg-transparent border-gray-800 focus:border-emerald-700"
                 />
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  {activeNote.goalIds.map(goalId => goalName(goalId) && (
+                    <Badge key={goalId} variant="outline" className="border-emerald-800 text-emerald-300">
+                      <Target className="h-3 w-3 mr-1" />
+                      {goalName(goalId)}
+                      <button
+                        type="button"
+                        className="ml-1 text-emerald-500 hover:text-red-400"
+                        onClick={() => handleLinkGoals(activeNote.goalIds.filter(id => id !== goalId))}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                  <Select
+                    value=""
+                    onValueChange={(value) => handleLinkGoals([...activeNote.goalIds, parseInt(value)])}
+                  >
+                    <SelectTrigger className="h-7 w-[160px] text-xs bg-transparent border-gray-800 text-gray-400">
+                      <SelectValue placeholder="Link a goal..." />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-900 border-gray-800 text-gray-200">
+                      {goals?.filter(goal => !activeNote.goalIds.includes(goal.id)).map(goal => (
+                        <SelectItem key={goal.id} value={goal.id.toString()}>{goal.description}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {activeNote.progressLogIds.length > 0 && (
+                    <span className="text-xs text-gray-500">
+                      Reflects on {activeNote.progressLogIds.length} progress entr{activeNote.progressLogIds.length === 1 ? "y" : "ies"}
+                    </span>
+                  )}
+                </div>
               </div>
-              <div className="flex-1 p-4 overflow-y-auto">
-                <Textarea
-                  value={content}
-                  onChange={(e) => {
-                    setContent(e.target.value);
-                    setIsSaved(false);
-                  }}
-                  placeholder="What insights or reflections do you have about your goal journey today?"
-                  className="w-full h-full min-h-[300px] resize-none bg-transparent border-gray-800 focus:border-emerald-700"
-                />
+              <div className="px-4 pt-3">
+                <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as ViewMode)}>
+                  <TabsList className="h-8 bg-gray-900">
+                    <TabsTrigger value="write" className="text-xs">Write</TabsTrigger>
+                    <TabsTrigger value="split" className="text-xs">Split</TabsTrigger>
+                    <TabsTrigger value="preview" className="text-xs">Preview</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
+              <div className="flex-1 p-4 overflow-hidden flex gap-4">
+                {viewMode !== "preview" && (
+                  <Textarea
+                    value={content}
+                    maxLength={MAX_CONTENT_LENGTH}
+                    onChange={(e) => {
+                      setContent(e.target.value);
+                      setIsSaved(false);
+                    }}
+                    placeholder="What insights or reflections do you have about your goal journey today? Markdown works here."
+                    className="flex-1 h-full min-h-[300px] resize-none bg-transparent border-gray-800 focus:border-emerald-700"
+                  />
+                )}
+                {viewMode !== "write" && (
+                  <div className="flex-1 h-full overflow-y-auto rounded-md border border-gray-800 p-4">
+                    {content.trim() ? (
+                      <article className="prose-cyberpunk">
+                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{content}</ReactMarkdown>
+                      </article>
+                    ) : (
+                      <p className="text-sm text-gray-500">Nothing to preview yet.</p>
+                    )}
+                  </div>
+                )}
               </div>
               <div className="p-4 bg-gray-900 border-t border-gray-800 flex justify-between items-center">
                 <div className="text-xs text-gray-500">
                   Last updated: {formatDate(activeNote.updatedAt)}
                 </div>
-                <Button 
-                  onClick={handleSaveNote}
-                  size="sm"
-                  disabled={isSaved}
-                  className={`${
-                    isSaved 
-                      ? 'bg-gray-700 text-gray-300 cursor-not-allowed' 
-                      : 'bg-emerald-600 hover:bg-emerald-700'
-                  }`}
-                >
-                  <Save className="h-4 w-4 mr-1" />
-                  Save
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button
+                    onClick={handleOpenHistory}
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                  >
+                    <History className="h-4 w-4 mr-1" />
+                    History
+                  </Button>
+                  <Button 
+                    onClick={handleSaveNote}
+                    size="sm"
+                    disabled={isSaved}
+                    className={`${
+                      isSaved 
+                        ? 'bg-gray-700 text-gray-300 cursor-not-allowed' 
+                        : 'bg-emerald-600 hover:bg-emerald-700'
+                    }`}
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    Save
+                  </Button>
+                </div>
               </div>
+              <NoteHistoryModal
+                note={activeNote}
+                isOpen={isHistoryOpen}
+                onClose={() => setIsHistoryOpen(false)}
+                onRestore={openNote}
+              />
             </>
           ) : (
             <div className="flex-1 flex items-center justify-center">
@@ -328,7 +692,7 @@ const Notepad: React.FC = () => {
                 </CardHeader>
                 <CardFooter className="justify-center">
                   <Button 
-                    onClick={createNewNote}
+                    onClick={() => createNewNote()}
                     className="bg-emerald-600 hover:bg-emerald-700"
                   >
                     <Plus className="h-4 w-4 mr-1" />
@@ -340,6 +704,8 @@ const Notepad: React.FC = () => {
           )}
         </div>
       </div>
+
+      <NoteTemplatesModal isOpen={isTemplatesModalOpen} onClose={() => setIsTemplatesModalOpen(false)} />
     </div>
   );
 };
@@ -30,6 +30,7 @@ import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { PlanningSettings } from "@/components/settings/planning-settings";
 
 const SettingsPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<string>("profile");
@@ -242,6 +243,10 @@ const SettingsPage: React.FC = () => {
                 </Button>
               </CardFooter>
             </Card>
+            
+            <div className="mt-6">
+              <PlanningSettings />
+            </div>
           </div>
           
           {/* Appearance Settings */}
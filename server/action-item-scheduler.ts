@@ -0,0 +1,28 @@
+import type { IStorage } from "./storage";
+import { log } from "./vite";
+
+// Generation is idempotent per goal per day, so an hourly run only has to
+// catch the first tick after midnight
+const GENERATION_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Generate the day's action items for every user now and then every hour.
+ * The timer doesn't keep the process alive.
+ */
+export function startActionItemScheduler(storage: IStorage): NodeJS.Timeout {
+  const run = async () => {
+    try {
+      const created = await storage.generateActionItems(new Date());
+      if (created.length > 0) {
+        log(`generated ${created.length} action items`, "scheduler");
+      }
+    } catch (error) {
+      log(`action item generation failed: ${error instanceof Error ? error.message : String(error)}`, "scheduler");
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, GENERATION_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
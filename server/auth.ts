@@ -0,0 +1,187 @@
+import { type Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import {
+  loginSchema,
+  registerSchema,
+  type User as SelectUser,
+  type SafeUser
+} from "@shared/schema";
+import {
+  formatZodError,
+  conflictError,
+  unauthorizedError,
+  internalError
+} from "./errorHandler";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+/**
+ * Hash a password with a random salt, stored as "<hash>.<salt>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Compare a supplied password against a stored "<hash>.<salt>" value
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Strip the password hash before a user is sent to the client
+ */
+export function toSafeUser(user: SelectUser): SafeUser {
+  const { password: _password, ...safeUser } = user;
+  return safeUser;
+}
+
+/**
+ * Middleware rejecting requests without an authenticated session
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json(unauthorizedError());
+  }
+  next();
+}
+
+/**
+ * Validate, hash and persist a new user. Shared by the register route and
+ * the legacy POST /api/users endpoint.
+ */
+export async function registerUser(req: Request, res: Response) {
+  try {
+    const userData = registerSchema.parse(req.body);
+
+    // Check if user exists
+    const existingUser = await storage.getUserByUsername(userData.username);
+    if (existingUser) {
+      return res.status(409).json(conflictError("Username already exists"));
+    }
+
+    const user = await storage.createUser({
+      username: userData.username,
+      password: await hashPassword(userData.password),
+      timeZone: userData.timeZone,
+    });
+
+    req.login(user, (err) => {
+      if (err) {
+        return res.status(500).json(internalError("Failed to start session"));
+      }
+      res.status(201).json(toSafeUser(user));
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json(formatZodError(error));
+    }
+    res.status(500).json(internalError("Failed to create user"));
+  }
+}
+
+/**
+ * Configure sessions, passport and the /api/auth routes
+ */
+export function setupAuth(app: Express) {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    // Without SESSION_SECRET (development only) sessions last until restart
+    secret: sessionSecret ?? randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // An unknown id (e.g. after the in-memory store restarted) just ends the session
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // ==== Auth Routes ====
+  app.post('/api/auth/register', registerUser);
+
+  app.post('/api/auth/login', (req, res, next) => {
+    const result = loginSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json(formatZodError(result.error));
+    }
+
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json(unauthorizedError("Invalid username or password"));
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toSafeUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/auth/logout', (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get('/api/auth/me', requireAuth, (req, res) => {
+    res.json(toSafeUser(req.user!));
+  });
+}
@@ -0,0 +1,250 @@
+import { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { ActionItem, GoalWithCategory, Milestone, NoteRevision, NoteTemplate, NoteWithLinks, ProgressLog } from "@shared/schema";
+import {
+  ApiError,
+  notFoundError,
+  forbiddenError,
+  internalError
+} from "./errorHandler";
+
+/**
+ * Outcome of an ownership check: either the resource, or the error response
+ * the route should send
+ */
+export type AccessResult<T> =
+  | { ok: true; resource: T }
+  | { ok: false; status: 403 | 404; error: ApiError };
+
+/**
+ * Parse a route or body id, treating anything that isn't a positive integer
+ * as a missing resource
+ */
+function parseId(value: unknown): number | undefined {
+  const id = typeof value === 'number' ? value : parseInt(String(value), 10);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+export interface GoalAccessOptions {
+  // Trashed goals are treated as missing unless this is set
+  includeDeleted?: boolean;
+}
+
+/**
+ * Load a goal and check it belongs to the user
+ */
+export async function checkGoalAccess(
+  userId: number,
+  goalId: unknown,
+  { includeDeleted = false }: GoalAccessOptions = {},
+): Promise<AccessResult<GoalWithCategory>> {
+  const id = parseId(goalId);
+  const goal = id === undefined ? undefined : await storage.getGoal(id);
+
+  if (!goal || (goal.deletedAt && !includeDeleted)) {
+    return { ok: false, status: 404, error: notFoundError("Goal") };
+  }
+  if (goal.userId !== userId) {
+    return { ok: false, status: 403, error: forbiddenError("You do not have access to this goal") };
+  }
+  return { ok: true, resource: goal };
+}
+
+/**
+ * Load an action item and check it belongs to the user. Items of a trashed
+ * goal are treated as missing.
+ */
+export async function checkActionItemAccess(userId: number, itemId: unknown): Promise<AccessResult<ActionItem>> {
+  const id = parseId(itemId);
+  const item = id === undefined ? undefined : await storage.getActionItem(id);
+
+  if (!item) {
+    return { ok: false, status: 404, error: notFoundError("Action item") };
+  }
+  if (item.userId !== userId) {
+    return { ok: false, status: 403, error: forbiddenError("You do not have access to this action item") };
+  }
+
+  if (item.goalId !== null) {
+    const goal = await storage.getGoal(item.goalId);
+    if (!goal || goal.deletedAt) {
+      return { ok: false, status: 404, error: notFoundError("Action item") };
+    }
+  }
+  return { ok: true, resource: item };
+}
+
+/**
+ * Load a progress log and check the goal behind it belongs to the user
+ */
+export async function checkProgressLogAccess(userId: number, logId: unknown): Promise<AccessResult<ProgressLog>> {
+  const id = parseId(logId);
+  const log = id === undefined ? undefined : await storage.getProgressLog(id);
+
+  if (!log) {
+    return { ok: false, status: 404, error: notFoundError("Progress log") };
+  }
+
+  const goalAccess = await checkGoalAccess(userId, log.goalId);
+  if (!goalAccess.ok) {
+    return goalAccess.status === 404
+      ? { ok: false, status: 404, error: notFoundError("Progress log") }
+      : { ok: false, status: 403, error: forbiddenError("You do not have access to this progress log") };
+  }
+  return { ok: true, resource: log };
+}
+
+/**
+ * Load a milestone and check the goal behind it belongs to the user
+ */
+export async function checkMilestoneAccess(userId: number, milestoneId: unknown): Promise<AccessResult<Milestone>> {
+  const id = parseId(milestoneId);
+  const milestone = id === undefined ? undefined : await storage.getMilestone(id);
+
+  if (!milestone) {
+    return { ok: false, status: 404, error: notFoundError("Milestone") };
+  }
+
+  const goalAccess = await checkGoalAccess(userId, milestone.goalId);
+  if (!goalAccess.ok) {
+    return goalAccess.status === 404
+      ? { ok: false, status: 404, error: notFoundError("Milestone") }
+      : { ok: false, status: 403, error: forbiddenError("You do not have access to this milestone") };
+  }
+  return { ok: true, resource: milestone };
+}
+
+/**
+ * Load a note and check it belongs to the user
+ */
+export async function checkNoteAccess(userId: number, noteId: unknown): Promise<AccessResult<NoteWithLinks>> {
+  const id = parseId(noteId);
+  const note = id === undefined ? undefined : await storage.getNote(id);
+
+  if (!note) {
+    return { ok: false, status: 404, error: notFoundError("Note") };
+  }
+  if (note.userId !== userId) {
+    return { ok: false, status: 403, error: forbiddenError("You do not have access to this note") };
+  }
+  return { ok: true, resource: note };
+}
+
+/**
+ * Load a note revision and check the note behind it belongs to the user
+ */
+export async function checkNoteRevisionAccess(userId: number, revisionId: unknown): Promise<AccessResult<NoteRevision>> {
+  const id = parseId(revisionId);
+  const revision = id === undefined ? undefined : await storage.getNoteRevision(id);
+
+  if (!revision) {
+    return { ok: false, status: 404, error: notFoundError("Note revision") };
+  }
+
+  const noteAccess = await checkNoteAccess(userId, revision.noteId);
+  if (!noteAccess.ok) {
+    return noteAccess.status === 404
+      ? { ok: false, status: 404, error: notFoundError("Note revision") }
+      : { ok: false, status: 403, error: forbiddenError("You do not have access to this note revision") };
+  }
+  return { ok: true, resource: revision };
+}
+
+/**
+ * Load a note template and check it belongs to the user
+ */
+export async function checkNoteTemplateAccess(userId: number, templateId: unknown): Promise<AccessResult<NoteTemplate>> {
+  const id = parseId(templateId);
+  const template = id === undefined ? undefined : await storage.getNoteTemplate(id);
+
+  if (!template) {
+    return { ok: false, status: 404, error: notFoundError("Note template") };
+  }
+  if (template.userId !== userId) {
+    return { ok: false, status: 403, error: forbiddenError("You do not have access to this note template") };
+  }
+  return { ok: true, resource: template };
+}
+
+/**
+ * Wrap an access check as middleware. The checked resource is stored on
+ * res.locals[localsKey] for the route handler.
+ */
+function authorize<T>(
+  check: (userId: number, id: unknown) => Promise<AccessResult<T>>,
+  localsKey: string,
+  getId: (req: Request) => unknown,
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const access = await check(req.user!.id, getId(req));
+      if (!access.ok) {
+        return res.status(access.status).json(access.error);
+      }
+      res.locals[localsKey] = access.resource;
+      next();
+    } catch (error) {
+      res.status(500).json(internalError("Failed to verify access"));
+    }
+  };
+}
+
+/**
+ * Require the goal named by a route param to belong to the caller
+ * (available as res.locals.goal)
+ */
+export function authorizeGoal(param = 'id', options: GoalAccessOptions = {}) {
+  return authorize(
+    (userId, goalId) => checkGoalAccess(userId, goalId, options),
+    'goal',
+    (req) => req.params[param],
+  );
+}
+
+/**
+ * Require the action item named by a route param to belong to the caller
+ * (available as res.locals.actionItem)
+ */
+export function authorizeActionItem(param = 'id') {
+  return authorize(checkActionItemAccess, 'actionItem', (req) => req.params[param]);
+}
+
+/**
+ * Require the progress log named by a route param to belong to the caller
+ * (available as res.locals.progressLog)
+ */
+export function authorizeProgressLog(param = 'id') {
+  return authorize(checkProgressLogAccess, 'progressLog', (req) => req.params[param]);
+}
+
+/**
+ * Require the milestone named by a route param to belong to the caller
+ * (available as res.locals.milestone)
+ */
+export function authorizeMilestone(param = 'id') {
+  return authorize(checkMilestoneAccess, 'milestone', (req) => req.params[param]);
+}
+
+/**
+ * Require the note named by a route param to belong to the caller
+ * (available as res.locals.note)
+ */
+export function authorizeNote(param = 'id') {
+  return authorize(checkNoteAccess, 'note', (req) => req.params[param]);
+}
+
+/**
+ * Require the note revision named by a route param to belong to the caller
+ * (available as res.locals.noteRevision)
+ */
+export function authorizeNoteRevision(param = 'id') {
+  return authorize(checkNoteRevisionAccess, 'noteRevision', (req) => req.params[param]);
+}
+
+/**
+ * Require the note template named by a route param to belong to the caller
+ * (available as res.locals.noteTemplate)
+ */
+export function authorizeNoteTemplate(param = 'id') {
+  return authorize(checkNoteTemplateAccess, 'noteTemplate', (req) => req.params[param]);
+}
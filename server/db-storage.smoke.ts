@@ -0,0 +1,122 @@
+/**
+ * Runs DbStorage against an in-process PGlite database, migrated from the
+ * migrations in the directory given as the first argument. Driven by
+ * test_db_storage.sh, which generates them from shared/schema.ts.
+ */
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { defaultCategories } from "@shared/schema";
+import { DbStorage } from "./db-storage";
+import type { Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+
+let failures = 0;
+
+function expectEqual(label: string, expected: unknown, actual: unknown) {
+  const [want, got] = [JSON.stringify(expected), JSON.stringify(actual)];
+  if (want !== got) {
+    console.log(`FAIL: ${label} (expected ${want}, got ${got})`);
+    failures++;
+  } else {
+    console.log(`PASS: ${label}`);
+  }
+}
+
+async function expectRejects(label: string, operation: () => Promise<unknown>) {
+  try {
+    await operation();
+    console.log(`FAIL: ${label} (expected an error)`);
+    failures++;
+  } catch {
+    console.log(`PASS: ${label}`);
+  }
+}
+
+function createStorage(client: PGlite): DbStorage {
+  return new DbStorage(drizzle(client) as unknown as Database, new MemoryStore({ checkPeriod: 86400000 }));
+}
+
+async function main() {
+  const migrationsFolder = process.argv[2];
+  if (!migrationsFolder) {
+    console.error("Usage: tsx server/db-storage.smoke.ts <migrations folder>");
+    process.exit(2);
+  }
+
+  const client = new PGlite();
+  await migrate(drizzle(client), { migrationsFolder });
+
+  console.log("\n1. Default categories are seeded once...");
+  const storage = createStorage(client);
+  expectEqual("default categories seeded",
+    defaultCategories.map(category => category.name),
+    (await storage.getCategories()).map(category => category.name));
+  // A second instance on the same database, as after a restart
+  expectEqual("seeding again adds no duplicates",
+    defaultCategories.length,
+    (await createStorage(client).getCategories()).length);
+
+  console.log("\n2. Goals and progress round-trip...");
+  const user = await storage.createUser({ username: `db_smoke_${Date.now()}`, password: "test-password" });
+  const goal = await storage.createGoal({
+    userId: user.id,
+    description: "Run 10 km",
+    targetValue: 10,
+    unit: "km",
+    deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    categoryId: 1,
+    reminderFrequency: "daily",
+  }, ["Halfway"]);
+  await storage.createProgressLog({ goalId: goal.id, value: 4, notes: "Easy morning run" });
+  await storage.createProgressLog({ goalId: goal.id, value: 3 });
+  const saved = await storage.getGoal(goal.id);
+  expectEqual("progress adds up", 7, saved?.currentValue);
+  expectEqual("goal has its category", defaultCategories[0].name, saved?.category?.name);
+  expectEqual("goal is listed for its owner", [goal.id], (await storage.getGoals(user.id)).map(g => g.id));
+  expectEqual("progress notes are searchable", ["progress_log"],
+    (await storage.search(user.id, { q: "morning", limit: 20 })).results.map(result => result.type));
+
+  const [item] = await storage.getActionItems(user.id);
+  const pointsBefore = (await storage.getUser(user.id))?.points;
+  await storage.updateActionItem(item.id, { completed: true });
+  await storage.updateActionItem(item.id, { completed: false });
+  expectEqual("unchecking an action item takes back its points", pointsBefore, (await storage.getUser(user.id))?.points);
+  expectEqual("unchecking an action item takes back its progress", 7, (await storage.getGoal(goal.id))?.currentValue);
+
+  console.log("\n3. Reflections keep their history...");
+  const note = await storage.createNote({ userId: user.id, title: "Week one", content: "Felt slow" });
+  await storage.updateNote(note.id, { content: "Felt slow, but kept going" });
+  expectEqual("update recorded a revision", 1, (await storage.getNoteRevisions(note.id)).length);
+  // Deleting a little at a time, as autosave would while the text is cleared
+  const long = await storage.createNote({ userId: user.id, title: "Long week", content: "x".repeat(1000) });
+  for (const length of [600, 300, 0]) {
+    await storage.updateNote(long.id, { content: "x".repeat(length) });
+  }
+  expectEqual("stepwise deletion keeps the text it cut", [0, 300, 600],
+    (await storage.getNoteRevisions(long.id)).map(revision => revision.content.length));
+  expectEqual("deleting the goal succeeds", true, await storage.deleteGoal(goal.id));
+
+  console.log("\n4. An unreachable database fails requests, not the process...");
+  const closed = new PGlite();
+  await closed.close();
+  const unreachable = createStorage(closed);
+  // As at startup, nothing waits on the seeding until a request comes in
+  await new Promise(resolve => setTimeout(resolve, 100));
+  await expectRejects("category request reports the failure", () => unreachable.getCategories());
+
+  await client.close();
+}
+
+main().then(() => {
+  if (failures !== 0) {
+    console.log(`\n${failures} failure(s)`);
+    process.exit(1);
+  }
+}, (error) => {
+  console.error(error);
+  process.exit(1);
+});
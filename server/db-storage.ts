@@ -0,0 +1,1334 @@
+import type session from "express-session";
+import { and, asc, desc, eq, gte, ilike, inArray, isNotNull, isNull, lt, ne, or, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import {
+  users, type User, type InsertUser, type UserSettings,
+  goals, type Goal, type InsertGoal,
+  progressLogs, type ProgressLog, type InsertProgressLog, type ProgressLogUpdate,
+  categories, type Category, type InsertCategory,
+  milestones, type Milestone,
+  goalPeriods, type GoalPeriod,
+  actionItems, type ActionItem, type InsertActionItem, type ActionItemUpdate, type ActionItemWithGoal,
+  pointsLedger, type PointsLedgerEntryWithGoal, type PointEvent,
+  badges, type Badge, type InsertBadge,
+  notes, type Note, type InsertNote, type NoteUpdate, type NoteQuery, type NotePage,
+  noteGoals, noteProgressLogs, type NoteLinks, type NoteWithLinks,
+  noteRevisions, type NoteRevision,
+  noteTemplates, type NoteTemplate, type InsertNoteTemplate, type NoteTemplateUpdate,
+  type GoalWithCategory,
+  type DashboardStats,
+  type AnalyticsQuery,
+  type SearchQuery,
+  defaultCategories
+} from "@shared/schema";
+import { computeCurrentValue, getBaselineValue, isGoalComplete } from "@shared/goal-progress";
+import {
+  computePeriodValue,
+  getPeriodStart,
+  isRecurring,
+  summarizeClosedPeriods
+} from "@shared/recurrence";
+import { needsActionItem, planActionItem } from "@shared/action-plan";
+import { computeRollUp } from "@shared/goal-tree";
+import { getEventPoints, getLevel } from "@shared/points";
+import { computeAchievementStats, getMetAchievements, type AchievementStats } from "@shared/achievements";
+import { computeUserStreaks, type UserStreaks } from "@shared/streaks";
+import { computeAnalytics, type Analytics } from "@shared/analytics";
+import { forecastGoal, type GoalForecast } from "@shared/forecast";
+import { getSearchTerms, search, type SearchResults } from "@shared/search";
+import { defaultNoteTemplates } from "@shared/reflections";
+import { revisionRules, startsNewRevision } from "@shared/note-revisions";
+import { DEFAULT_TIME_ZONE, addDaysInZone, startOfDayInZone } from "@shared/timezone";
+import type { Database } from "./db";
+import type { IStorage } from "./storage";
+
+function withCategory(row: { goal: Goal; category: Category | null }): GoalWithCategory {
+  return { ...row.goal, category: row.category ?? undefined };
+}
+
+/**
+ * PostgreSQL-backed storage using Drizzle.
+ *
+ * Mirrors the behaviour of MemStorage (action item generation, points and
+ * badges) but runs every multi-row write inside a transaction.
+ */
+export class DbStorage implements IStorage {
+  private seeded: Promise<void> | null = null;
+
+  constructor(private db: Database, public sessionStore: session.Store) {
+    // Seed up front, but leave reporting a failure (say, the database being
+    // unreachable at startup) to the category operations that wait on it
+    this.seedDefaultCategories().catch(() => {});
+  }
+
+  // Retried on the next category operation if it failed
+  private seedDefaultCategories(): Promise<void> {
+    this.seeded ??= this.db
+      .insert(categories)
+      .values(defaultCategories)
+      .onConflictDoNothing({ target: categories.name })
+      .then(() => {}, (error) => {
+        this.seeded = null;
+        throw error;
+      });
+    return this.seeded;
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserSettings(userId: number, settings: UserSettings): Promise<User> {
+    const [user] = await this.db.update(users).set(settings).where(eq(users.id, userId)).returning();
+    if (!user) throw new Error('User not found');
+    return user;
+  }
+
+  // The zone the user's days are counted in
+  private async getTimeZone(db: Database, userId: number): Promise<string> {
+    const [user] = await db.select({ timeZone: users.timeZone }).from(users).where(eq(users.id, userId));
+    return user?.timeZone ?? DEFAULT_TIME_ZONE;
+  }
+
+  // Goal operations
+  async getGoals(userId: number): Promise<GoalWithCategory[]> {
+    const rows = await this.db
+      .select({ goal: goals, category: categories })
+      .from(goals)
+      .leftJoin(categories, eq(goals.categoryId, categories.id))
+      .where(and(eq(goals.userId, userId), isNull(goals.deletedAt)))
+      .orderBy(asc(goals.id));
+    return rows.map(withCategory);
+  }
+
+  async getDeletedGoals(userId: number): Promise<GoalWithCategory[]> {
+    // Sub-goals trashed along with their parent are restored through it
+    const parentGoals = alias(goals, "parent_goals");
+    const rows = await this.db
+      .select({ goal: goals, category: categories })
+      .from(goals)
+      .leftJoin(categories, eq(goals.categoryId, categories.id))
+      .leftJoin(parentGoals, eq(goals.parentGoalId, parentGoals.id))
+      .where(and(eq(goals.userId, userId), isNotNull(goals.deletedAt), isNull(parentGoals.deletedAt)))
+      .orderBy(desc(goals.deletedAt));
+    return rows.map(withCategory);
+  }
+
+  async getGoal(id: number): Promise<GoalWithCategory | undefined> {
+    const [row] = await this.db
+      .select({ goal: goals, category: categories })
+      .from(goals)
+      .leftJoin(categories, eq(goals.categoryId, categories.id))
+      .where(eq(goals.id, id));
+    return row ? withCategory(row) : undefined;
+  }
+
+  async createGoal(goal: InsertGoal, milestoneTitles: string[] = []): Promise<Goal> {
+    return this.db.transaction(async (tx) => {
+      const goalType = goal.goalType ?? 'cumulative';
+      const startValue = goal.startValue ?? null;
+      const recurrence = goal.recurrence ?? 'none';
+      const parentGoalId = goal.parentGoalId ?? null;
+      let position = 0;
+      if (parentGoalId !== null) {
+        const [{ nextPosition }] = await tx
+          .select({ nextPosition: sql<number>`coalesce(max(${goals.position}) + 1, 0)`.mapWith(Number) })
+          .from(goals)
+          .where(eq(goals.parentGoalId, parentGoalId));
+        position = nextPosition;
+      }
+      const [newGoal] = await tx
+        .insert(goals)
+        .values({
+          ...goal,
+          goalType,
+          startValue,
+          recurrence,
+          periodStart: recurrence === 'none'
+            ? null
+            : getPeriodStart(recurrence, new Date(), await this.getTimeZone(tx, goal.userId)),
+          parentGoalId,
+          position,
+          targetValue: goalType === 'checklist' ? milestoneTitles.length : goal.targetValue,
+          currentValue: getBaselineValue({ goalType, startValue, targetValue: goal.targetValue }),
+        })
+        .returning();
+
+      if (goalType === 'checklist' && milestoneTitles.length > 0) {
+        await tx.insert(milestones).values(
+          milestoneTitles.map((title, position) => ({ goalId: newGoal.id, title, position }))
+        );
+      }
+
+      // Start the goal off with today's action item
+      await this.generateActionItem(tx, newGoal, newGoal.createdAt);
+
+      // The parent now has one more sub-goal to share its progress with
+      if (parentGoalId !== null) {
+        await this.recalculateGoalProgress(tx, parentGoalId);
+      }
+
+      await this.unlockAchievements(tx, newGoal.userId);
+      return newGoal;
+    });
+  }
+
+  async updateGoal(id: number, updates: Partial<Goal>): Promise<Goal> {
+    const [goal] = await this.db.update(goals).set(updates).where(eq(goals.id, id)).returning();
+    if (!goal) throw new Error('Goal not found');
+    return goal;
+  }
+
+  async deleteGoal(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Trash live sub-goals with the same timestamp so they can be restored together
+      const deletedAt = new Date();
+      const [goal] = await tx
+        .update(goals)
+        .set({ deletedAt })
+        .where(eq(goals.id, id))
+        .returning();
+      if (!goal) return false;
+
+      const descendantIds = await this.getDescendantIds(tx, id);
+      if (descendantIds.length > 0) {
+        await tx
+          .update(goals)
+          .set({ deletedAt })
+          .where(and(inArray(goals.id, descendantIds), isNull(goals.deletedAt)));
+      }
+
+      if (goal.parentGoalId !== null) {
+        await this.recalculateGoalProgress(tx, goal.parentGoalId);
+      }
+      return true;
+    });
+  }
+
+  async restoreGoal(id: number): Promise<Goal> {
+    return this.db.transaction(async (tx) => {
+      const [goal] = await tx.select().from(goals).where(eq(goals.id, id));
+      if (!goal) throw new Error('Goal not found');
+
+      const descendantIds = await this.getDescendantIds(tx, id);
+      if (descendantIds.length > 0 && goal.deletedAt) {
+        await tx
+          .update(goals)
+          .set({ deletedAt: null })
+          .where(and(inArray(goals.id, descendantIds), eq(goals.deletedAt, goal.deletedAt)));
+      }
+
+      // A sub-goal whose parent is still in the trash comes back at the top level
+      const [parent] = goal.parentGoalId !== null
+        ? await tx.select().from(goals).where(eq(goals.id, goal.parentGoalId))
+        : [];
+      const parentIsLive = parent !== undefined && parent.deletedAt === null;
+      const [restoredGoal] = await tx
+        .update(goals)
+        .set(parentIsLive ? { deletedAt: null } : { deletedAt: null, parentGoalId: null })
+        .where(eq(goals.id, id))
+        .returning();
+
+      if (parentIsLive) {
+        await this.recalculateGoalProgress(tx, parent.id);
+      }
+      return restoredGoal;
+    });
+  }
+
+  async purgeGoal(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Cascade to sub-goals and everything hanging off each goal
+      const goalIds = [id, ...await this.getDescendantIds(tx, id)];
+      await tx.delete(noteProgressLogs).where(inArray(
+        noteProgressLogs.progressLogId,
+        tx.select({ id: progressLogs.id }).from(progressLogs).where(inArray(progressLogs.goalId, goalIds))
+      ));
+      await tx.delete(noteGoals).where(inArray(noteGoals.goalId, goalIds));
+      await tx.delete(progressLogs).where(inArray(progressLogs.goalId, goalIds));
+      await tx.delete(milestones).where(inArray(milestones.goalId, goalIds));
+      await tx.delete(goalPeriods).where(inArray(goalPeriods.goalId, goalIds));
+      await tx.delete(actionItems).where(inArray(actionItems.goalId, goalIds));
+      const deleted = await tx.delete(goals).where(inArray(goals.id, goalIds)).returning({ id: goals.id });
+      return deleted.some(goal => goal.id === id);
+    });
+  }
+
+  /**
+   * Ids of every goal below this one, trashed or not
+   */
+  private async getDescendantIds(db: Database, id: number): Promise<number[]> {
+    const descendants: number[] = [];
+    let frontier = [id];
+    while (frontier.length > 0) {
+      const children = await db
+        .select({ id: goals.id })
+        .from(goals)
+        .where(inArray(goals.parentGoalId, frontier));
+      frontier = children.map(child => child.id);
+      descendants.push(...frontier);
+    }
+    return descendants;
+  }
+
+  // Goal trees
+  async getSubGoals(goalId: number): Promise<Goal[]> {
+    return this.db
+      .select()
+      .from(goals)
+      .where(and(eq(goals.parentGoalId, goalId), isNull(goals.deletedAt)))
+      .orderBy(asc(goals.position), asc(goals.id));
+  }
+
+  async refreshGoalProgress(goalId: number): Promise<Goal | undefined> {
+    return this.db.transaction((tx) => this.recalculateGoalProgress(tx, goalId));
+  }
+
+  async reorderSubGoals(goalId: number, orderedIds: number[]): Promise<Goal[]> {
+    await this.db.transaction(async (tx) => {
+      for (let position = 0; position < orderedIds.length; position++) {
+        const id = orderedIds[position];
+        await tx
+          .update(goals)
+          .set({ position })
+          .where(and(eq(goals.id, id), eq(goals.parentGoalId, goalId)));
+      }
+    });
+    return this.getSubGoals(goalId);
+  }
+
+  // Category operations
+  async getCategories(): Promise<Category[]> {
+    await this.seedDefaultCategories();
+    return this.db.select().from(categories).orderBy(asc(categories.id));
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    await this.seedDefaultCategories();
+    const [category] = await this.db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
+  async createCategory(category: InsertCategory): Promise<Category> {
+    await this.seedDefaultCategories();
+    const [newCategory] = await this.db.insert(categories).values(category).returning();
+    return newCategory;
+  }
+
+  // Progress operations
+  async getProgressLogs(goalId: number): Promise<ProgressLog[]> {
+    return this.db
+      .select()
+      .from(progressLogs)
+      .where(eq(progressLogs.goalId, goalId))
+      .orderBy(asc(progressLogs.date), asc(progressLogs.id));
+  }
+
+  async createProgressLog(log: InsertProgressLog): Promise<ProgressLog> {
+    return this.db.transaction((tx) => this.insertProgressLog(tx, log));
+  }
+
+  // Shared with action items, which log their quantity when completed
+  private async insertProgressLog(db: Database, log: InsertProgressLog): Promise<ProgressLog> {
+    const [newLog] = await db
+      .insert(progressLogs)
+      .values({ ...log, date: log.date ?? new Date(), notes: log.notes ?? null })
+      .returning();
+
+    // Update the goal's current value; completing it awards more points and a badge
+    const goal = await this.recalculateGoalProgress(db, log.goalId);
+    if (goal) {
+      // Award points for logging progress
+      await this.addPoints(db, goal.userId, 'progress_logged', { goalId: goal.id });
+      await this.unlockAchievements(db, goal.userId);
+    }
+
+    return newLog;
+  }
+
+  async getProgressLog(id: number): Promise<ProgressLog | undefined> {
+    const [log] = await this.db.select().from(progressLogs).where(eq(progressLogs.id, id));
+    return log;
+  }
+
+  async updateProgressLog(id: number, changes: ProgressLogUpdate): Promise<ProgressLog> {
+    return this.db.transaction(async (tx) => {
+      const [log] = await tx.update(progressLogs).set(changes).where(eq(progressLogs.id, id)).returning();
+      if (!log) throw new Error('Progress log not found');
+
+      await this.recalculateGoalProgress(tx, log.goalId);
+      return log;
+    });
+  }
+
+  async deleteProgressLog(id: number): Promise<boolean> {
+    return this.db.transaction((tx) => this.removeProgressLog(tx, id));
+  }
+
+  private async removeProgressLog(db: Database, id: number): Promise<boolean> {
+    const [log] = await db.delete(progressLogs).where(eq(progressLogs.id, id)).returning();
+    if (!log) return false;
+    await db.delete(noteProgressLogs).where(eq(noteProgressLogs.progressLogId, id));
+
+    const goal = await this.recalculateGoalProgress(db, log.goalId);
+    if (goal) {
+      // Take back the points awarded for logging the entry
+      await this.addPoints(db, goal.userId, 'progress_logged', { goalId: goal.id, revoke: true });
+    }
+    return true;
+  }
+
+  /**
+   * Recompute a goal's total from its logs, or from its sub-goals if it has
+   * any, keeping the "Goal Achieved" badge and its points in step with
+   * whether the goal is now complete. The change rolls up to the goal's parent.
+   */
+  private async recalculateGoalProgress(db: Database, goalId: number): Promise<Goal | undefined> {
+    // Lock the goal row first so the sum includes any log committed before us
+    const [goal] = await db.select().from(goals).where(eq(goals.id, goalId)).for('update');
+    if (!goal) return undefined;
+
+    const logs = await db
+      .select({ value: progressLogs.value, date: progressLogs.date })
+      .from(progressLogs)
+      .where(eq(progressLogs.goalId, goalId))
+      .orderBy(asc(progressLogs.date), asc(progressLogs.id));
+    if (isRecurring(goal)) {
+      return this.recalculateRecurringGoal(db, goal, logs);
+    }
+
+    const subGoals = await db
+      .select()
+      .from(goals)
+      .where(and(eq(goals.parentGoalId, goalId), isNull(goals.deletedAt)));
+    let currentValue: number;
+    let completed: boolean;
+    if (subGoals.length > 0) {
+      ({ currentValue, completed } = computeRollUp(goal, subGoals));
+    } else {
+      const [{ completedMilestones }] = await db
+        .select({ completedMilestones: sql<number>`count(*) filter (where ${milestones.completed})`.mapWith(Number) })
+        .from(milestones)
+        .where(eq(milestones.goalId, goalId));
+      currentValue = computeCurrentValue(goal, logs, completedMilestones);
+      completed = isGoalComplete(goal, currentValue);
+    }
+
+    const [updatedGoal] = await db
+      .update(goals)
+      .set({ currentValue, completed })
+      .where(eq(goals.id, goalId))
+      .returning();
+
+    if (completed && !goal.completed) {
+      await this.addPoints(db, goal.userId, 'goal_completed', { goalId });
+      await db.insert(badges).values({
+        userId: goal.userId,
+        name: "Goal Achieved",
+        description: `Completed "${goal.description}"`,
+        goalId
+      });
+      await this.unlockAchievements(db, goal.userId);
+    } else if (!completed && goal.completed) {
+      // Goals completed by hand never earned the badge, so only revoke what exists
+      const revoked = await db
+        .delete(badges)
+        .where(and(eq(badges.goalId, goalId), eq(badges.name, "Goal Achieved")))
+        .returning({ id: badges.id });
+      if (revoked.length > 0) {
+        await this.addPoints(db, goal.userId, 'goal_completed', { goalId, revoke: true });
+      }
+    }
+
+    if (goal.parentGoalId !== null) {
+      await this.recalculateGoalProgress(db, goal.parentGoalId);
+    }
+    return updatedGoal;
+  }
+
+  /**
+   * Bring a recurring goal's period history up to date and reset its current
+   * value to this period's logs. Recurring goals never complete as a whole,
+   * so they earn no completion bonus or badge. Expects the goal row locked.
+   */
+  private async recalculateRecurringGoal(
+    db: Database,
+    goal: Goal,
+    logs: Pick<ProgressLog, "value" | "date">[]
+  ): Promise<Goal> {
+    const now = new Date();
+    const timeZone = await this.getTimeZone(db, goal.userId);
+    const existing = await db.select().from(goalPeriods).where(eq(goalPeriods.goalId, goal.id));
+    const recorded = new Map(existing.map(period => [period.periodStart.getTime(), period]));
+
+    // Backdated or corrected logs can change periods that already closed
+    for (const summary of summarizeClosedPeriods(goal, logs, timeZone, now)) {
+      const period = recorded.get(summary.periodStart.getTime());
+      const targetValue = period?.targetValue ?? goal.targetValue;
+      const met = summary.achievedValue >= targetValue;
+
+      if (!period) {
+        await db.insert(goalPeriods).values({ goalId: goal.id, ...summary, targetValue, met });
+      } else if (period.achievedValue !== summary.achievedValue || period.met !== met) {
+        await db
+          .update(goalPeriods)
+          .set({ achievedValue: summary.achievedValue, met })
+          .where(eq(goalPeriods.id, period.id));
+      }
+    }
+
+    const [updatedGoal] = await db
+      .update(goals)
+      .set({
+        currentValue: computePeriodValue(goal, logs, timeZone, now),
+        completed: false,
+        periodStart: getPeriodStart(goal.recurrence, now, timeZone)
+      })
+      .where(eq(goals.id, goal.id))
+      .returning();
+    return updatedGoal;
+  }
+
+  async getGoalPeriods(goalId: number): Promise<GoalPeriod[]> {
+    return this.db
+      .select()
+      .from(goalPeriods)
+      .where(eq(goalPeriods.goalId, goalId))
+      .orderBy(asc(goalPeriods.periodStart));
+  }
+
+  async rolloverRecurringGoals(userId: number): Promise<void> {
+    const recurringGoals = await this.db
+      .select({ id: goals.id })
+      .from(goals)
+      .where(and(
+        eq(goals.userId, userId),
+        isNull(goals.deletedAt),
+        eq(goals.archived, false),
+        ne(goals.recurrence, 'none')
+      ));
+    const timeZone = await this.getTimeZone(this.db, userId);
+
+    for (const { id } of recurringGoals) {
+      await this.db.transaction(async (tx) => {
+        // Lock the goal so concurrent requests don't record a period twice
+        const [goal] = await tx.select().from(goals).where(eq(goals.id, id)).for('update');
+        if (!goal) return;
+
+        if (!goal.periodStart || goal.periodStart < getPeriodStart(goal.recurrence, new Date(), timeZone)) {
+          const logs = await tx
+            .select({ value: progressLogs.value, date: progressLogs.date })
+            .from(progressLogs)
+            .where(eq(progressLogs.goalId, id))
+            .orderBy(asc(progressLogs.date), asc(progressLogs.id));
+          await this.recalculateRecurringGoal(tx, goal, logs);
+        }
+      });
+    }
+  }
+
+  // Forecasts
+  async getGoalForecasts(userId: number): Promise<GoalForecast[]> {
+    return this.forecastGoals(userId, await this.getGoals(userId));
+  }
+
+  async getGoalForecast(goalId: number): Promise<GoalForecast | undefined> {
+    const [goal] = await this.db.select().from(goals).where(eq(goals.id, goalId));
+    if (!goal) return undefined;
+    const [forecast] = await this.forecastGoals(goal.userId, [goal]);
+    return forecast;
+  }
+
+  // Both of the above, so a goal's forecast is the same either way
+  private async forecastGoals(userId: number, forecastedGoals: Goal[]): Promise<GoalForecast[]> {
+    if (forecastedGoals.length === 0) return [];
+    const goalIds = forecastedGoals.map(goal => goal.id);
+    const [logs, completedMilestones, parents, timeZone] = await Promise.all([
+      this.db
+        .select({ goalId: progressLogs.goalId, value: progressLogs.value, date: progressLogs.date })
+        .from(progressLogs)
+        .where(inArray(progressLogs.goalId, goalIds))
+        .orderBy(asc(progressLogs.date), asc(progressLogs.id)),
+      this.db
+        .select({ goalId: milestones.goalId, completedAt: milestones.completedAt })
+        .from(milestones)
+        .where(and(inArray(milestones.goalId, goalIds), isNotNull(milestones.completedAt))),
+      // Which of the goals have sub-goals outside the trash
+      this.db
+        .selectDistinct({ id: goals.parentGoalId })
+        .from(goals)
+        .where(and(inArray(goals.parentGoalId, goalIds), isNull(goals.deletedAt))),
+      this.getTimeZone(this.db, userId),
+    ]);
+    const parentIds = new Set(parents.map(parent => parent.id));
+
+    return forecastedGoals.map(goal => forecastGoal({
+      goal,
+      logs: logs.filter(log => log.goalId === goal.id),
+      milestoneCompletions: completedMilestones
+        .filter(milestone => milestone.goalId === goal.id)
+        .map(milestone => milestone.completedAt!),
+      hasSubGoals: parentIds.has(goal.id),
+      timeZone,
+    }));
+  }
+
+  // Milestones
+  async getMilestones(goalId: number): Promise<Milestone[]> {
+    return this.db
+      .select()
+      .from(milestones)
+      .where(eq(milestones.goalId, goalId))
+      .orderBy(asc(milestones.position), asc(milestones.id));
+  }
+
+  async getMilestone(id: number): Promise<Milestone | undefined> {
+    const [milestone] = await this.db.select().from(milestones).where(eq(milestones.id, id));
+    return milestone;
+  }
+
+  async updateMilestone(id: number, completed: boolean): Promise<Milestone> {
+    return this.db.transaction(async (tx) => {
+      const [milestone] = await tx.select().from(milestones).where(eq(milestones.id, id)).for('update');
+      if (!milestone) throw new Error('Milestone not found');
+      if (milestone.completed === completed) return milestone;
+
+      const [updatedMilestone] = await tx
+        .update(milestones)
+        .set({ completed, completedAt: completed ? new Date() : null })
+        .where(eq(milestones.id, id))
+        .returning();
+
+      const goal = await this.recalculateGoalProgress(tx, milestone.goalId);
+      if (goal) {
+        await this.addPoints(tx, goal.userId, 'milestone_completed', { goalId: goal.id, revoke: !completed });
+      }
+      return updatedMilestone;
+    });
+  }
+
+  async createMilestone(goalId: number, title: string): Promise<Milestone> {
+    return this.db.transaction(async (tx) => {
+      const [{ count, nextPosition }] = await tx
+        .select({
+          count: sql<number>`count(*)`.mapWith(Number),
+          nextPosition: sql<number>`coalesce(max(${milestones.position}) + 1, 0)`.mapWith(Number),
+        })
+        .from(milestones)
+        .where(eq(milestones.goalId, goalId));
+      const [milestone] = await tx
+        .insert(milestones)
+        .values({ goalId, title, position: nextPosition })
+        .returning();
+
+      // A checklist's target is its number of milestones
+      await tx.update(goals).set({ targetValue: count + 1 }).where(eq(goals.id, goalId));
+      await this.recalculateGoalProgress(tx, goalId);
+      return milestone;
+    });
+  }
+
+  async deleteMilestone(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [milestone] = await tx.delete(milestones).where(eq(milestones.id, id)).returning();
+      if (!milestone) return false;
+
+      await tx
+        .update(goals)
+        .set({ targetValue: sql`(select count(*) from ${milestones} where ${milestones.goalId} = ${milestone.goalId})` })
+        .where(eq(goals.id, milestone.goalId));
+      const goal = await this.recalculateGoalProgress(tx, milestone.goalId);
+      if (goal && milestone.completed) {
+        await this.addPoints(tx, goal.userId, 'milestone_completed', { goalId: goal.id, revoke: true });
+      }
+      return true;
+    });
+  }
+
+  async reorderMilestones(goalId: number, orderedIds: number[]): Promise<Milestone[]> {
+    await this.db.transaction(async (tx) => {
+      for (let position = 0; position < orderedIds.length; position++) {
+        const id = orderedIds[position];
+        await tx
+          .update(milestones)
+          .set({ position })
+          .where(and(eq(milestones.id, id), eq(milestones.goalId, goalId)));
+      }
+    });
+    return this.getMilestones(goalId);
+  }
+
+  // Action Items
+  async getActionItems(userId: number, date?: Date): Promise<ActionItemWithGoal[]> {
+    const conditions = [
+      eq(actionItems.userId, userId),
+      or(isNull(actionItems.goalId), isNull(goals.deletedAt)),
+    ];
+
+    // Filter by date if provided
+    if (date) {
+      const timeZone = await this.getTimeZone(this.db, userId);
+      conditions.push(
+        gte(actionItems.date, startOfDayInZone(date, timeZone)),
+        lt(actionItems.date, addDaysInZone(date, 1, timeZone))
+      );
+    }
+
+    return this.selectActionItems(conditions, [asc(actionItems.position), asc(actionItems.id)]);
+  }
+
+  async getOverdueActionItems(userId: number, date: Date): Promise<ActionItemWithGoal[]> {
+    const dayStart = startOfDayInZone(date, await this.getTimeZone(this.db, userId));
+    return this.selectActionItems(
+      [
+        eq(actionItems.userId, userId),
+        or(isNull(actionItems.goalId), isNull(goals.deletedAt)),
+        eq(actionItems.custom, true),
+        eq(actionItems.completed, false),
+        lt(actionItems.date, dayStart),
+      ],
+      [asc(actionItems.date), asc(actionItems.position), asc(actionItems.id)]
+    );
+  }
+
+  // Action items with their goal's description and unit; `conditions` may refer to goals
+  private async selectActionItems(conditions: (SQL | undefined)[], order: SQL[]): Promise<ActionItemWithGoal[]> {
+    const rows = await this.db
+      .select({ item: actionItems, goalDescription: goals.description, goalUnit: goals.unit })
+      .from(actionItems)
+      .leftJoin(goals, eq(actionItems.goalId, goals.id))
+      .where(and(...conditions))
+      .orderBy(...order);
+
+    return rows.map(({ item, goalDescription, goalUnit }) => ({ ...item, goalDescription, goalUnit }));
+  }
+
+  async getActionItem(id: number): Promise<ActionItem | undefined> {
+    const [item] = await this.db.select().from(actionItems).where(eq(actionItems.id, id));
+    return item;
+  }
+
+  async createActionItem(item: InsertActionItem): Promise<ActionItem> {
+    return this.insertActionItem(this.db, item);
+  }
+
+  private async insertActionItem(db: Database, item: InsertActionItem): Promise<ActionItem> {
+    const date = item.date ?? new Date();
+    const timeZone = await this.getTimeZone(db, item.userId);
+    const [{ position }] = await db
+      .select({ position: sql<number>`coalesce(max(${actionItems.position}) + 1, 0)` })
+      .from(actionItems)
+      .where(and(
+        eq(actionItems.userId, item.userId),
+        gte(actionItems.date, startOfDayInZone(date, timeZone)),
+        lt(actionItems.date, addDaysInZone(date, 1, timeZone))
+      ));
+
+    const [newItem] = await db.insert(actionItems).values({ ...item, position: Number(position) }).returning();
+    return newItem;
+  }
+
+  async updateActionItem(id: number, changes: ActionItemUpdate): Promise<ActionItem> {
+    return this.db.transaction(async (tx) => {
+      const [item] = await tx.select().from(actionItems).where(eq(actionItems.id, id)).for('update');
+      if (!item) throw new Error('Action item not found');
+
+      const updates: Partial<ActionItem> = { ...changes };
+      const goalId = changes.goalId !== undefined ? changes.goalId : item.goalId;
+      const quantity = changes.quantity !== undefined ? changes.quantity : item.quantity;
+
+      // If completed, award points to the user and log the item's quantity
+      if (changes.completed && !item.completed) {
+        updates.completedAt = new Date();
+        await this.addPoints(tx, item.userId, 'action_item_completed', { goalId: item.goalId });
+        if (goalId !== null && quantity !== null) {
+          const log = await this.insertProgressLog(tx, { goalId, value: quantity, notes: changes.description ?? item.description });
+          updates.progressLogId = log.id;
+        }
+      } else if (changes.completed === false && item.completed) {
+        updates.completedAt = null;
+        await this.addPoints(tx, item.userId, 'action_item_completed', { goalId: item.goalId, revoke: true });
+        if (item.progressLogId !== null) {
+          await this.removeProgressLog(tx, item.progressLogId);
+          updates.progressLogId = null;
+        }
+      }
+
+      const [updatedItem] = await tx
+        .update(actionItems)
+        .set(updates)
+        .where(eq(actionItems.id, id))
+        .returning();
+      if (changes.completed && !item.completed) {
+        await this.unlockAchievements(tx, item.userId);
+      }
+      return updatedItem;
+    });
+  }
+
+  async deleteActionItem(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(actionItems)
+      .where(eq(actionItems.id, id))
+      .returning({ id: actionItems.id });
+    return deleted.length > 0;
+  }
+
+  async reorderActionItems(userId: number, orderedIds: number[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (let position = 0; position < orderedIds.length; position++) {
+        await tx
+          .update(actionItems)
+          .set({ position })
+          .where(and(eq(actionItems.id, orderedIds[position]), eq(actionItems.userId, userId)));
+      }
+    });
+  }
+
+  async generateActionItems(date: Date, userId?: number): Promise<ActionItem[]> {
+    const conditions = [isNull(goals.deletedAt), eq(goals.completed, false), eq(goals.archived, false)];
+    if (userId !== undefined) {
+      conditions.push(eq(goals.userId, userId));
+    }
+    const candidates = await this.db
+      .select({ id: goals.id })
+      .from(goals)
+      .where(and(...conditions))
+      .orderBy(asc(goals.id));
+
+    const created: ActionItem[] = [];
+    for (const { id } of candidates) {
+      const item = await this.db.transaction(async (tx) => {
+        // Lock the goal so concurrent runs can't both create the day's item
+        const [goal] = await tx.select().from(goals).where(eq(goals.id, id)).for('update');
+        return goal ? this.generateActionItem(tx, goal, date) : undefined;
+      });
+      if (item) created.push(item);
+    }
+    return created;
+  }
+
+  private async generateActionItem(db: Database, goal: Goal, date: Date): Promise<ActionItem | undefined> {
+    const [subGoal] = await db
+      .select({ id: goals.id })
+      .from(goals)
+      .where(and(eq(goals.parentGoalId, goal.id), isNull(goals.deletedAt)))
+      .limit(1);
+    const timeZone = await this.getTimeZone(db, goal.userId);
+    if (!needsActionItem(goal, subGoal !== undefined, date, timeZone)) return undefined;
+
+    const dayStart = startOfDayInZone(date, timeZone);
+    const [existing] = await db
+      .select({ id: actionItems.id })
+      .from(actionItems)
+      .where(and(
+        eq(actionItems.goalId, goal.id),
+        // Custom items linked to the goal don't count; they're the user's own plans
+        eq(actionItems.custom, false),
+        gte(actionItems.date, dayStart),
+        lt(actionItems.date, addDaysInZone(dayStart, 1, timeZone))
+      ))
+      .limit(1);
+    if (existing) return undefined;
+
+    const logs = await db
+      .select({ value: progressLogs.value, date: progressLogs.date })
+      .from(progressLogs)
+      .where(eq(progressLogs.goalId, goal.id))
+      .orderBy(asc(progressLogs.date), asc(progressLogs.id));
+    const goalMilestones = await db
+      .select({ title: milestones.title, completed: milestones.completed })
+      .from(milestones)
+      .where(eq(milestones.goalId, goal.id))
+      .orderBy(asc(milestones.position), asc(milestones.id));
+    const earlierItems = await db
+      .select({ completed: actionItems.completed, date: actionItems.date })
+      .from(actionItems)
+      .where(and(eq(actionItems.goalId, goal.id), eq(actionItems.custom, false), lt(actionItems.date, dayStart)))
+      .orderBy(desc(actionItems.date));
+    const plan = planActionItem(goal, logs, goalMilestones, date, timeZone, earlierItems);
+    if (!plan) return undefined;
+
+    return this.insertActionItem(db, { userId: goal.userId, goalId: goal.id, ...plan, date });
+  }
+
+  // Points
+  async awardPoints(
+    userId: number,
+    event: PointEvent,
+    options: { goalId?: number | null; revoke?: boolean } = {}
+  ): Promise<User> {
+    return this.db.transaction((tx) => this.addPoints(tx, userId, event, options));
+  }
+
+  // Awards made while logging progress, completing goals and the like join
+  // the caller's transaction
+  private async addPoints(
+    db: Database,
+    userId: number,
+    event: PointEvent,
+    { goalId = null, revoke = false }: { goalId?: number | null; revoke?: boolean } = {}
+  ): Promise<User> {
+    const points = getEventPoints(event, revoke);
+    await db.insert(pointsLedger).values({ userId, event, points, goalId });
+
+    // Adding in SQL locks the user row until the transaction ends, so no
+    // concurrent award can change the total the level is computed from
+    const [user] = await db
+      .update(users)
+      .set({ points: sql`${users.points} + ${points}` })
+      .where(eq(users.id, userId))
+      .returning();
+    if (!user) throw new Error('User not found');
+
+    const level = getLevel(user.points);
+    if (level === user.level) return user;
+    const [leveledUser] = await db.update(users).set({ level }).where(eq(users.id, userId)).returning();
+    return leveledUser;
+  }
+
+  async getPointsHistory(userId: number): Promise<PointsLedgerEntryWithGoal[]> {
+    const rows = await this.db
+      .select({ entry: pointsLedger, goalDescription: goals.description })
+      .from(pointsLedger)
+      .leftJoin(goals, eq(pointsLedger.goalId, goals.id))
+      .where(eq(pointsLedger.userId, userId))
+      .orderBy(desc(pointsLedger.createdAt), desc(pointsLedger.id));
+
+    return rows.map(({ entry, goalDescription }) => ({ ...entry, goalDescription }));
+  }
+
+  // Achievements
+  async getAchievementStats(userId: number): Promise<AchievementStats> {
+    return this.collectAchievementStats(this.db, userId);
+  }
+
+  private async collectAchievementStats(db: Database, userId: number): Promise<AchievementStats> {
+    const userGoals = await db
+      .select({ categoryId: goals.categoryId })
+      .from(goals)
+      .where(eq(goals.userId, userId));
+    const logs = await db
+      .select({ date: progressLogs.date })
+      .from(progressLogs)
+      .innerJoin(goals, eq(progressLogs.goalId, goals.id))
+      .where(eq(goals.userId, userId));
+    // Goals completed through their progress hold a "Goal Achieved" badge
+    const completions = await db
+      .select({ completedAt: badges.achievedAt, deadline: goals.deadline, categoryName: categories.name })
+      .from(badges)
+      .innerJoin(goals, eq(badges.goalId, goals.id))
+      .leftJoin(categories, eq(goals.categoryId, categories.id))
+      .where(and(eq(badges.userId, userId), eq(badges.name, "Goal Achieved")));
+    const [{ totalCategories }] = await db
+      .select({ totalCategories: sql<number>`count(*)`.mapWith(Number) })
+      .from(categories);
+
+    return computeAchievementStats({
+      goals: userGoals,
+      logDates: logs.map(log => log.date),
+      completedActionItemDates: await this.getCompletedActionItemDates(db, userId),
+      completions,
+      totalCategories,
+      timeZone: await this.getTimeZone(db, userId),
+    });
+  }
+
+  private async getCompletedActionItemDates(db: Database, userId: number): Promise<Date[]> {
+    const completed = await db
+      .select({ completedAt: actionItems.completedAt })
+      .from(actionItems)
+      .where(and(eq(actionItems.userId, userId), isNotNull(actionItems.completedAt)));
+    return completed.map(item => item.completedAt!);
+  }
+
+  // Award a badge for each achievement the user now qualifies for but
+  // hasn't unlocked yet
+  private async unlockAchievements(db: Database, userId: number): Promise<void> {
+    // Lock the user so concurrent events can't unlock the same achievement twice
+    await db.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update');
+    const earned = await db
+      .select({ achievementId: badges.achievementId })
+      .from(badges)
+      .where(and(eq(badges.userId, userId), isNotNull(badges.achievementId)));
+    const unlocked = new Set(earned.map(badge => badge.achievementId));
+
+    const newBadges = getMetAchievements(await this.collectAchievementStats(db, userId))
+      .filter(achievement => !unlocked.has(achievement.id))
+      .map(achievement => ({
+        userId,
+        name: achievement.title,
+        description: achievement.description,
+        achievementId: achievement.id,
+      }));
+    if (newBadges.length > 0) {
+      await db.insert(badges).values(newBadges);
+    }
+  }
+
+  // Streaks
+  async getStreaks(userId: number): Promise<UserStreaks> {
+    const activeGoals = await this.db
+      .select({ id: goals.id, description: goals.description })
+      .from(goals)
+      .where(and(eq(goals.userId, userId), isNull(goals.deletedAt)));
+    const logs = await this.db
+      .select({ goalId: progressLogs.goalId, date: progressLogs.date })
+      .from(progressLogs)
+      .innerJoin(goals, eq(progressLogs.goalId, goals.id))
+      .where(eq(goals.userId, userId));
+
+    return computeUserStreaks({
+      goals: activeGoals,
+      logs,
+      completedActionItemDates: await this.getCompletedActionItemDates(this.db, userId),
+      timeZone: await this.getTimeZone(this.db, userId),
+    });
+  }
+
+  // Analytics
+  async getAnalytics(userId: number, query: AnalyticsQuery): Promise<Analytics> {
+    const userGoals = await this.db
+      .select({
+        id: goals.id,
+        categoryId: goals.categoryId,
+        completed: goals.completed,
+        archived: goals.archived,
+        createdAt: goals.createdAt,
+        deadline: goals.deadline,
+        // Goals completed through their progress hold a "Goal Achieved" badge
+        completedAt: badges.achievedAt,
+      })
+      .from(goals)
+      .leftJoin(badges, and(eq(badges.goalId, goals.id), eq(badges.name, "Goal Achieved")))
+      .where(and(eq(goals.userId, userId), isNull(goals.deletedAt)))
+      .orderBy(asc(goals.id));
+    const logs = await this.db
+      .select({ goalId: progressLogs.goalId, date: progressLogs.date })
+      .from(progressLogs)
+      .innerJoin(goals, eq(progressLogs.goalId, goals.id))
+      .where(and(eq(goals.userId, userId), isNull(goals.deletedAt)));
+    const userNotes = await this.db.select().from(notes).where(eq(notes.userId, userId));
+
+    return computeAnalytics({
+      goals: userGoals,
+      logs,
+      notes: await this.withLinks(this.db, userNotes),
+      categories: await this.getCategories(),
+      timeZone: await this.getTimeZone(this.db, userId),
+    }, query);
+  }
+
+  // Search
+  async search(userId: number, query: SearchQuery): Promise<SearchResults> {
+    // Only rows containing every word are loaded; they are ranked in
+    // shared/search.ts
+    const patterns = getSearchTerms(query.q).map(term => `%${term.replace(/[\\%_]/g, '\\$&')}%`);
+    const [userGoals, logs, userNotes] = await Promise.all([
+      this.getGoals(userId),
+      this.db
+        .select({ id: progressLogs.id, goalId: progressLogs.goalId, notes: progressLogs.notes, date: progressLogs.date })
+        .from(progressLogs)
+        .innerJoin(goals, eq(progressLogs.goalId, goals.id))
+        .where(and(
+          eq(goals.userId, userId),
+          isNull(goals.deletedAt),
+          ...patterns.map(pattern => ilike(progressLogs.notes, pattern))
+        )),
+      this.db
+        .select()
+        .from(notes)
+        .where(and(
+          eq(notes.userId, userId),
+          ...patterns.map(pattern => or(ilike(notes.title, pattern), ilike(notes.content, pattern)))
+        ))
+    ]);
+
+    return search({ goals: userGoals, progressLogs: logs, notes: userNotes }, query);
+  }
+
+  // Badges
+  async getBadgesByUser(userId: number): Promise<Badge[]> {
+    return this.db
+      .select()
+      .from(badges)
+      .where(eq(badges.userId, userId))
+      .orderBy(desc(badges.achievedAt));
+  }
+
+  async createBadge(badge: InsertBadge): Promise<Badge> {
+    const [newBadge] = await this.db.insert(badges).values(badge).returning();
+    return newBadge;
+  }
+
+  // Dashboard
+  async getDashboardStats(userId: number): Promise<DashboardStats> {
+    const [counts] = await this.db
+      .select({
+        activeGoals: sql<number>`count(*) filter (where not ${goals.completed} and not ${goals.archived})`.mapWith(Number),
+        completedGoals: sql<number>`count(*) filter (where ${goals.completed})`.mapWith(Number),
+      })
+      .from(goals)
+      .where(and(eq(goals.userId, userId), isNull(goals.deletedAt)));
+    const user = await this.getUser(userId);
+
+    return {
+      activeGoals: counts?.activeGoals ?? 0,
+      completedGoals: counts?.completedGoals ?? 0,
+      pointsEarned: user?.points || 0
+    };
+  }
+
+  // Notes
+  async getNotes(userId: number, { q, goalId, page, pageSize }: NoteQuery): Promise<NotePage> {
+    const conditions: (SQL | undefined)[] = [eq(notes.userId, userId)];
+    if (q) {
+      // Match the text literally, wildcards included
+      const pattern = `%${q.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(or(ilike(notes.title, pattern), ilike(notes.content, pattern)));
+    }
+    if (goalId !== undefined) {
+      conditions.push(inArray(
+        notes.id,
+        this.db.select({ id: noteGoals.noteId }).from(noteGoals).where(eq(noteGoals.goalId, goalId))
+      ));
+    }
+    const where = and(...conditions);
+
+    const [rows, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(notes)
+        .where(where)
+        .orderBy(desc(notes.updatedAt), desc(notes.id))
+        .limit(pageSize)
+        .offset((page - 1) * pageSize),
+      this.db.select({ total: sql<number>`count(*)`.mapWith(Number) }).from(notes).where(where)
+    ]);
+
+    return { notes: await this.withLinks(this.db, rows), total, page, pageSize };
+  }
+
+  async getNote(id: number): Promise<NoteWithLinks | undefined> {
+    const [note] = await this.db.select().from(notes).where(eq(notes.id, id));
+    if (!note) return undefined;
+    const [withLinks] = await this.withLinks(this.db, [note]);
+    return withLinks;
+  }
+
+  async createNote(note: InsertNote, links?: NoteLinks): Promise<NoteWithLinks> {
+    return this.db.transaction(async (tx) => {
+      const [newNote] = await tx.insert(notes).values(note).returning();
+      if (links) await this.setNoteLinks(tx, newNote.id, links);
+      const [withLinks] = await this.withLinks(tx, [newNote]);
+      return withLinks;
+    });
+  }
+
+  async importNotes(imported: InsertNote[]): Promise<Note[]> {
+    if (imported.length === 0) return [];
+    return this.db.insert(notes).values(imported).returning();
+  }
+
+  async updateNote(id: number, changes: NoteUpdate): Promise<NoteWithLinks> {
+    return this.db.transaction(async (tx) => {
+      const { goalIds, progressLogIds, ...fields } = changes;
+      // Locked so overlapping saves record their revisions one at a time
+      const [before] = await tx.select().from(notes).where(eq(notes.id, id)).for('update');
+      if (!before) throw new Error('Note not found');
+
+      const [note] = await tx
+        .update(notes)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(eq(notes.id, id))
+        .returning();
+      await this.setNoteLinks(tx, id, { goalIds, progressLogIds });
+      await this.recordRevision(tx, before, note);
+      const [withLinks] = await this.withLinks(tx, [note]);
+      return withLinks;
+    });
+  }
+
+  async deleteNote(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await this.setNoteLinks(tx, id, { goalIds: [], progressLogIds: [] });
+      await tx.delete(noteRevisions).where(eq(noteRevisions.noteId, id));
+      const deleted = await tx
+        .delete(notes)
+        .where(eq(notes.id, id))
+        .returning({ id: notes.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Note revisions
+  async getNoteRevisions(noteId: number): Promise<NoteRevision[]> {
+    return this.db
+      .select()
+      .from(noteRevisions)
+      .where(eq(noteRevisions.noteId, noteId))
+      .orderBy(desc(noteRevisions.id));
+  }
+
+  async getNoteRevision(id: number): Promise<NoteRevision | undefined> {
+    const [revision] = await this.db.select().from(noteRevisions).where(eq(noteRevisions.id, id));
+    return revision;
+  }
+
+  async restoreNoteRevision(id: number): Promise<NoteWithLinks> {
+    return this.db.transaction(async (tx) => {
+      const [revision] = await tx.select().from(noteRevisions).where(eq(noteRevisions.id, id));
+      const [before] = revision
+        ? await tx.select().from(notes).where(eq(notes.id, revision.noteId)).for('update')
+        : [];
+      if (!revision || !before) throw new Error('Note revision not found');
+
+      const [note] = await tx
+        .update(notes)
+        .set({ title: revision.title, content: revision.content, updatedAt: new Date() })
+        .where(eq(notes.id, before.id))
+        .returning();
+      await this.recordRevision(tx, before, note, { startNew: true });
+      const [withLinks] = await this.withLinks(tx, [note]);
+      return withLinks;
+    });
+  }
+
+  // Saves `after` to the note's revisions; `before` becomes its first
+  // revision if it has none yet
+  private async recordRevision(db: Database, before: Note, after: Note, { startNew = false } = {}): Promise<void> {
+    if (before.title === after.title && before.content === after.content) return;
+
+    const addRevision = async ({ title, content, updatedAt }: Note) => {
+      const [revision] = await db
+        .insert(noteRevisions)
+        .values({ noteId: after.id, title, content, peakContentLength: content.length, createdAt: updatedAt, updatedAt })
+        .returning();
+      return revision;
+    };
+
+    let [latest] = await db
+      .select()
+      .from(noteRevisions)
+      .where(eq(noteRevisions.noteId, after.id))
+      .orderBy(desc(noteRevisions.id))
+      .limit(1);
+    if (!latest) latest = await addRevision(before);
+    if (startNew || startsNewRevision(latest, after, after.updatedAt)) {
+      await addRevision(after);
+    } else {
+      await db
+        .update(noteRevisions)
+        .set({
+          title: after.title,
+          content: after.content,
+          peakContentLength: Math.max(latest.peakContentLength, after.content.length),
+          updatedAt: after.updatedAt,
+        })
+        .where(eq(noteRevisions.id, latest.id));
+    }
+
+    const expired = await db
+      .select({ id: noteRevisions.id })
+      .from(noteRevisions)
+      .where(eq(noteRevisions.noteId, after.id))
+      .orderBy(desc(noteRevisions.id))
+      .offset(revisionRules.maxRevisions);
+    if (expired.length > 0) {
+      await db.delete(noteRevisions).where(inArray(noteRevisions.id, expired.map(revision => revision.id)));
+    }
+  }
+
+  private async withLinks(db: Database, rows: Note[]): Promise<NoteWithLinks[]> {
+    if (rows.length === 0) return [];
+    const noteIds = rows.map(note => note.id);
+    const [goalLinks, logLinks] = await Promise.all([
+      db.select().from(noteGoals).where(inArray(noteGoals.noteId, noteIds)).orderBy(asc(noteGoals.id)),
+      db.select().from(noteProgressLogs).where(inArray(noteProgressLogs.noteId, noteIds)).orderBy(asc(noteProgressLogs.id))
+    ]);
+
+    return rows.map(note => ({
+      ...note,
+      goalIds: goalLinks.filter(link => link.noteId === note.id).map(link => link.goalId),
+      progressLogIds: logLinks.filter(link => link.noteId === note.id).map(link => link.progressLogId)
+    }));
+  }
+
+  // Replaces whichever kinds of links are given
+  private async setNoteLinks(db: Database, noteId: number, { goalIds, progressLogIds }: Partial<NoteLinks>): Promise<void> {
+    if (goalIds) {
+      await db.delete(noteGoals).where(eq(noteGoals.noteId, noteId));
+      if (goalIds.length > 0) {
+        await db.insert(noteGoals).values(goalIds.map(goalId => ({ noteId, goalId })));
+      }
+    }
+    if (progressLogIds) {
+      await db.delete(noteProgressLogs).where(eq(noteProgressLogs.noteId, noteId));
+      if (progressLogIds.length > 0) {
+        await db.insert(noteProgressLogs).values(progressLogIds.map(progressLogId => ({ noteId, progressLogId })));
+      }
+    }
+  }
+
+  // Note templates
+  async getNoteTemplates(userId: number): Promise<NoteTemplate[]> {
+    await this.db.transaction(async (tx) => {
+      // Lock the user so concurrent first reads copy the defaults once
+      const [user] = await tx
+        .select({ seeded: users.noteTemplatesSeeded })
+        .from(users)
+        .where(eq(users.id, userId))
+        .for('update');
+      if (!user || user.seeded) return;
+
+      await tx.insert(noteTemplates).values(defaultNoteTemplates.map(template => ({ ...template, userId })));
+      await tx.update(users).set({ noteTemplatesSeeded: true }).where(eq(users.id, userId));
+    });
+
+    return this.db
+      .select()
+      .from(noteTemplates)
+      .where(eq(noteTemplates.userId, userId))
+      .orderBy(asc(noteTemplates.id));
+  }
+
+  async getNoteTemplate(id: number): Promise<NoteTemplate | undefined> {
+    const [template] = await this.db.select().from(noteTemplates).where(eq(noteTemplates.id, id));
+    return template;
+  }
+
+  async createNoteTemplate(template: InsertNoteTemplate): Promise<NoteTemplate> {
+    const [newTemplate] = await this.db.insert(noteTemplates).values(template).returning();
+    return newTemplate;
+  }
+
+  async updateNoteTemplate(id: number, changes: NoteTemplateUpdate): Promise<NoteTemplate> {
+    const [template] = await this.db
+      .update(noteTemplates)
+      .set(changes)
+      .where(eq(noteTemplates.id, id))
+      .returning();
+    if (!template) throw new Error('Note template not found');
+    return template;
+  }
+
+  async deleteNoteTemplate(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(noteTemplates)
+      .where(eq(noteTemplates.id, id))
+      .returning({ id: noteTemplates.id });
+    return deleted.length > 0;
+  }
+}
@@ -0,0 +1,30 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Any Drizzle PostgreSQL database (or transaction) DbStorage can run against.
+ * Typed against the pg-core base so tests can hand in a PGlite or node-postgres
+ * instance instead of the Neon pool used in production.
+ */
+export type Database = PgDatabase<PgQueryResultHKT>;
+
+/**
+ * Create a connection pool for the database at DATABASE_URL
+ */
+export function createPool(connectionString = process.env.DATABASE_URL): Pool {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set, ensure the database is provisioned");
+  }
+  return new Pool({ connectionString });
+}
+
+/**
+ * Wrap a connection pool in a Drizzle database instance
+ */
+export function createDb(pool: Pool): Database {
+  return drizzle({ client: pool });
+}
@@ -11,6 +11,7 @@ export enum ErrorCode {
   UNAUTHORIZED = 'UNAUTHORIZED',
   FORBIDDEN = 'FORBIDDEN',
   CONFLICT = 'CONFLICT',
+  PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE',
   INTERNAL_ERROR = 'INTERNAL_ERROR',
 }
 
@@ -115,6 +116,32 @@ export function notFoundError(resource: string): ApiError {
   };
 }
 
+/**
+ * Create an unauthorized error response (e.g., missing or expired session)
+ */
+export function unauthorizedError(message = 'Authentication required'): ApiError {
+  return {
+    error: {
+      code: ErrorCode.UNAUTHORIZED,
+      message,
+      documentationUrl: '/docs/api-errors#unauthorized',
+    }
+  };
+}
+
+/**
+ * Create a forbidden error response (authenticated, but not allowed)
+ */
+export function forbiddenError(message = 'You do not have access to this resource'): ApiError {
+  return {
+    error: {
+      code: ErrorCode.FORBIDDEN,
+      message,
+      documentationUrl: '/docs/api-errors#forbidden',
+    }
+  };
+}
+
 /**
  * Create a conflict error response (e.g., duplicate resource)
  */
@@ -128,6 +155,19 @@ export function conflictError(message: string): ApiError {
   };
 }
 
+/**
+ * Create a payload too large error response (request body over the limit)
+ */
+export function payloadTooLargeError(message = 'Request body is too large'): ApiError {
+  return {
+    error: {
+      code: ErrorCode.PAYLOAD_TOO_LARGE,
+      message,
+      documentationUrl: '/docs/api-errors#payload-too-large',
+    }
+  };
+}
+
 /**
  * Create a generic internal server error response
  */
@@ -151,6 +191,11 @@ export function errorMiddleware(err: any, req: Request, res: Response, next: Nex
     return res.status(400).json(formatZodError(err));
   }
   
+  // Raised by the JSON body parser before any route runs
+  if (err?.type === 'entity.too.large') {
+    return res.status(413).json(payloadTooLargeError());
+  }
+  
   // Default internal server error
   return res.status(500).json(internalError());
 }
\ No newline at end of file
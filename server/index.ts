@@ -1,9 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { startActionItemScheduler } from "./action-item-scheduler";
 
 const app = express();
-app.use(express.json());
+// Large enough for a note at its longest (see noteFormSchema); bigger bodies
+// are answered with a 413
+app.use(express.json({ limit: "1mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -65,5 +69,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startActionItemScheduler(storage);
   });
 })();
@@ -6,29 +6,259 @@ import fs from "fs";
 import { 
   insertGoalSchema, 
   insertProgressLogSchema, 
-  insertUserSchema,
   goalFormSchema,
-  progressLogFormSchema
+  goalUpdateSchema,
+  progressLogFormSchema,
+  progressLogUpdateSchema,
+  getProgressDateError,
+  getGoalTargetError,
+  milestoneUpdateSchema,
+  milestoneFormSchema,
+  reorderSchema,
+  actionItemDateQuerySchema,
+  actionItemFormSchema,
+  actionItemUpdateSchema,
+  userSettingsSchema,
+  analyticsQuerySchema,
+  searchQuerySchema,
+  noteFormSchema,
+  noteUpdateSchema,
+  noteImportSchema,
+  noteQuerySchema,
+  noteTemplateFormSchema,
+  noteTemplateUpdateSchema,
+  type ActionItem,
+  type Goal,
+  type GoalUpdate,
+  type NoteLinks,
+  type NoteWithLinks,
+  type NoteRevision,
+  type NoteTemplate
 } from "@shared/schema";
+import { getProgressValueError, isGoalComplete } from "@shared/goal-progress";
+import { getSubGoalError } from "@shared/goal-tree";
+import { describeAchievements } from "@shared/achievements";
 import { z } from "zod";
+import { isSameDayInZone, parseDateOnly, startOfDayInZone } from "@shared/timezone";
 import { 
   formatZodError, 
-  notFoundError, 
-  conflictError, 
   internalError, 
+  notFoundError,
+  conflictError,
   errorMiddleware 
 } from "./errorHandler";
+import { setupAuth, requireAuth, registerUser, toSafeUser } from "./auth";
+import {
+  authorizeGoal,
+  authorizeActionItem,
+  authorizeProgressLog,
+  authorizeMilestone,
+  authorizeNote,
+  authorizeNoteRevision,
+  authorizeNoteTemplate,
+  checkGoalAccess,
+  checkProgressLogAccess
+} from "./authorization";
 // Import debug API router with correct syntax for ESM
 import simplifiedDebugApiRouter from "./routes/simplified-debug-api";
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Middleware to check authentication
-  const requireAuth = (req: Request, res: Response, next: Function) => {
-    // For this MVP, we'll use a simple userId = 1 as a placeholder
-    // In a real application, this would be handled by proper auth middleware
-    req.body.userId = 1;
-    next();
+/**
+ * Turn a validated goal update into the columns to write.
+ *
+ * Completion is re-evaluated whenever the target changes, so lowering the
+ * target below the current value completes the goal and raising it reopens
+ * it. Completion points and badges are only awarded through logged progress,
+ * so editing the target can't be used to farm them.
+ */
+function toGoalChanges(goal: Goal, update: GoalUpdate): Partial<Goal> {
+  const { action, ...fields } = update;
+  const changes: Partial<Goal> = { ...fields };
+  
+  if (fields.targetValue !== undefined) {
+    changes.completed = isGoalComplete({ ...goal, targetValue: fields.targetValue }, goal.currentValue);
+  }
+  
+  switch (action) {
+    case 'archive':
+      changes.archived = true;
+      break;
+    case 'unarchive':
+      changes.archived = false;
+      break;
+    case 'complete':
+      changes.completed = true;
+      break;
+  }
+  
+  return changes;
+}
+
+/**
+ * Reject a new target the goal's type can't accept, as a validation error on
+ * the `targetValue` field. A checklist's target is its milestone count.
+ */
+function assertGoalTarget(goal: Goal, targetValue: number | undefined): void {
+  if (targetValue === undefined) return;
+  
+  const message = goal.goalType === 'checklist'
+    ? "A checklist goal's target is set by its milestones"
+    : getGoalTargetError({ ...goal, targetValue });
+  if (message) {
+    throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: ['targetValue'], message }]);
+  }
+}
+
+/**
+ * Read date-only strings ("2024-05-01") in the given fields of a request
+ * body or query as midnight in the user's time zone, ready for validation.
+ * Parsed as-is they would mean UTC midnight, which is still the previous
+ * day anywhere west of Greenwich. Other values are left for the schema.
+ */
+function withUserDates(input: unknown, fields: string[], timeZone: string): unknown {
+  if (typeof input !== 'object' || input === null) return input;
+  
+  const resolved: Record<string, unknown> = { ...input };
+  for (const field of fields) {
+    const value = resolved[field];
+    const date = typeof value === 'string' ? parseDateOnly(value, timeZone) : undefined;
+    if (date) resolved[field] = date;
+  }
+  return resolved;
+}
+
+/**
+ * Reject a progress value the goal's type can't accept, or a backdated date
+ * the goal can't accept, as validation errors on those fields
+ */
+function assertProgressEntry(
+  goal: Goal,
+  entry: { value?: number; date?: Date },
+  timeZone: string
+): void {
+  const issues: z.ZodIssue[] = [];
+  
+  const valueMessage = entry.value === undefined ? undefined : getProgressValueError(goal, entry.value);
+  if (valueMessage) {
+    issues.push({ code: z.ZodIssueCode.custom, path: ['value'], message: valueMessage });
+  }
+  
+  const dateMessage = entry.date && getProgressDateError(entry.date, goal.createdAt, timeZone);
+  if (dateMessage) {
+    issues.push({ code: z.ZodIssueCode.custom, path: ['date'], message: dateMessage });
+  }
+  
+  if (issues.length > 0) {
+    throw new z.ZodError(issues);
+  }
+}
+
+/**
+ * Reject placing a goal under `parentGoalId`, as a validation error on the
+ * `parentGoalId` field. The parent must be another live goal of the same user
+ * that can take sub-goals, has no progress logged directly against it and
+ * isn't the goal itself or one of its sub-goals.
+ */
+async function assertGoalParent(
+  userId: number,
+  parentGoalId: number,
+  child: Pick<Goal, "recurrence"> & { id?: number }
+): Promise<void> {
+  const fail = (message: string) => {
+    throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: ['parentGoalId'], message }]);
+  };
+  
+  const parent = await storage.getGoal(parentGoalId);
+  if (!parent || parent.userId !== userId || parent.deletedAt) {
+    return fail("Parent goal not found");
+  }
+  
+  const message = getSubGoalError(parent, child);
+  if (message) return fail(message);
+  
+  const subGoals = await storage.getSubGoals(parent.id);
+  if (subGoals.length === 0 && (await storage.getProgressLogs(parent.id)).length > 0) {
+    return fail("Goals with logged progress can't have sub-goals");
+  }
+  
+  for (let ancestor: Goal | undefined = parent; ancestor; ) {
+    if (ancestor.id === child.id) {
+      return fail("A goal can't be placed under itself or one of its sub-goals");
+    }
+    ancestor = ancestor.parentGoalId !== null ? await storage.getGoal(ancestor.parentGoalId) : undefined;
+  }
+}
+
+/**
+ * Reject a reorder request that doesn't list each of `existingIds` exactly
+ * once, as a validation error on the `ids` field
+ */
+function assertSameIds(ids: number[], existingIds: number[]): void {
+  const requested = new Set(ids);
+  if (requested.size !== ids.length || ids.length !== existingIds.length || !existingIds.every(id => requested.has(id))) {
+    throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: ['ids'], message: "Must list every item exactly once" }]);
+  }
+}
+
+/**
+ * Reject linking an action item to `goalId`, or having it log `quantity`
+ * there, as a validation error on that field. The goal must be a live goal of
+ * the user, and a quantity must be progress the goal can take directly.
+ */
+async function assertActionItemGoal(userId: number, goalId: number | null, quantity: number | null): Promise<void> {
+  const fail = (path: string, message: string) => {
+    throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: [path], message }]);
   };
+  
+  if (goalId === null) {
+    if (quantity !== null) fail('quantity', "Only items linked to a goal can log progress");
+    return;
+  }
+  
+  const goal = await storage.getGoal(goalId);
+  if (!goal || goal.userId !== userId || goal.deletedAt) {
+    return fail('goalId', "Goal not found");
+  }
+  if (quantity === null) return;
+  
+  const message = (await storage.getSubGoals(goal.id)).length > 0
+    ? "This goal's progress comes from its sub-goals"
+    : getProgressValueError(goal, quantity);
+  if (message) fail('quantity', message);
+}
+
+/**
+ * Check a note's links point at the user's own goals (outside the trash)
+ * and progress entries, and link the goal of each entry too. A ZodError
+ * names the first link that doesn't. Links the note already has are kept
+ * even if their goal has since been trashed.
+ */
+async function resolveNoteLinks(userId: number, links: NoteLinks, current?: NoteLinks): Promise<NoteLinks> {
+  const fail = (path: keyof NoteLinks, message: string): never => {
+    throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: [path], message }]);
+  };
+  
+  const progressLogIds = Array.from(new Set(links.progressLogIds));
+  const goalIds = new Set(links.goalIds);
+  for (const logId of progressLogIds) {
+    if (current?.progressLogIds.includes(logId)) {
+      const log = await storage.getProgressLog(logId);
+      if (log) goalIds.add(log.goalId);
+      continue;
+    }
+    const access = await checkProgressLogAccess(userId, logId);
+    if (!access.ok) return fail('progressLogIds', "Progress entry not found");
+    goalIds.add(access.resource.goalId);
+  }
+  for (const goalId of Array.from(goalIds)) {
+    if (current?.goalIds.includes(goalId)) continue;
+    if (!(await checkGoalAccess(userId, goalId)).ok) fail('goalIds', "Goal not found");
+  }
+  return { goalIds: Array.from(goalIds), progressLogIds };
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, passport and the /api/auth routes
+  setupAuth(app);
 
   // Register global error handler middleware
   app.use(errorMiddleware);
@@ -38,30 +268,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/debug', express.json({ strict: false }), simplifiedDebugApiRouter);
 
   // ==== User Routes ====
-  app.post('/api/users', async (req, res) => {
+  // Kept for backward compatibility; same behaviour as /api/auth/register
+  app.post('/api/users', registerUser);
+
+  app.patch('/api/users/me', requireAuth, async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
-      
-      // Check if user exists
-      const existingUser = await storage.getUserByUsername(userData.username);
-      if (existingUser) {
-        return res.status(409).json(conflictError("Username already exists"));
-      }
-      
-      const user = await storage.createUser(userData);
-      res.status(201).json(user);
+      const settings = userSettingsSchema.parse(req.body);
+      const user = await storage.updateUserSettings(req.user!.id, settings);
+      res.json(toSafeUser(user));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json(formatZodError(error));
       }
-      res.status(500).json(internalError("Failed to create user"));
+      res.status(500).json(internalError("Failed to update settings"));
     }
   });
 
   // ==== Goal Routes ====
   app.get('/api/goals', requireAuth, async (req, res) => {
     try {
-      const userId = req.body.userId;
+      const userId = req.user!.id;
+      // Close any periods of recurring goals that ended since the last visit
+      await storage.rolloverRecurringGoals(userId);
       const goals = await storage.getGoals(userId);
       res.json(goals);
     } catch (error) {
@@ -69,16 +297,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/goals/:id', requireAuth, async (req, res) => {
+  // Registered before /api/goals/:id so "trash" isn't taken for an id
+  app.get('/api/goals/trash', requireAuth, async (req, res) => {
     try {
-      const goalId = parseInt(req.params.id);
-      const goal = await storage.getGoal(goalId);
-      
-      if (!goal) {
-        return res.status(404).json(notFoundError("Goal"));
-      }
-      
-      res.json(goal);
+      const goals = await storage.getDeletedGoals(req.user!.id);
+      res.json(goals);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch deleted goals"));
+    }
+  });
+
+  // Every goal's forecast in one request, for the dashboard and goal cards;
+  // also registered before /api/goals/:id
+  app.get('/api/goals/forecasts', requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      // A recurring goal's progress only covers the current period once it has rolled over
+      await storage.rolloverRecurringGoals(userId);
+      const forecasts = await storage.getGoalForecasts(userId);
+      res.json(forecasts);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch goal forecasts"));
+    }
+  });
+
+  app.get('/api/goals/:id', requireAuth, authorizeGoal(), async (req, res) => {
+    try {
+      res.json(res.locals.goal);
     } catch (error) {
       res.status(500).json(internalError("Failed to fetch goal"));
     }
@@ -86,21 +331,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/goals', requireAuth, async (req, res) => {
     try {
-      const userId = req.body.userId;
+      const userId = req.user!.id;
       
       // Validate with Zod schema
-      const goalData = goalFormSchema.parse(req.body);
+      const goalData = goalFormSchema.parse(withUserDates(req.body, ['deadline'], req.user!.timeZone));
+      if (goalData.parentGoalId !== undefined) {
+        await assertGoalParent(userId, goalData.parentGoalId, goalData);
+      }
       
       // Create the goal
       const newGoal = await storage.createGoal({
         userId,
         description: goalData.description,
+        goalType: goalData.goalType,
+        startValue: goalData.startValue,
         targetValue: goalData.targetValue,
         unit: goalData.unit,
         deadline: goalData.deadline,
         categoryId: goalData.categoryId,
-        reminderFrequency: goalData.reminderFrequency
-      });
+        reminderFrequency: goalData.reminderFrequency,
+        recurrence: goalData.recurrence,
+        parentGoalId: goalData.parentGoalId,
+        weight: goalData.weight
+      }, goalData.milestones);
       
       res.status(201).json(newGoal);
     } catch (error) {
@@ -111,47 +364,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/goals/:id', requireAuth, async (req, res) => {
+  app.patch('/api/goals/:id', requireAuth, authorizeGoal(), async (req, res) => {
     try {
-      const goalId = parseInt(req.params.id);
-      const updates = req.body;
+      const goal: Goal = res.locals.goal;
       
-      // Validate goal exists
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        return res.status(404).json({ message: "Goal not found" });
+      // Only whitelisted fields get through; userId, currentValue etc. are rejected
+      const update = goalUpdateSchema.parse(withUserDates(req.body, ['deadline'], req.user!.timeZone));
+      assertGoalTarget(goal, update.targetValue);
+      if (update.parentGoalId != null && update.parentGoalId !== goal.parentGoalId) {
+        await assertGoalParent(req.user!.id, update.parentGoalId, goal);
       }
       
-      // Update the goal
-      const updatedGoal = await storage.updateGoal(goalId, updates);
+      let updatedGoal = await storage.updateGoal(goal.id, toGoalChanges(goal, update));
+      
+      // Keep rolled-up progress in step: a parent's value depends on its target,
+      // and its parents' on the weight, progress and place of each sub-goal
+      if (update.targetValue !== undefined && (await storage.getSubGoals(goal.id)).length > 0) {
+        updatedGoal = (await storage.refreshGoalProgress(goal.id)) ?? updatedGoal;
+      }
+      const parentIds = new Set([goal.parentGoalId, updatedGoal.parentGoalId]);
+      for (const parentId of Array.from(parentIds)) {
+        if (parentId !== null) await storage.refreshGoalProgress(parentId);
+      }
       res.json(updatedGoal);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update goal" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to update goal"));
+    }
+  });
+
+  app.delete('/api/goals/:id', requireAuth, authorizeGoal(), async (req, res) => {
+    try {
+      const goalId = res.locals.goal.id;
+      
+      // Move the goal to the trash; it can be restored or purged from there
+      await storage.deleteGoal(goalId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete goal" });
     }
   });
 
-  app.delete('/api/goals/:id', requireAuth, async (req, res) => {
+  app.post('/api/goals/:id/restore', requireAuth, authorizeGoal('id', { includeDeleted: true }), async (req, res) => {
     try {
-      const goalId = parseInt(req.params.id);
+      const goal: Goal = res.locals.goal;
+      if (!goal.deletedAt) {
+        return res.status(409).json(conflictError("Goal is not in the trash"));
+      }
       
-      // Validate goal exists
-      const goal = await storage.getGoal(goalId);
-      if (!goal) {
-        return res.status(404).json({ message: "Goal not found" });
+      const restoredGoal = await storage.restoreGoal(goal.id);
+      res.json(restoredGoal);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to restore goal"));
+    }
+  });
+
+  app.delete('/api/goals/:id/purge', requireAuth, authorizeGoal('id', { includeDeleted: true }), async (req, res) => {
+    try {
+      const goal: Goal = res.locals.goal;
+      // Only trashed goals can be purged, so a single click can't destroy a live goal
+      if (!goal.deletedAt) {
+        return res.status(409).json(conflictError("Goal must be moved to the trash before it can be permanently deleted"));
       }
       
-      // Delete the goal
-      await storage.deleteGoal(goalId);
+      // Removes the goal's progress logs and action items too; points and badges stay earned
+      await storage.purgeGoal(goal.id);
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete goal" });
+      res.status(500).json(internalError("Failed to permanently delete goal"));
     }
   });
 
   // ==== Progress Routes ====
-  app.get('/api/goals/:goalId/progress', requireAuth, async (req, res) => {
+  app.get('/api/goals/:goalId/progress', requireAuth, authorizeGoal('goalId'), async (req, res) => {
     try {
-      const goalId = parseInt(req.params.goalId);
+      const goalId = res.locals.goal.id;
       const progressLogs = await storage.getProgressLogs(goalId);
       res.json(progressLogs);
     } catch (error) {
@@ -159,9 +448,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/progress-logs/:goalId', requireAuth, async (req, res) => {
+  app.get('/api/progress-logs/:goalId', requireAuth, authorizeGoal('goalId'), async (req, res) => {
     try {
-      const goalId = parseInt(req.params.goalId);
+      const goalId = res.locals.goal.id;
       const progressLogs = await storage.getProgressLogs(goalId);
       res.json(progressLogs);
     } catch (error) {
@@ -172,15 +461,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/progress-logs', requireAuth, async (req, res) => {
     try {
       // Validate with Zod schema
-      const progressData = progressLogFormSchema.parse(req.body);
+      const progressData = progressLogFormSchema.parse(withUserDates(req.body, ['date'], req.user!.timeZone));
+      
+      // Only the goal's owner may log progress against it
+      const access = await checkGoalAccess(req.user!.id, progressData.goalId);
+      if (!access.ok) {
+        return res.status(access.status).json(access.error);
+      }
+      assertProgressEntry(access.resource, progressData, req.user!.timeZone);
+      if ((await storage.getSubGoals(access.resource.id)).length > 0) {
+        return res.status(409).json(conflictError("This goal's progress comes from its sub-goals"));
+      }
       
-      // Create the progress log
+      // Create the progress log, backdated if a date was given
       const newLog = await storage.createProgressLog({
         goalId: progressData.goalId,
         value: progressData.value,
         notes: progressData.notes,
-        // If date is provided in request, use it
-        ...(req.body.date && { date: new Date(req.body.date) })
+        date: progressData.date
       });
       
       res.status(201).json(newLog);
@@ -192,19 +490,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  app.patch('/api/progress-logs/:id', requireAuth, authorizeProgressLog(), async (req, res) => {
+    try {
+      const update = progressLogUpdateSchema.parse(withUserDates(req.body, ['date'], req.user!.timeZone));
+      
+      const goal = await storage.getGoal(res.locals.progressLog.goalId);
+      if (goal) {
+        assertProgressEntry(goal, update, req.user!.timeZone);
+      }
+      
+      // The goal's total and completion are recomputed from its logs
+      const updatedLog = await storage.updateProgressLog(res.locals.progressLog.id, update);
+      res.json(updatedLog);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to update progress log"));
+    }
+  });
+
+  app.delete('/api/progress-logs/:id', requireAuth, authorizeProgressLog(), async (req, res) => {
+    try {
+      await storage.deleteProgressLog(res.locals.progressLog.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json(internalError("Failed to delete progress log"));
+    }
+  });
+  
   // Keep the old endpoint for backward compatibility
   app.post('/api/progress', requireAuth, async (req, res) => {
     try {
       // Validate with Zod schema
-      const progressData = progressLogFormSchema.parse(req.body);
+      const progressData = progressLogFormSchema.parse(withUserDates(req.body, ['date'], req.user!.timeZone));
+      
+      // Only the goal's owner may log progress against it
+      const access = await checkGoalAccess(req.user!.id, progressData.goalId);
+      if (!access.ok) {
+        return res.status(access.status).json(access.error);
+      }
+      assertProgressEntry(access.resource, progressData, req.user!.timeZone);
+      if ((await storage.getSubGoals(access.resource.id)).length > 0) {
+        return res.status(409).json(conflictError("This goal's progress comes from its sub-goals"));
+      }
       
-      // Create the progress log
+      // Create the progress log, backdated if a date was given
       const newLog = await storage.createProgressLog({
         goalId: progressData.goalId,
         value: progressData.value,
         notes: progressData.notes,
-        // If date is provided in request, use it
-        ...(req.body.date && { date: new Date(req.body.date) })
+        date: progressData.date
       });
       
       res.status(201).json(newLog);
@@ -216,6 +552,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ==== Sub-goal Routes ====
+  app.get('/api/goals/:goalId/subgoals', requireAuth, authorizeGoal('goalId'), async (req, res) => {
+    try {
+      const subGoals = await storage.getSubGoals(res.locals.goal.id);
+      res.json(subGoals);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch sub-goals"));
+    }
+  });
+
+  app.put('/api/goals/:goalId/subgoals/order', requireAuth, authorizeGoal('goalId'), async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      const subGoals = await storage.getSubGoals(res.locals.goal.id);
+      assertSameIds(ids, subGoals.map(subGoal => subGoal.id));
+      
+      const reordered = await storage.reorderSubGoals(res.locals.goal.id, ids);
+      res.json(reordered);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to reorder sub-goals"));
+    }
+  });
+
+  // Finished periods of a recurring goal, oldest first
+  app.get('/api/goals/:goalId/periods', requireAuth, authorizeGoal('goalId'), async (req, res) => {
+    try {
+      const periods = await storage.getGoalPeriods(res.locals.goal.id);
+      res.json(periods);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch goal periods"));
+    }
+  });
+
+  // Whether the goal will be finished by its deadline at its current pace;
+  // see shared/forecast.ts
+  app.get('/api/goals/:goalId/forecast', requireAuth, authorizeGoal('goalId'), async (req, res) => {
+    try {
+      // A recurring goal's progress only covers the current period once it has rolled over
+      await storage.rolloverRecurringGoals(req.user!.id);
+      const forecast = await storage.getGoalForecast(res.locals.goal.id);
+      if (!forecast) {
+        return res.status(404).json(notFoundError("Goal"));
+      }
+      res.json(forecast);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch goal forecast"));
+    }
+  });
+
+  // ==== Milestone Routes ====
+  app.get('/api/goals/:goalId/milestones', requireAuth, authorizeGoal('goalId'), async (req, res) => {
+    try {
+      const milestones = await storage.getMilestones(res.locals.goal.id);
+      res.json(milestones);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch milestones"));
+    }
+  });
+
+  app.post('/api/goals/:goalId/milestones', requireAuth, authorizeGoal('goalId'), async (req, res) => {
+    try {
+      const goal: Goal = res.locals.goal;
+      const { title } = milestoneFormSchema.parse(req.body);
+      if (goal.goalType !== 'checklist') {
+        return res.status(409).json(conflictError("Only checklist goals have milestones"));
+      }
+      
+      // Raises the checklist's target, which can reopen a completed goal
+      const milestone = await storage.createMilestone(goal.id, title);
+      res.status(201).json(milestone);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to add milestone"));
+    }
+  });
+
+  app.put('/api/goals/:goalId/milestones/order', requireAuth, authorizeGoal('goalId'), async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      const milestones = await storage.getMilestones(res.locals.goal.id);
+      assertSameIds(ids, milestones.map(milestone => milestone.id));
+      
+      const reordered = await storage.reorderMilestones(res.locals.goal.id, ids);
+      res.json(reordered);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to reorder milestones"));
+    }
+  });
+
+  app.patch('/api/milestones/:id', requireAuth, authorizeMilestone(), async (req, res) => {
+    try {
+      const { completed } = milestoneUpdateSchema.parse(req.body);
+      
+      // The goal's progress and completion follow its ticked milestones
+      const milestone = await storage.updateMilestone(res.locals.milestone.id, completed);
+      res.json(milestone);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to update milestone"));
+    }
+  });
+
+  app.delete('/api/milestones/:id', requireAuth, authorizeMilestone(), async (req, res) => {
+    try {
+      const milestones = await storage.getMilestones(res.locals.milestone.goalId);
+      if (milestones.length <= 1) {
+        return res.status(409).json(conflictError("A checklist goal needs at least one milestone"));
+      }
+      
+      await storage.deleteMilestone(res.locals.milestone.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json(internalError("Failed to delete milestone"));
+    }
+  });
+
   // ==== Category Routes ====
   app.get('/api/categories', async (req, res) => {
     try {
@@ -229,44 +691,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ==== Action Items Routes ====
   app.get('/api/action-items', requireAuth, async (req, res) => {
     try {
-      const userId = req.body.userId;
-      let date = undefined;
+      const userId = req.user!.id;
+      const timeZone = req.user!.timeZone;
+      // Defaults to today
+      const { date = new Date() } = actionItemDateQuerySchema.parse(withUserDates(req.query, ['date'], timeZone));
       
-      // Check for date query param
-      if (req.query.date) {
-        date = new Date(req.query.date as string);
-      } else {
-        // Default to today
-        date = new Date();
+      await storage.rolloverRecurringGoals(userId);
+      // The scheduler runs hourly; make sure today's items exist right after midnight too
+      if (isSameDayInZone(date, new Date(), timeZone)) {
+        await storage.generateActionItems(date, userId);
       }
-      
       const actionItems = await storage.getActionItems(userId, date);
       res.json(actionItems);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
       res.status(500).json({ message: "Failed to fetch action items" });
     }
   });
 
-  app.patch('/api/action-items/:id', requireAuth, async (req, res) => {
+  // Unfinished custom items from earlier days, for users who carry them over
+  app.get('/api/action-items/overdue', requireAuth, async (req, res) => {
+    try {
+      if (!req.user!.carryOverActionItems) {
+        return res.json([]);
+      }
+      const overdueItems = await storage.getOverdueActionItems(req.user!.id, new Date());
+      res.json(overdueItems);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch overdue action items"));
+    }
+  });
+
+  // Runs the daily generator for the current user's goals, mainly for testing
+  app.post('/api/action-items/generate', requireAuth, async (req, res) => {
+    try {
+      const { date = new Date() } = actionItemDateQuerySchema.parse(withUserDates(req.query, ['date'], req.user!.timeZone));
+      const created = await storage.generateActionItems(date, req.user!.id);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to generate action items"));
+    }
+  });
+
+  app.post('/api/action-items', requireAuth, async (req, res) => {
     try {
-      const itemId = parseInt(req.params.id);
-      const { completed } = req.body;
+      const userId = req.user!.id;
+      const { goalId = null, quantity = null, ...fields } = actionItemFormSchema.parse(
+        withUserDates(req.body, ['date', 'dueDate'], req.user!.timeZone)
+      );
+      await assertActionItemGoal(userId, goalId, quantity);
+      
+      const newItem = await storage.createActionItem({ ...fields, userId, goalId, quantity, custom: true });
+      res.status(201).json(newItem);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to create action item"));
+    }
+  });
+
+  app.put('/api/action-items/order', requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { ids } = reorderSchema.parse(req.body);
+      const { date = new Date() } = actionItemDateQuerySchema.parse(withUserDates(req.query, ['date'], req.user!.timeZone));
+      const items = await storage.getActionItems(userId, date);
+      assertSameIds(ids, items.map(item => item.id));
+      
+      await storage.reorderActionItems(userId, ids);
+      res.json(await storage.getActionItems(userId, date));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to reorder action items"));
+    }
+  });
+
+  app.patch('/api/action-items/:id', requireAuth, authorizeActionItem(), async (req, res) => {
+    try {
+      const item: ActionItem = res.locals.actionItem;
+      const timeZone = req.user!.timeZone;
+      const update = actionItemUpdateSchema.parse(withUserDates(req.body, ['date', 'dueDate'], timeZone));
+      
+      // Generated items are rewritten by the planner, so only what they log can change
+      const edits = Object.keys(update).filter(field => field !== 'completed' && field !== 'quantity');
+      if (!item.custom && edits.length > 0) {
+        return res.status(409).json(conflictError("Only custom action items can be edited"));
+      }
+      // Snoozing moves an item to a later day, never back into the past
+      if (update.date && update.date < startOfDayInZone(new Date(), timeZone)) {
+        throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: ['date'], message: "Action items can't be moved to a past day" }]);
+      }
+      if (item.progressLogId !== null && (update.goalId !== undefined || update.quantity !== undefined)) {
+        return res.status(409).json(conflictError("Uncheck the action item before changing the progress it logs"));
+      }
       
-      if (typeof completed !== 'boolean') {
-        return res.status(400).json({ message: "Completed status must be a boolean" });
+      // Checking the item off logs its quantity against its goal; the goal is
+      // checked again in case it has changed since the item was made
+      const goalId = update.goalId !== undefined ? update.goalId : item.goalId;
+      const quantity = update.quantity !== undefined ? update.quantity : item.quantity;
+      const logsProgress = update.completed === true && !item.completed && goalId !== null && quantity !== null;
+      if (update.goalId !== undefined || update.quantity !== undefined || logsProgress) {
+        await assertActionItemGoal(req.user!.id, goalId, quantity);
       }
       
-      const updatedItem = await storage.updateActionItem(itemId, completed);
+      // Logging or removing the progress happens in the same transaction
+      const updatedItem = await storage.updateActionItem(item.id, update);
       res.json(updatedItem);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update action item" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to update action item"));
+    }
+  });
+
+  app.delete('/api/action-items/:id', requireAuth, authorizeActionItem(), async (req, res) => {
+    try {
+      const item: ActionItem = res.locals.actionItem;
+      if (!item.custom) {
+        return res.status(409).json(conflictError("Only custom action items can be deleted"));
+      }
+      
+      await storage.deleteActionItem(item.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json(internalError("Failed to delete action item"));
     }
   });
 
   // ==== Dashboard Routes ====
   app.get('/api/dashboard/stats', requireAuth, async (req, res) => {
     try {
-      const userId = req.body.userId;
+      const userId = req.user!.id;
+      await storage.rolloverRecurringGoals(userId);
       const stats = await storage.getDashboardStats(userId);
       res.json(stats);
     } catch (error) {
@@ -274,17 +839,245 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ==== Stats Routes ====
+  // Current and longest streaks for the user and each of their goals
+  app.get('/api/stats/streaks', requireAuth, async (req, res) => {
+    try {
+      const streaks = await storage.getStreaks(req.user!.id);
+      res.json(streaks);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch streaks"));
+    }
+  });
+
+  // ==== Analytics Routes ====
+  // Progress, reflection, category and completion aggregates; ?timeFrame=week
+  // (default), month, quarter, year or all, and ?goalId= for a single goal
+  app.get('/api/analytics', requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const query = analyticsQuerySchema.parse(req.query);
+      if (query.goalId !== undefined) {
+        const access = await checkGoalAccess(userId, query.goalId);
+        if (!access.ok) {
+          return res.status(access.status).json(access.error);
+        }
+      }
+      const analytics = await storage.getAnalytics(userId, query);
+      res.json(analytics);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to fetch analytics"));
+    }
+  });
+
+  // ==== Search Routes ====
+  // Goals, progress notes and reflections matching every word of ?q=, best
+  // first, with highlighted snippets; ?limit= (default 20, at most 50)
+  app.get('/api/search', requireAuth, async (req, res) => {
+    try {
+      const query = searchQuerySchema.parse(req.query);
+      const results = await storage.search(req.user!.id, query);
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to search"));
+    }
+  });
+
   // ==== Badges Routes ====
   app.get('/api/badges', requireAuth, async (req, res) => {
     try {
-      const userId = req.body.userId;
+      const userId = req.user!.id;
       const badges = await storage.getBadgesByUser(userId);
       res.json(badges);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch badges" });
     }
   });
-  
+
+  // ==== Achievements Routes ====
+  // The whole catalog, with what's unlocked and how close the rest are
+  app.get('/api/achievements', requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const [stats, badges] = await Promise.all([
+        storage.getAchievementStats(userId),
+        storage.getBadgesByUser(userId)
+      ]);
+      res.json(describeAchievements(stats, badges));
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch achievements"));
+    }
+  });
+
+  // ==== Points Routes ====
+  // Every award and every award taken back, newest first
+  app.get('/api/points/history', requireAuth, async (req, res) => {
+    try {
+      const history = await storage.getPointsHistory(req.user!.id);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch points history"));
+    }
+  });
+
+  // ==== Notes Routes ====
+  // ?q= searches titles and content; ?page= and ?pageSize= (at most 100) page
+  // through the results, most recently updated first
+  app.get('/api/notes', requireAuth, async (req, res) => {
+    try {
+      const query = noteQuerySchema.parse(req.query);
+      const page = await storage.getNotes(req.user!.id, query);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to fetch notes"));
+    }
+  });
+
+  app.get('/api/notes/:id', requireAuth, authorizeNote(), async (req, res) => {
+    res.json(res.locals.note);
+  });
+
+  app.post('/api/notes', requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { goalIds = [], progressLogIds = [], ...fields } = noteFormSchema.parse(req.body);
+      const links = await resolveNoteLinks(userId, { goalIds, progressLogIds });
+      const note = await storage.createNote({ ...fields, userId }, links);
+      res.status(201).json(note);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to create note"));
+    }
+  });
+
+  // One-time move of the notes the Notepad used to keep in the browser
+  app.post('/api/notes/import', requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { notes } = noteImportSchema.parse(req.body);
+      const imported = await storage.importNotes(notes.map(note => ({ ...note, userId })));
+      res.status(201).json(imported);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to import notes"));
+    }
+  });
+
+  app.patch('/api/notes/:id', requireAuth, authorizeNote(), async (req, res) => {
+    try {
+      const note: NoteWithLinks = res.locals.note;
+      const update = noteUpdateSchema.parse(req.body);
+      // Either kind of link may change alone; the entries' goals stay linked
+      if (update.goalIds !== undefined || update.progressLogIds !== undefined) {
+        Object.assign(update, await resolveNoteLinks(req.user!.id, {
+          goalIds: update.goalIds ?? note.goalIds,
+          progressLogIds: update.progressLogIds ?? note.progressLogIds
+        }, note));
+      }
+      const updatedNote = await storage.updateNote(note.id, update);
+      res.json(updatedNote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to update note"));
+    }
+  });
+
+  app.delete('/api/notes/:id', requireAuth, authorizeNote(), async (req, res) => {
+    try {
+      const note: NoteWithLinks = res.locals.note;
+      await storage.deleteNote(note.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json(internalError("Failed to delete note"));
+    }
+  });
+
+  // ==== Note Revision Routes ====
+  // Newest first; see shared/note-revisions.ts for when saves are recorded
+  app.get('/api/notes/:noteId/revisions', requireAuth, authorizeNote('noteId'), async (req, res) => {
+    try {
+      const revisions = await storage.getNoteRevisions(res.locals.note.id);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch note revisions"));
+    }
+  });
+
+  // Puts the revision back as a new one, so the restore can be undone by
+  // restoring the revision before it
+  app.post('/api/note-revisions/:id/restore', requireAuth, authorizeNoteRevision(), async (req, res) => {
+    try {
+      const revision: NoteRevision = res.locals.noteRevision;
+      const note = await storage.restoreNoteRevision(revision.id);
+      res.json(note);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to restore note revision"));
+    }
+  });
+
+  // ==== Note Template Routes ====
+  // The user's library, starting from the defaults in shared/reflections.ts
+  app.get('/api/note-templates', requireAuth, async (req, res) => {
+    try {
+      const templates = await storage.getNoteTemplates(req.user!.id);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json(internalError("Failed to fetch note templates"));
+    }
+  });
+
+  app.post('/api/note-templates', requireAuth, async (req, res) => {
+    try {
+      const fields = noteTemplateFormSchema.parse(req.body);
+      const template = await storage.createNoteTemplate({ ...fields, userId: req.user!.id });
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to create note template"));
+    }
+  });
+
+  app.patch('/api/note-templates/:id', requireAuth, authorizeNoteTemplate(), async (req, res) => {
+    try {
+      const template: NoteTemplate = res.locals.noteTemplate;
+      const update = noteTemplateUpdateSchema.parse(req.body);
+      const updatedTemplate = await storage.updateNoteTemplate(template.id, update);
+      res.json(updatedTemplate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json(formatZodError(error));
+      }
+      res.status(500).json(internalError("Failed to update note template"));
+    }
+  });
+
+  app.delete('/api/note-templates/:id', requireAuth, authorizeNoteTemplate(), async (req, res) => {
+    try {
+      const template: NoteTemplate = res.locals.noteTemplate;
+      await storage.deleteNoteTemplate(template.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json(internalError("Failed to delete note template"));
+    }
+  });
+
   // ==== Documentation Routes ====
   app.get('/:filename([A-Za-z0-9_-]+\\.md)', (req, res) => {
     try {
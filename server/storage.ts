@@ -1,27 +1,83 @@
 import { 
-  users, type User, type InsertUser,
+  users, type User, type InsertUser, type UserSettings,
   goals, type Goal, type InsertGoal,
-  progressLogs, type ProgressLog, type InsertProgressLog,
+  progressLogs, type ProgressLog, type InsertProgressLog, type ProgressLogUpdate,
   categories, type Category, type InsertCategory,
-  actionItems, type ActionItem, type InsertActionItem,
+  milestones, type Milestone,
+  goalPeriods, type GoalPeriod,
+  actionItems, type ActionItem, type InsertActionItem, type ActionItemUpdate, type ActionItemWithGoal,
+  pointsLedger, type PointsLedgerEntry, type PointsLedgerEntryWithGoal, type PointEvent,
   badges, type Badge, type InsertBadge,
+  notes, type Note, type InsertNote, type NoteUpdate, type NoteQuery, type NotePage,
+  type NoteLinks, type NoteWithLinks, type NoteGoal, type NoteProgressLog,
+  type NoteRevision,
+  type NoteTemplate, type InsertNoteTemplate, type NoteTemplateUpdate,
   type GoalWithCategory,
-  type DashboardStats
+  type DashboardStats,
+  type AnalyticsQuery,
+  type SearchQuery,
+  defaultCategories
 } from "@shared/schema";
+import { computeCurrentValue, getBaselineValue, isGoalComplete } from "@shared/goal-progress";
+import {
+  computePeriodValue,
+  getPeriodStart,
+  isRecurring,
+  summarizeClosedPeriods
+} from "@shared/recurrence";
+import { needsActionItem, planActionItem } from "@shared/action-plan";
+import { getEventPoints, getLevel } from "@shared/points";
+import { computeAchievementStats, getMetAchievements, type AchievementStats } from "@shared/achievements";
+import { computeUserStreaks, type UserStreaks } from "@shared/streaks";
+import { computeAnalytics, type Analytics } from "@shared/analytics";
+import { forecastGoal, type GoalForecast } from "@shared/forecast";
+import { search, type SearchResults } from "@shared/search";
+import { compareSubGoals, computeRollUp } from "@shared/goal-tree";
+import { defaultNoteTemplates } from "@shared/reflections";
+import { revisionRules, startsNewRevision } from "@shared/note-revisions";
+import { DEFAULT_TIME_ZONE, addDaysInZone, isSameDayInZone, startOfDayInZone } from "@shared/timezone";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, createPool } from "./db";
+import { DbStorage } from "./db-storage";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  // Backing store for express-session
+  sessionStore: session.Store;
+  
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  updateUserPoints(userId: number, points: number): Promise<User>;
+  updateUserSettings(userId: number, settings: UserSettings): Promise<User>;
   
   // Goal operations
+  // getGoals excludes trashed goals; getGoal returns a goal whether or not it is trashed
   getGoals(userId: number): Promise<GoalWithCategory[]>;
+  getDeletedGoals(userId: number): Promise<GoalWithCategory[]>;
   getGoal(id: number): Promise<GoalWithCategory | undefined>;
-  createGoal(goal: InsertGoal): Promise<Goal>;
+  // Checklist goals are created with their milestones, which set the target
+  createGoal(goal: InsertGoal, milestoneTitles?: string[]): Promise<Goal>;
   updateGoal(id: number, goal: Partial<Goal>): Promise<Goal>;
+  // Soft delete: moves the goal and its sub-goals to the trash, keeping their
+  // logs and action items. Restoring brings back the sub-goals trashed with it.
   deleteGoal(id: number): Promise<boolean>;
+  restoreGoal(id: number): Promise<Goal>;
+  // Permanently removes a goal and its sub-goals with their progress logs,
+  // milestones and action items. Points and badges already earned are kept.
+  purgeGoal(id: number): Promise<boolean>;
+  
+  // Goal trees
+  // Live sub-goals of a goal, in order
+  getSubGoals(goalId: number): Promise<Goal[]>;
+  // Recompute a goal's progress (rolled up from its sub-goals if it has any)
+  // and roll the change up through its parents
+  refreshGoalProgress(goalId: number): Promise<Goal | undefined>;
+  reorderSubGoals(goalId: number, orderedIds: number[]): Promise<Goal[]>;
   
   // Category operations
   getCategories(): Promise<Category[]>;
@@ -30,12 +86,96 @@ export interface IStorage {
   
   // Progress operations
   getProgressLogs(goalId: number): Promise<ProgressLog[]>;
+  getProgressLog(id: number): Promise<ProgressLog | undefined>;
   createProgressLog(log: InsertProgressLog): Promise<ProgressLog>;
+  // Corrections recompute the goal's total and completion from its remaining
+  // logs; deleting a log also takes back the points it earned
+  updateProgressLog(id: number, changes: ProgressLogUpdate): Promise<ProgressLog>;
+  deleteProgressLog(id: number): Promise<boolean>;
+  
+  // Milestones
+  getMilestones(goalId: number): Promise<Milestone[]>;
+  getMilestone(id: number): Promise<Milestone | undefined>;
+  // Ticking a milestone earns the same points as logging progress, and
+  // recomputes the goal's progress and completion
+  updateMilestone(id: number, completed: boolean): Promise<Milestone>;
+  // Adding or removing milestones changes the checklist's target; removing a
+  // ticked one takes back the points it earned
+  createMilestone(goalId: number, title: string): Promise<Milestone>;
+  deleteMilestone(id: number): Promise<boolean>;
+  reorderMilestones(goalId: number, orderedIds: number[]): Promise<Milestone[]>;
+  
+  // Recurring goals
+  getGoalPeriods(goalId: number): Promise<GoalPeriod[]>;
+  // Records the finished periods of the user's recurring goals (met or
+  // missed) and resets their current period. Safe to call on every request.
+  rolloverRecurringGoals(userId: number): Promise<void>;
+  
+  // Forecasts
+  // One for each of the user's goals outside the trash, in goal order (see
+  // shared/forecast.ts). Recurring goals are forecast for the period they
+  // are in, so roll them over first.
+  getGoalForecasts(userId: number): Promise<GoalForecast[]>;
+  // The same forecast for one goal
+  getGoalForecast(goalId: number): Promise<GoalForecast | undefined>;
   
   // Action Items
-  getActionItems(userId: number, date?: Date): Promise<(ActionItem & { goalDescription: string })[]>;
+  // Days are counted in the user's time zone throughout.
+  // The user's items, with or without a goal, in their chosen order. Items
+  // of trashed goals are left out.
+  getActionItems(userId: number, date?: Date): Promise<ActionItemWithGoal[]>;
+  // Unfinished custom items listed before the day containing `date`, oldest
+  // first. Generated items aren't carried over; the next day's plan makes up
+  // for them instead.
+  getOverdueActionItems(userId: number, date: Date): Promise<ActionItemWithGoal[]>;
+  getActionItem(id: number): Promise<ActionItem | undefined>;
+  // New items go to the end of their day's list
   createActionItem(item: InsertActionItem): Promise<ActionItem>;
-  updateActionItem(id: number, completed: boolean): Promise<ActionItem>;
+  // Completing an item earns points and, if it has a goal and a quantity,
+  // logs that much progress on the goal. Un-completing it takes back the
+  // item's points and removes the log again (with its points).
+  updateActionItem(id: number, changes: ActionItemUpdate): Promise<ActionItem>;
+  deleteActionItem(id: number): Promise<boolean>;
+  // orderedIds must be all of the user's items for one day
+  reorderActionItems(userId: number, orderedIds: number[]): Promise<void>;
+  // Plans the action item for the day containing `date` for every goal that
+  // needs one (see shared/action-plan.ts), or only the given user's goals.
+  // Goals that already have an item that day are skipped, so repeated runs
+  // create nothing new. Returns the items created.
+  generateActionItems(date: Date, userId?: number): Promise<ActionItem[]>;
+  
+  // Points
+  // Records the event's points (see shared/points.ts) in the user's ledger
+  // and recomputes their level; `revoke` takes an earlier award back
+  awardPoints(
+    userId: number,
+    event: PointEvent,
+    options?: { goalId?: number | null; revoke?: boolean }
+  ): Promise<User>;
+  // The user's ledger, newest first
+  getPointsHistory(userId: number): Promise<PointsLedgerEntryWithGoal[]>;
+  
+  // Achievements
+  // What the achievement criteria are measured against. Achievements are
+  // unlocked (as badges) whenever progress is logged or a goal is created or
+  // completed; see shared/achievements.ts.
+  getAchievementStats(userId: number): Promise<AchievementStats>;
+  
+  // Streaks
+  // The user's streak, counting logged progress and completed action items,
+  // and one per goal outside the trash with progress logged; see
+  // shared/streaks.ts
+  getStreaks(userId: number): Promise<UserStreaks>;
+  
+  // Analytics
+  // Aggregates of the user's goals, logs and notes over the time frame, or
+  // of one goal's; see shared/analytics.ts
+  getAnalytics(userId: number, query: AnalyticsQuery): Promise<Analytics>;
+  
+  // Search
+  // The user's goals outside the trash, their progress notes and the user's
+  // reflections matching the search, best first; see shared/search.ts
+  search(userId: number, query: SearchQuery): Promise<SearchResults>;
   
   // Badges
   getBadgesByUser(userId: number): Promise<Badge[]>;
@@ -43,45 +183,112 @@ export interface IStorage {
   
   // Dashboard
   getDashboardStats(userId: number): Promise<DashboardStats>;
+  
+  // Notes
+  // Notes come with the goals and progress entries they're linked to. Links
+  // go when the progress entry is deleted or the goal is purged.
+  // One page of the user's notes, most recently updated first, optionally
+  // only those whose title or content contains `q` (ignoring case) or that
+  // are linked to `goalId`
+  getNotes(userId: number, query: NoteQuery): Promise<NotePage>;
+  getNote(id: number): Promise<NoteWithLinks | undefined>;
+  createNote(note: InsertNote, links?: NoteLinks): Promise<NoteWithLinks>;
+  // Adds several notes at once, keeping the dates they were written on
+  importNotes(notes: InsertNote[]): Promise<Note[]>;
+  // Links given replace the note's current ones. A new title or content is
+  // recorded in the note's revisions.
+  updateNote(id: number, changes: NoteUpdate): Promise<NoteWithLinks>;
+  deleteNote(id: number): Promise<boolean>;
+  
+  // Note revisions
+  // The titles and content a note was saved with, newest first; see
+  // shared/note-revisions.ts. Notes saved before revisions were kept get
+  // their first one when next saved.
+  getNoteRevisions(noteId: number): Promise<NoteRevision[]>;
+  getNoteRevision(id: number): Promise<NoteRevision | undefined>;
+  // Puts the revision's title and content back on its note, as a new revision
+  restoreNoteRevision(id: number): Promise<NoteWithLinks>;
+  
+  // Note templates
+  // The user's templates, oldest first. The first call copies the default
+  // templates (see shared/reflections.ts) into the user's library.
+  getNoteTemplates(userId: number): Promise<NoteTemplate[]>;
+  getNoteTemplate(id: number): Promise<NoteTemplate | undefined>;
+  createNoteTemplate(template: InsertNoteTemplate): Promise<NoteTemplate>;
+  updateNoteTemplate(id: number, changes: NoteTemplateUpdate): Promise<NoteTemplate>;
+  deleteNoteTemplate(id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  
   private users: Map<number, User>;
   private goals: Map<number, Goal>;
   private categories: Map<number, Category>;
   private progressLogs: Map<number, ProgressLog>;
+  private milestones: Map<number, Milestone>;
+  private goalPeriods: Map<number, GoalPeriod>;
   private actionItems: Map<number, ActionItem>;
+  private pointsLedger: Map<number, PointsLedgerEntry>;
   private badges: Map<number, Badge>;
+  private notes: Map<number, Note>;
+  private noteGoals: Map<number, NoteGoal>;
+  private noteProgressLogs: Map<number, NoteProgressLog>;
+  private noteRevisions: Map<number, NoteRevision>;
+  private noteTemplates: Map<number, NoteTemplate>;
   
   private userId: number;
   private goalId: number;
   private categoryId: number;
   private progressLogId: number;
+  private milestoneId: number;
+  private goalPeriodId: number;
   private actionItemId: number;
+  private pointsLedgerId: number;
   private badgeId: number;
+  private noteId: number;
+  private noteGoalId: number;
+  private noteProgressLogId: number;
+  private noteRevisionId: number;
+  private noteTemplateId: number;
 
   constructor() {
     this.users = new Map();
     this.goals = new Map();
     this.categories = new Map();
     this.progressLogs = new Map();
+    this.milestones = new Map();
+    this.goalPeriods = new Map();
     this.actionItems = new Map();
+    this.pointsLedger = new Map();
     this.badges = new Map();
+    this.notes = new Map();
+    this.noteGoals = new Map();
+    this.noteProgressLogs = new Map();
+    this.noteRevisions = new Map();
+    this.noteTemplates = new Map();
     
     this.userId = 1;
     this.goalId = 1;
     this.categoryId = 1;
     this.progressLogId = 1;
+    this.milestoneId = 1;
+    this.goalPeriodId = 1;
     this.actionItemId = 1;
+    this.pointsLedgerId = 1;
     this.badgeId = 1;
+    this.noteId = 1;
+    this.noteGoalId = 1;
+    this.noteProgressLogId = 1;
+    this.noteRevisionId = 1;
+    this.noteTemplateId = 1;
+    
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions every 24h
+    });
     
     // Initialize with some default categories
-    this.createCategory({ name: 'Fitness', color: '#4f46e5' });
-    this.createCategory({ name: 'Learning', color: '#f59e0b' });
-    this.createCategory({ name: 'Health', color: '#10b981' });
-    this.createCategory({ name: 'Finance', color: '#06b6d4' });
-    this.createCategory({ name: 'Career', color: '#8b5cf6' });
-    this.createCategory({ name: 'Personal', color: '#ec4899' });
+    defaultCategories.forEach(category => this.createCategory(category));
   }
 
   // User operations
@@ -97,31 +304,53 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userId++;
-    const user: User = { ...insertUser, id, points: 0, level: 1 };
+    const user: User = {
+      ...insertUser,
+      id,
+      points: 0,
+      level: 1,
+      carryOverActionItems: true,
+      noteTemplatesSeeded: false,
+      timeZone: insertUser.timeZone ?? DEFAULT_TIME_ZONE
+    };
     this.users.set(id, user);
     return user;
   }
   
-  async updateUserPoints(userId: number, points: number): Promise<User> {
+  async updateUserSettings(userId: number, settings: UserSettings): Promise<User> {
     const user = await this.getUser(userId);
     if (!user) throw new Error('User not found');
     
-    const newPoints = user.points + points;
-    // Simple level calculation (every 100 points = 1 level)
-    const newLevel = Math.floor(newPoints / 100) + 1;
-    
-    const updatedUser = { ...user, points: newPoints, level: newLevel };
+    const updatedUser = { ...user, ...settings };
     this.users.set(userId, updatedUser);
     return updatedUser;
   }
-
+  
+  // The zone the user's days are counted in
+  private async getTimeZone(userId: number): Promise<string> {
+    return (await this.getUser(userId))?.timeZone ?? DEFAULT_TIME_ZONE;
+  }
+  
   // Goal operations
   async getGoals(userId: number): Promise<GoalWithCategory[]> {
-    const userGoals = Array.from(this.goals.values()).filter(
-      (goal) => goal.userId === userId
+    return this.getGoalsWhere(
+      (goal) => goal.userId === userId && goal.deletedAt === null
+    );
+  }
+
+  async getDeletedGoals(userId: number): Promise<GoalWithCategory[]> {
+    // Sub-goals trashed along with their parent are restored through it
+    const isTrashed = (id: number | null) => id !== null && !!this.goals.get(id)?.deletedAt;
+    const deletedGoals = await this.getGoalsWhere(
+      (goal) => goal.userId === userId && goal.deletedAt !== null && !isTrashed(goal.parentGoalId)
     );
+    return deletedGoals.sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  private async getGoalsWhere(predicate: (goal: Goal) => boolean): Promise<GoalWithCategory[]> {
+    const matchingGoals = Array.from(this.goals.values()).filter(predicate);
     
-    return Promise.all(userGoals.map(async (goal) => {
+    return Promise.all(matchingGoals.map(async (goal) => {
       let category = undefined;
       if (goal.categoryId) {
         category = await this.getCategory(goal.categoryId);
@@ -141,29 +370,60 @@ export class MemStorage implements IStorage {
     return { ...goal, category };
   }
 
-  async createGoal(goal: InsertGoal): Promise<Goal> {
+  async createGoal(goal: InsertGoal, milestoneTitles: string[] = []): Promise<Goal> {
     const id = this.goalId++;
+    const goalType = goal.goalType ?? 'cumulative';
+    const startValue = goal.startValue ?? null;
+    const recurrence = goal.recurrence ?? 'none';
+    const createdAt = new Date();
+    const parentGoalId = goal.parentGoalId ?? null;
+    const siblings = parentGoalId === null ? [] : await this.getSubGoals(parentGoalId);
     const newGoal: Goal = { 
       ...goal, 
       id, 
-      currentValue: 0, 
+      goalType,
+      startValue,
+      recurrence,
+      periodStart: recurrence === 'none'
+        ? null
+        : getPeriodStart(recurrence, createdAt, await this.getTimeZone(goal.userId)),
+      targetValue: goalType === 'checklist' ? milestoneTitles.length : goal.targetValue,
+      currentValue: getBaselineValue({ goalType, startValue, targetValue: goal.targetValue }), 
       completed: false, 
-      createdAt: new Date(),
+      archived: false,
+      createdAt,
+      deletedAt: null,
       categoryId: goal.categoryId ?? null,
-      reminderFrequency: goal.reminderFrequency || 'none'
+      reminderFrequency: goal.reminderFrequency || 'none',
+      parentGoalId,
+      weight: goal.weight ?? 1,
+      position: siblings.length > 0 ? siblings[siblings.length - 1].position + 1 : 0
     };
     this.goals.set(id, newGoal);
     
-    // Generate action items based on the goal
-    const daysUntilDeadline = Math.ceil((goal.deadline.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
-    if (daysUntilDeadline > 0) {
-      const dailyTarget = goal.targetValue / daysUntilDeadline;
-      this.createActionItem({
-        goalId: id,
-        description: `Do ${dailyTarget.toFixed(1)} ${goal.unit} today`
+    if (goalType === 'checklist') {
+      milestoneTitles.forEach((title, position) => {
+        const milestoneId = this.milestoneId++;
+        this.milestones.set(milestoneId, {
+          id: milestoneId,
+          goalId: id,
+          title,
+          position,
+          completed: false,
+          completedAt: null
+        });
       });
     }
     
+    // Start the goal off with today's action item
+    await this.generateActionItem(newGoal, createdAt);
+    
+    // The parent now has one more sub-goal to share its progress with
+    if (parentGoalId !== null) {
+      await this.recalculateGoalProgress(parentGoalId);
+    }
+    
+    await this.unlockAchievements(goal.userId);
     return newGoal;
   }
 
@@ -177,7 +437,111 @@ export class MemStorage implements IStorage {
   }
 
   async deleteGoal(id: number): Promise<boolean> {
-    return this.goals.delete(id);
+    const goal = this.goals.get(id);
+    if (!goal) return false;
+    
+    // Trash live sub-goals with the same timestamp so they can be restored together
+    const deletedAt = new Date();
+    [id, ...this.getDescendantIds(id)].forEach(goalId => {
+      const trashed = this.goals.get(goalId)!;
+      if (goalId === id || trashed.deletedAt === null) {
+        this.goals.set(goalId, { ...trashed, deletedAt });
+      }
+    });
+    
+    if (goal.parentGoalId !== null) {
+      await this.recalculateGoalProgress(goal.parentGoalId);
+    }
+    return true;
+  }
+
+  async restoreGoal(id: number): Promise<Goal> {
+    const goal = this.goals.get(id);
+    if (!goal) throw new Error('Goal not found');
+    
+    const deletedAt = goal.deletedAt?.getTime();
+    this.getDescendantIds(id).forEach(goalId => {
+      const subGoal = this.goals.get(goalId)!;
+      if (subGoal.deletedAt?.getTime() === deletedAt) {
+        this.goals.set(goalId, { ...subGoal, deletedAt: null });
+      }
+    });
+    
+    // A sub-goal whose parent is still in the trash comes back at the top level
+    const parent = goal.parentGoalId !== null ? this.goals.get(goal.parentGoalId) : undefined;
+    if (!parent || parent.deletedAt !== null) {
+      return this.updateGoal(id, { deletedAt: null, parentGoalId: null });
+    }
+    
+    await this.updateGoal(id, { deletedAt: null });
+    await this.recalculateGoalProgress(parent.id);
+    return this.goals.get(id)!;
+  }
+
+  async purgeGoal(id: number): Promise<boolean> {
+    if (!this.goals.has(id)) return false;
+    
+    // Cascade to sub-goals and everything hanging off each goal
+    const goalIds = new Set([id, ...this.getDescendantIds(id)]);
+    goalIds.forEach(goalId => this.goals.delete(goalId));
+    this.progressLogs.forEach((log, logId) => {
+      if (goalIds.has(log.goalId)) {
+        this.progressLogs.delete(logId);
+        this.deleteProgressLogLinks(logId);
+      }
+    });
+    this.noteGoals.forEach((link, linkId) => {
+      if (goalIds.has(link.goalId)) this.noteGoals.delete(linkId);
+    });
+    this.milestones.forEach((milestone, milestoneId) => {
+      if (goalIds.has(milestone.goalId)) this.milestones.delete(milestoneId);
+    });
+    this.goalPeriods.forEach((period, periodId) => {
+      if (goalIds.has(period.goalId)) this.goalPeriods.delete(periodId);
+    });
+    this.actionItems.forEach((item, itemId) => {
+      if (item.goalId !== null && goalIds.has(item.goalId)) this.actionItems.delete(itemId);
+    });
+    return true;
+  }
+
+  /**
+   * Ids of every goal below this one, trashed or not
+   */
+  private getDescendantIds(id: number): number[] {
+    const descendants: number[] = [];
+    const pending = [id];
+    while (pending.length > 0) {
+      const parentId = pending.pop();
+      this.goals.forEach(goal => {
+        if (goal.parentGoalId === parentId) {
+          descendants.push(goal.id);
+          pending.push(goal.id);
+        }
+      });
+    }
+    return descendants;
+  }
+
+  // Goal trees
+  async getSubGoals(goalId: number): Promise<Goal[]> {
+    return Array.from(this.goals.values())
+      .filter(goal => goal.parentGoalId === goalId && goal.deletedAt === null)
+      .sort(compareSubGoals);
+  }
+
+  async refreshGoalProgress(goalId: number): Promise<Goal | undefined> {
+    return this.recalculateGoalProgress(goalId);
+  }
+
+  async reorderSubGoals(goalId: number, orderedIds: number[]): Promise<Goal[]> {
+    orderedIds.forEach((id, position) => {
+      const goal = this.goals.get(id);
+      if (goal && goal.parentGoalId === goalId) {
+        this.goals.set(id, { ...goal, position });
+      }
+    });
+    return this.getSubGoals(goalId);
   }
 
   // Category operations
@@ -200,7 +564,7 @@ export class MemStorage implements IStorage {
   async getProgressLogs(goalId: number): Promise<ProgressLog[]> {
     return Array.from(this.progressLogs.values())
       .filter(log => log.goalId === goalId)
-      .sort((a, b) => a.date.getTime() - b.date.getTime());
+      .sort((a, b) => a.date.getTime() - b.date.getTime() || a.id - b.id);
   }
 
   async createProgressLog(log: InsertProgressLog): Promise<ProgressLog> {
@@ -208,104 +572,538 @@ export class MemStorage implements IStorage {
     const newLog: ProgressLog = { 
       ...log, 
       id, 
-      date: new Date(),
+      date: log.date ?? new Date(),
       notes: log.notes ?? null 
     };
     this.progressLogs.set(id, newLog);
     
-    // Update the goal's current value
-    const goal = await this.getGoal(log.goalId);
+    // Update the goal's current value; completing it awards more points and a badge
+    const goal = await this.recalculateGoalProgress(log.goalId);
     if (goal) {
-      const newCurrentValue = goal.currentValue + log.value;
-      const completed = newCurrentValue >= goal.targetValue;
-      
-      await this.updateGoal(log.goalId, { 
-        currentValue: newCurrentValue,
-        completed
+      // Award points for logging progress
+      await this.awardPoints(goal.userId, 'progress_logged', { goalId: goal.id });
+      await this.unlockAchievements(goal.userId);
+    }
+    
+    return newLog;
+  }
+
+  async getProgressLog(id: number): Promise<ProgressLog | undefined> {
+    return this.progressLogs.get(id);
+  }
+
+  async updateProgressLog(id: number, changes: ProgressLogUpdate): Promise<ProgressLog> {
+    const log = this.progressLogs.get(id);
+    if (!log) throw new Error('Progress log not found');
+    
+    const updatedLog = { ...log, ...changes };
+    this.progressLogs.set(id, updatedLog);
+    
+    await this.recalculateGoalProgress(log.goalId);
+    return updatedLog;
+  }
+
+  async deleteProgressLog(id: number): Promise<boolean> {
+    const log = this.progressLogs.get(id);
+    if (!log) return false;
+    
+    this.progressLogs.delete(id);
+    this.deleteProgressLogLinks(id);
+    
+    const goal = await this.recalculateGoalProgress(log.goalId);
+    if (goal) {
+      // Take back the points awarded for logging the entry
+      await this.awardPoints(goal.userId, 'progress_logged', { goalId: goal.id, revoke: true });
+    }
+    return true;
+  }
+
+  /**
+   * Recompute a goal's total from its logs, or from its sub-goals if it has
+   * any, keeping the "Goal Achieved" badge and its points in step with
+   * whether the goal is now complete. The change rolls up to the goal's parent.
+   */
+  private async recalculateGoalProgress(goalId: number): Promise<Goal | undefined> {
+    const goal = this.goals.get(goalId);
+    if (!goal) return undefined;
+    
+    const logs = await this.getProgressLogs(goalId);
+    if (isRecurring(goal)) {
+      return this.recalculateRecurringGoal(goal, logs);
+    }
+    
+    const subGoals = await this.getSubGoals(goalId);
+    let currentValue: number;
+    let completed: boolean;
+    if (subGoals.length > 0) {
+      ({ currentValue, completed } = computeRollUp(goal, subGoals));
+    } else {
+      const completedMilestones = (await this.getMilestones(goalId))
+        .filter(milestone => milestone.completed).length;
+      currentValue = computeCurrentValue(goal, logs, completedMilestones);
+      completed = isGoalComplete(goal, currentValue);
+    }
+    const updatedGoal = await this.updateGoal(goalId, { currentValue, completed });
+    
+    if (completed && !goal.completed) {
+      await this.awardPoints(goal.userId, 'goal_completed', { goalId });
+      await this.createBadge({
+        userId: goal.userId,
+        name: "Goal Achieved",
+        description: `Completed "${goal.description}"`,
+        goalId
       });
+      await this.unlockAchievements(goal.userId);
+    } else if (!completed && goal.completed) {
+      // Goals completed by hand never earned the badge, so only revoke what exists
+      const earned = Array.from(this.badges.values())
+        .filter(badge => badge.goalId === goalId && badge.name === "Goal Achieved");
+      earned.forEach(badge => this.badges.delete(badge.id));
+      if (earned.length > 0) {
+        await this.awardPoints(goal.userId, 'goal_completed', { goalId, revoke: true });
+      }
+    }
+    
+    if (goal.parentGoalId !== null) {
+      await this.recalculateGoalProgress(goal.parentGoalId);
+    }
+    return updatedGoal;
+  }
+
+  /**
+   * Bring a recurring goal's period history up to date and reset its current
+   * value to this period's logs. Recurring goals never complete as a whole,
+   * so they earn no completion bonus or badge.
+   */
+  private async recalculateRecurringGoal(goal: Goal, logs: ProgressLog[]): Promise<Goal> {
+    const now = new Date();
+    const timeZone = await this.getTimeZone(goal.userId);
+    const recorded = new Map(
+      Array.from(this.goalPeriods.values())
+        .filter(period => period.goalId === goal.id)
+        .map(period => [period.periodStart.getTime(), period])
+    );
+    
+    // Backdated or corrected logs can change periods that already closed
+    for (const summary of summarizeClosedPeriods(goal, logs, timeZone, now)) {
+      const period = recorded.get(summary.periodStart.getTime());
+      const targetValue = period?.targetValue ?? goal.targetValue;
+      const met = summary.achievedValue >= targetValue;
       
-      // Award points for logging progress
-      if (goal.userId) {
-        await this.updateUserPoints(goal.userId, 10);
-        
-        // Check if goal is completed, award more points
-        if (completed && !goal.completed) {
-          await this.updateUserPoints(goal.userId, 50);
-          
-          // Create a badge for completing a goal
-          await this.createBadge({
-            userId: goal.userId,
-            name: "Goal Achieved",
-            description: `Completed "${goal.description}"`
-          });
-        }
+      if (!period) {
+        const id = this.goalPeriodId++;
+        this.goalPeriods.set(id, { id, goalId: goal.id, ...summary, targetValue, met });
+      } else if (period.achievedValue !== summary.achievedValue || period.met !== met) {
+        this.goalPeriods.set(period.id, { ...period, achievedValue: summary.achievedValue, met });
       }
     }
     
-    return newLog;
+    return this.updateGoal(goal.id, {
+      currentValue: computePeriodValue(goal, logs, timeZone, now),
+      completed: false,
+      periodStart: getPeriodStart(goal.recurrence, now, timeZone)
+    });
+  }
+
+  async getGoalPeriods(goalId: number): Promise<GoalPeriod[]> {
+    return Array.from(this.goalPeriods.values())
+      .filter(period => period.goalId === goalId)
+      .sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+  }
+
+  async rolloverRecurringGoals(userId: number): Promise<void> {
+    const recurringGoals = (await this.getGoals(userId))
+      .filter(goal => isRecurring(goal) && !goal.archived);
+    const timeZone = await this.getTimeZone(userId);
+    
+    for (const goal of recurringGoals) {
+      if (!goal.periodStart || goal.periodStart < getPeriodStart(goal.recurrence, new Date(), timeZone)) {
+        await this.recalculateRecurringGoal(goal, await this.getProgressLogs(goal.id));
+      }
+    }
+  }
+
+  // Forecasts
+  async getGoalForecasts(userId: number): Promise<GoalForecast[]> {
+    return this.forecastGoals(userId, await this.getGoals(userId));
+  }
+
+  async getGoalForecast(goalId: number): Promise<GoalForecast | undefined> {
+    const goal = this.goals.get(goalId);
+    if (!goal) return undefined;
+    const [forecast] = await this.forecastGoals(goal.userId, [goal]);
+    return forecast;
+  }
+
+  // Both of the above, so a goal's forecast is the same either way
+  private async forecastGoals(userId: number, forecastedGoals: Goal[]): Promise<GoalForecast[]> {
+    const timeZone = await this.getTimeZone(userId);
+    
+    return Promise.all(forecastedGoals.map(async goal => forecastGoal({
+      goal,
+      logs: await this.getProgressLogs(goal.id),
+      milestoneCompletions: (await this.getMilestones(goal.id))
+        .flatMap(milestone => milestone.completedAt ? [milestone.completedAt] : []),
+      hasSubGoals: (await this.getSubGoals(goal.id)).length > 0,
+      timeZone
+    })));
+  }
+
+  // Milestones
+  async getMilestones(goalId: number): Promise<Milestone[]> {
+    return Array.from(this.milestones.values())
+      .filter(milestone => milestone.goalId === goalId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async getMilestone(id: number): Promise<Milestone | undefined> {
+    return this.milestones.get(id);
+  }
+
+  async updateMilestone(id: number, completed: boolean): Promise<Milestone> {
+    const milestone = this.milestones.get(id);
+    if (!milestone) throw new Error('Milestone not found');
+    if (milestone.completed === completed) return milestone;
+    
+    const updatedMilestone = { ...milestone, completed, completedAt: completed ? new Date() : null };
+    this.milestones.set(id, updatedMilestone);
+    
+    const goal = await this.recalculateGoalProgress(milestone.goalId);
+    if (goal) {
+      await this.awardPoints(goal.userId, 'milestone_completed', { goalId: goal.id, revoke: !completed });
+    }
+    return updatedMilestone;
+  }
+
+  async createMilestone(goalId: number, title: string): Promise<Milestone> {
+    const existing = await this.getMilestones(goalId);
+    const id = this.milestoneId++;
+    const milestone: Milestone = {
+      id,
+      goalId,
+      title,
+      position: existing.length > 0 ? existing[existing.length - 1].position + 1 : 0,
+      completed: false,
+      completedAt: null
+    };
+    this.milestones.set(id, milestone);
+    
+    // A checklist's target is its number of milestones
+    await this.updateGoal(goalId, { targetValue: existing.length + 1 });
+    await this.recalculateGoalProgress(goalId);
+    return milestone;
+  }
+
+  async deleteMilestone(id: number): Promise<boolean> {
+    const milestone = this.milestones.get(id);
+    if (!milestone) return false;
+    this.milestones.delete(id);
+    
+    const remaining = await this.getMilestones(milestone.goalId);
+    await this.updateGoal(milestone.goalId, { targetValue: remaining.length });
+    const goal = await this.recalculateGoalProgress(milestone.goalId);
+    if (goal && milestone.completed) {
+      await this.awardPoints(goal.userId, 'milestone_completed', { goalId: goal.id, revoke: true });
+    }
+    return true;
+  }
+
+  async reorderMilestones(goalId: number, orderedIds: number[]): Promise<Milestone[]> {
+    orderedIds.forEach((id, position) => {
+      const milestone = this.milestones.get(id);
+      if (milestone && milestone.goalId === goalId) {
+        this.milestones.set(id, { ...milestone, position });
+      }
+    });
+    return this.getMilestones(goalId);
   }
 
   // Action Items
-  async getActionItems(userId: number, date?: Date): Promise<(ActionItem & { goalDescription: string })[]> {
+  async getActionItems(userId: number, date?: Date): Promise<ActionItemWithGoal[]> {
     const userGoals = await this.getGoals(userId);
-    const goalIds = userGoals.map(goal => goal.id);
+    const liveGoalIds = new Set(userGoals.map(goal => goal.id));
     
     let items = Array.from(this.actionItems.values())
-      .filter(item => goalIds.includes(item.goalId));
+      .filter(item => item.userId === userId && (item.goalId === null || liveGoalIds.has(item.goalId)));
     
     // Filter by date if provided
     if (date) {
-      const startOfDay = new Date(date);
-      startOfDay.setHours(0, 0, 0, 0);
-      
-      const endOfDay = new Date(date);
-      endOfDay.setHours(23, 59, 59, 999);
+      const timeZone = await this.getTimeZone(userId);
+      const dayStart = startOfDayInZone(date, timeZone);
+      const nextDayStart = addDaysInZone(date, 1, timeZone);
       
       items = items.filter(item => 
-        item.date >= startOfDay && item.date <= endOfDay
+        item.date >= dayStart && item.date < nextDayStart
       );
     }
     
     // Add goal descriptions
-    return items.map(item => {
-      const goal = userGoals.find(g => g.id === item.goalId);
-      return {
-        ...item,
-        goalDescription: goal ? goal.description : "Unknown Goal"
-      };
-    });
+    return items
+      .sort((a, b) => a.position - b.position || a.id - b.id)
+      .map(item => {
+        const goal = userGoals.find(g => g.id === item.goalId);
+        return {
+          ...item,
+          goalDescription: goal ? goal.description : null,
+          goalUnit: goal ? goal.unit : null
+        };
+      });
+  }
+
+  async getOverdueActionItems(userId: number, date: Date): Promise<ActionItemWithGoal[]> {
+    const dayStart = startOfDayInZone(date, await this.getTimeZone(userId));
+    return (await this.getActionItems(userId))
+      .filter(item => item.custom && !item.completed && item.date < dayStart)
+      .sort((a, b) => a.date.getTime() - b.date.getTime() || a.position - b.position || a.id - b.id);
+  }
+
+  async getActionItem(id: number): Promise<ActionItem | undefined> {
+    return this.actionItems.get(id);
   }
 
   async createActionItem(item: InsertActionItem): Promise<ActionItem> {
+    const date = item.date ?? new Date();
+    const timeZone = await this.getTimeZone(item.userId);
+    const position = Array.from(this.actionItems.values())
+      .filter(other => other.userId === item.userId && isSameDayInZone(other.date, date, timeZone))
+      .reduce((last, other) => Math.max(last, other.position + 1), 0);
+    
     const id = this.actionItemId++;
     const newItem: ActionItem = { 
-      ...item, 
       id, 
+      userId: item.userId,
+      goalId: item.goalId ?? null,
+      description: item.description,
       completed: false, 
-      date: new Date() 
+      completedAt: null,
+      date,
+      custom: item.custom ?? false,
+      dueDate: item.dueDate ?? null,
+      quantity: item.quantity ?? null,
+      progressLogId: null,
+      position
     };
     this.actionItems.set(id, newItem);
     return newItem;
   }
 
-  async updateActionItem(id: number, completed: boolean): Promise<ActionItem> {
+  async updateActionItem(id: number, changes: ActionItemUpdate): Promise<ActionItem> {
     const item = this.actionItems.get(id);
     if (!item) throw new Error('Action item not found');
     
-    const updatedItem = { ...item, completed };
-    this.actionItems.set(id, updatedItem);
+    const updatedItem: ActionItem = { ...item, ...changes };
     
-    // If completed, award points to the user
-    if (completed && !item.completed) {
-      const goal = await this.getGoal(item.goalId);
-      if (goal && goal.userId) {
-        await this.updateUserPoints(goal.userId, 5);
+    // If completed, award points to the user and log the item's quantity
+    if (changes.completed && !item.completed) {
+      updatedItem.completedAt = new Date();
+      await this.awardPoints(item.userId, 'action_item_completed', { goalId: item.goalId });
+      if (updatedItem.goalId !== null && updatedItem.quantity !== null) {
+        const log = await this.createProgressLog({
+          goalId: updatedItem.goalId,
+          value: updatedItem.quantity,
+          notes: updatedItem.description
+        });
+        updatedItem.progressLogId = log.id;
+      }
+    } else if (changes.completed === false && item.completed) {
+      updatedItem.completedAt = null;
+      await this.awardPoints(item.userId, 'action_item_completed', { goalId: item.goalId, revoke: true });
+      if (item.progressLogId !== null) {
+        await this.deleteProgressLog(item.progressLogId);
+        updatedItem.progressLogId = null;
       }
     }
     
+    this.actionItems.set(id, updatedItem);
+    if (changes.completed && !item.completed) {
+      await this.unlockAchievements(item.userId);
+    }
     return updatedItem;
   }
 
+  async deleteActionItem(id: number): Promise<boolean> {
+    return this.actionItems.delete(id);
+  }
+
+  async reorderActionItems(userId: number, orderedIds: number[]): Promise<void> {
+    orderedIds.forEach((id, position) => {
+      const item = this.actionItems.get(id);
+      if (item && item.userId === userId) {
+        this.actionItems.set(id, { ...item, position });
+      }
+    });
+  }
+
+  async generateActionItems(date: Date, userId?: number): Promise<ActionItem[]> {
+    const candidates = Array.from(this.goals.values())
+      .filter(goal => userId === undefined || goal.userId === userId);
+    
+    const created: ActionItem[] = [];
+    for (const goal of candidates) {
+      const item = await this.generateActionItem(goal, date);
+      if (item) created.push(item);
+    }
+    return created;
+  }
+
+  private async generateActionItem(goal: Goal, date: Date): Promise<ActionItem | undefined> {
+    const hasSubGoals = (await this.getSubGoals(goal.id)).length > 0;
+    const timeZone = await this.getTimeZone(goal.userId);
+    if (!needsActionItem(goal, hasSubGoals, date, timeZone)) return undefined;
+    
+    // Custom items linked to the goal don't count; they're the user's own plans
+    const hasItem = Array.from(this.actionItems.values())
+      .some(item => item.goalId === goal.id && !item.custom && isSameDayInZone(item.date, date, timeZone));
+    if (hasItem) return undefined;
+    
+    const dayStart = startOfDayInZone(date, timeZone);
+    const earlierItems = Array.from(this.actionItems.values())
+      .filter(item => item.goalId === goal.id && !item.custom && item.date < dayStart)
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+    const plan = planActionItem(
+      goal,
+      await this.getProgressLogs(goal.id),
+      await this.getMilestones(goal.id),
+      date,
+      timeZone,
+      earlierItems
+    );
+    if (!plan) return undefined;
+    
+    return this.createActionItem({ userId: goal.userId, goalId: goal.id, ...plan, date });
+  }
+
+  // Points
+  async awardPoints(
+    userId: number,
+    event: PointEvent,
+    { goalId = null, revoke = false }: { goalId?: number | null; revoke?: boolean } = {}
+  ): Promise<User> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error('User not found');
+    
+    const points = getEventPoints(event, revoke);
+    const id = this.pointsLedgerId++;
+    this.pointsLedger.set(id, { id, userId, event, points, goalId, createdAt: new Date() });
+    
+    const newPoints = user.points + points;
+    const updatedUser = { ...user, points: newPoints, level: getLevel(newPoints) };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async getPointsHistory(userId: number): Promise<PointsLedgerEntryWithGoal[]> {
+    return Array.from(this.pointsLedger.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .map(entry => ({
+        ...entry,
+        goalDescription: entry.goalId !== null ? this.goals.get(entry.goalId)?.description ?? null : null
+      }));
+  }
+
+  // Achievements
+  async getAchievementStats(userId: number): Promise<AchievementStats> {
+    const userGoals = Array.from(this.goals.values()).filter(goal => goal.userId === userId);
+    const goalIds = new Set(userGoals.map(goal => goal.id));
+    const allCategories = await this.getCategories();
+    
+    // Goals completed through their progress hold a "Goal Achieved" badge
+    const completions = Array.from(this.badges.values())
+      .filter(badge => badge.userId === userId && badge.name === "Goal Achieved" && badge.goalId !== null)
+      .flatMap(badge => {
+        const goal = this.goals.get(badge.goalId!);
+        if (!goal) return [];
+        const category = allCategories.find(c => c.id === goal.categoryId);
+        return [{ completedAt: badge.achievedAt, deadline: goal.deadline, categoryName: category?.name ?? null }];
+      });
+    
+    return computeAchievementStats({
+      goals: userGoals,
+      logDates: Array.from(this.progressLogs.values())
+        .filter(log => goalIds.has(log.goalId))
+        .map(log => log.date),
+      completedActionItemDates: this.getCompletedActionItemDates(userId),
+      completions,
+      totalCategories: allCategories.length,
+      timeZone: await this.getTimeZone(userId)
+    });
+  }
+  
+  private getCompletedActionItemDates(userId: number): Date[] {
+    return Array.from(this.actionItems.values())
+      .filter(item => item.userId === userId && item.completedAt !== null)
+      .map(item => item.completedAt!);
+  }
+  
+  // Award a badge for each achievement the user now qualifies for but
+  // hasn't unlocked yet
+  private async unlockAchievements(userId: number): Promise<void> {
+    const unlocked = new Set(
+      Array.from(this.badges.values())
+        .filter(badge => badge.userId === userId)
+        .map(badge => badge.achievementId)
+    );
+    
+    for (const achievement of getMetAchievements(await this.getAchievementStats(userId))) {
+      if (unlocked.has(achievement.id)) continue;
+      await this.createBadge({
+        userId,
+        name: achievement.title,
+        description: achievement.description,
+        achievementId: achievement.id
+      });
+    }
+  }
+
+  // Streaks
+  async getStreaks(userId: number): Promise<UserStreaks> {
+    const goalIds = new Set(
+      Array.from(this.goals.values()).filter(goal => goal.userId === userId).map(goal => goal.id)
+    );
+    
+    return computeUserStreaks({
+      goals: await this.getGoals(userId),
+      logs: Array.from(this.progressLogs.values()).filter(log => goalIds.has(log.goalId)),
+      completedActionItemDates: this.getCompletedActionItemDates(userId),
+      timeZone: await this.getTimeZone(userId)
+    });
+  }
+
+  // Analytics
+  async getAnalytics(userId: number, query: AnalyticsQuery): Promise<Analytics> {
+    const userGoals = await this.getGoals(userId);
+    const goalIds = new Set(userGoals.map(goal => goal.id));
+    const completedAt = new Map<number, Date>();
+    this.badges.forEach(badge => {
+      if (badge.name === "Goal Achieved" && badge.goalId !== null && goalIds.has(badge.goalId)) {
+        completedAt.set(badge.goalId, badge.achievedAt);
+      }
+    });
+    
+    return computeAnalytics({
+      goals: userGoals.map(goal => ({ ...goal, completedAt: completedAt.get(goal.id) ?? null })),
+      logs: Array.from(this.progressLogs.values()).filter(log => goalIds.has(log.goalId)),
+      notes: Array.from(this.notes.values())
+        .filter(note => note.userId === userId)
+        .map(note => this.withLinks(note)),
+      categories: await this.getCategories(),
+      timeZone: await this.getTimeZone(userId)
+    }, query);
+  }
+
+  // Search
+  async search(userId: number, query: SearchQuery): Promise<SearchResults> {
+    const userGoals = await this.getGoals(userId);
+    const goalIds = new Set(userGoals.map(goal => goal.id));
+    
+    return search({
+      goals: userGoals,
+      progressLogs: Array.from(this.progressLogs.values()).filter(log => goalIds.has(log.goalId)),
+      notes: Array.from(this.notes.values()).filter(note => note.userId === userId)
+    }, query);
+  }
+
   // Badges
   async getBadgesByUser(userId: number): Promise<Badge[]> {
     return Array.from(this.badges.values())
@@ -315,7 +1113,13 @@ export class MemStorage implements IStorage {
 
   async createBadge(badge: InsertBadge): Promise<Badge> {
     const id = this.badgeId++;
-    const newBadge: Badge = { ...badge, id, achievedAt: new Date() };
+    const newBadge: Badge = {
+      ...badge,
+      id,
+      goalId: badge.goalId ?? null,
+      achievementId: badge.achievementId ?? null,
+      achievedAt: new Date()
+    };
     this.badges.set(id, newBadge);
     return newBadge;
   }
@@ -326,11 +1130,251 @@ export class MemStorage implements IStorage {
     const user = await this.getUser(userId);
     
     return {
-      activeGoals: goals.filter(g => !g.completed).length,
+      activeGoals: goals.filter(g => !g.completed && !g.archived).length,
       completedGoals: goals.filter(g => g.completed).length,
       pointsEarned: user?.points || 0
     };
   }
+  
+  // Notes
+  async getNotes(userId: number, { q, goalId, page, pageSize }: NoteQuery): Promise<NotePage> {
+    const search = q?.toLowerCase();
+    const matching = Array.from(this.notes.values())
+      .filter(note => note.userId === userId)
+      .filter(note => !search ||
+        note.title.toLowerCase().includes(search) ||
+        note.content.toLowerCase().includes(search))
+      .map(note => this.withLinks(note))
+      .filter(note => goalId === undefined || note.goalIds.includes(goalId))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime() || b.id - a.id);
+    
+    return {
+      notes: matching.slice((page - 1) * pageSize, page * pageSize),
+      total: matching.length,
+      page,
+      pageSize
+    };
+  }
+  
+  async getNote(id: number): Promise<NoteWithLinks | undefined> {
+    const note = this.notes.get(id);
+    return note && this.withLinks(note);
+  }
+  
+  async createNote(note: InsertNote, links?: NoteLinks): Promise<NoteWithLinks> {
+    const id = this.noteId++;
+    const now = new Date();
+    const newNote: Note = {
+      ...note,
+      id,
+      content: note.content ?? "",
+      createdAt: note.createdAt ?? now,
+      updatedAt: note.updatedAt ?? now
+    };
+    this.notes.set(id, newNote);
+    if (links) this.setNoteLinks(id, links);
+    return this.withLinks(newNote);
+  }
+  
+  async importNotes(notes: InsertNote[]): Promise<Note[]> {
+    const imported: Note[] = [];
+    for (const note of notes) {
+      const { goalIds, progressLogIds, ...newNote } = await this.createNote(note);
+      imported.push(newNote);
+    }
+    return imported;
+  }
+  
+  async updateNote(id: number, changes: NoteUpdate): Promise<NoteWithLinks> {
+    const note = this.notes.get(id);
+    if (!note) throw new Error('Note not found');
+    
+    const { goalIds, progressLogIds, ...fields } = changes;
+    const updatedNote = { ...note, ...fields, updatedAt: new Date() };
+    this.notes.set(id, updatedNote);
+    this.setNoteLinks(id, { goalIds, progressLogIds });
+    this.recordRevision(note, updatedNote);
+    return this.withLinks(updatedNote);
+  }
+  
+  async deleteNote(id: number): Promise<boolean> {
+    this.setNoteLinks(id, { goalIds: [], progressLogIds: [] });
+    this.noteRevisions.forEach((revision, revisionId) => {
+      if (revision.noteId === id) this.noteRevisions.delete(revisionId);
+    });
+    return this.notes.delete(id);
+  }
+  
+  // Note revisions
+  async getNoteRevisions(noteId: number): Promise<NoteRevision[]> {
+    return Array.from(this.noteRevisions.values())
+      .filter(revision => revision.noteId === noteId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getNoteRevision(id: number): Promise<NoteRevision | undefined> {
+    return this.noteRevisions.get(id);
+  }
+  
+  async restoreNoteRevision(id: number): Promise<NoteWithLinks> {
+    const revision = this.noteRevisions.get(id);
+    const note = revision && this.notes.get(revision.noteId);
+    if (!revision || !note) throw new Error('Note revision not found');
+    
+    const restoredNote = { ...note, title: revision.title, content: revision.content, updatedAt: new Date() };
+    this.notes.set(note.id, restoredNote);
+    this.recordRevision(note, restoredNote, { startNew: true });
+    return this.withLinks(restoredNote);
+  }
+  
+  private withLinks(note: Note): NoteWithLinks {
+    return {
+      ...note,
+      goalIds: Array.from(this.noteGoals.values())
+        .filter(link => link.noteId === note.id)
+        .map(link => link.goalId),
+      progressLogIds: Array.from(this.noteProgressLogs.values())
+        .filter(link => link.noteId === note.id)
+        .map(link => link.progressLogId)
+    };
+  }
+  
+  // Replaces whichever kinds of links are given
+  private setNoteLinks(noteId: number, { goalIds, progressLogIds }: Partial<NoteLinks>): void {
+    if (goalIds) {
+      this.noteGoals.forEach((link, linkId) => {
+        if (link.noteId === noteId) this.noteGoals.delete(linkId);
+      });
+      for (const goalId of goalIds) {
+        const id = this.noteGoalId++;
+        this.noteGoals.set(id, { id, noteId, goalId });
+      }
+    }
+    if (progressLogIds) {
+      this.noteProgressLogs.forEach((link, linkId) => {
+        if (link.noteId === noteId) this.noteProgressLogs.delete(linkId);
+      });
+      for (const progressLogId of progressLogIds) {
+        const id = this.noteProgressLogId++;
+        this.noteProgressLogs.set(id, { id, noteId, progressLogId });
+      }
+    }
+  }
+  
+  // Saves `after` to the note's revisions; `before` becomes its first
+  // revision if it has none yet
+  private recordRevision(before: Note, after: Note, { startNew = false } = {}): void {
+    if (before.title === after.title && before.content === after.content) return;
+    
+    const addRevision = ({ title, content, updatedAt }: Note) => {
+      const revision: NoteRevision = {
+        id: this.noteRevisionId++,
+        noteId: after.id,
+        title,
+        content,
+        peakContentLength: content.length,
+        createdAt: updatedAt,
+        updatedAt
+      };
+      this.noteRevisions.set(revision.id, revision);
+      return revision;
+    };
+    
+    let [latest] = Array.from(this.noteRevisions.values())
+      .filter(revision => revision.noteId === after.id)
+      .sort((a, b) => b.id - a.id);
+    if (!latest) latest = addRevision(before);
+    if (startNew || startsNewRevision(latest, after, after.updatedAt)) {
+      addRevision(after);
+    } else {
+      this.noteRevisions.set(latest.id, {
+        ...latest,
+        title: after.title,
+        content: after.content,
+        peakContentLength: Math.max(latest.peakContentLength, after.content.length),
+        updatedAt: after.updatedAt
+      });
+    }
+    
+    Array.from(this.noteRevisions.values())
+      .filter(revision => revision.noteId === after.id)
+      .sort((a, b) => b.id - a.id)
+      .slice(revisionRules.maxRevisions)
+      .forEach(revision => this.noteRevisions.delete(revision.id));
+  }
+  
+  private deleteProgressLogLinks(progressLogId: number): void {
+    this.noteProgressLogs.forEach((link, linkId) => {
+      if (link.progressLogId === progressLogId) this.noteProgressLogs.delete(linkId);
+    });
+  }
+  
+  // Note templates
+  async getNoteTemplates(userId: number): Promise<NoteTemplate[]> {
+    // Read and mark the user without awaiting in between, so overlapping
+    // first reads copy the defaults once
+    const user = this.users.get(userId);
+    if (user && !user.noteTemplatesSeeded) {
+      this.users.set(userId, { ...user, noteTemplatesSeeded: true });
+      await Promise.all(defaultNoteTemplates.map(template => this.createNoteTemplate({ ...template, userId })));
+    }
+    
+    return Array.from(this.noteTemplates.values())
+      .filter(template => template.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getNoteTemplate(id: number): Promise<NoteTemplate | undefined> {
+    return this.noteTemplates.get(id);
+  }
+  
+  async createNoteTemplate(template: InsertNoteTemplate): Promise<NoteTemplate> {
+    const id = this.noteTemplateId++;
+    const newTemplate: NoteTemplate = {
+      ...template,
+      id,
+      content: template.content ?? "",
+      createdAt: new Date()
+    };
+    this.noteTemplates.set(id, newTemplate);
+    return newTemplate;
+  }
+  
+  async updateNoteTemplate(id: number, changes: NoteTemplateUpdate): Promise<NoteTemplate> {
+    const template = this.noteTemplates.get(id);
+    if (!template) throw new Error('Note template not found');
+    
+    const updatedTemplate = { ...template, ...changes };
+    this.noteTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+  
+  async deleteNoteTemplate(id: number): Promise<boolean> {
+    return this.noteTemplates.delete(id);
+  }
+}
+
+/**
+ * Pick the storage backend at startup.
+ *
+ * STORAGE_DRIVER=postgres uses DbStorage against DATABASE_URL and
+ * STORAGE_DRIVER=memory keeps everything in process. When unset, PostgreSQL
+ * is used whenever DATABASE_URL is provisioned.
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER ?? (process.env.DATABASE_URL ? 'postgres' : 'memory');
+
+  switch (driver) {
+    case 'postgres': {
+      const pool = createPool();
+      const sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+      return new DbStorage(createDb(pool), sessionStore);
+    }
+    case 'memory':
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "postgres" or "memory"`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
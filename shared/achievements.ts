@@ -0,0 +1,177 @@
+import type { Badge } from "./schema";
+import { computeStreak } from "./streaks";
+import { differenceInCalendarDaysInZone } from "./timezone";
+
+/**
+ * The achievement catalog. Each achievement unlocks once its criterion is
+ * met and is then kept as a badge, even if the progress behind it is later
+ * undone. Storage checks the catalog whenever progress is logged, a goal is
+ * created, a goal is completed or an action item is checked off.
+ *
+ * Completions only count goals completed through their progress (the ones
+ * holding a "Goal Achieved" badge), so marking goals complete by hand can't
+ * unlock anything.
+ */
+
+export const achievementCategories = ["streaks", "milestones", "categories", "special"] as const;
+export type AchievementCategory = typeof achievementCategories[number];
+
+export type AchievementCriterion =
+  // A streak (see shared/streaks.ts) this many days long
+  | { type: "streak"; days: number }
+  | { type: "progressLogs"; count: number }
+  | { type: "goalsCreated"; count: number }
+  // Optionally only goals in the named category
+  | { type: "goalsCompleted"; count: number; category?: string }
+  // At least one goal in every category
+  | { type: "categoryCoverage" }
+  // Completed before the day of their deadline
+  | { type: "earlyCompletions"; count: number };
+
+export interface Achievement {
+  // Stable key, stored on the badge that records the unlock
+  id: string;
+  category: AchievementCategory;
+  title: string;
+  description: string;
+  criterion: AchievementCriterion;
+}
+
+export const achievements: Achievement[] = [
+  { id: "first-steps", category: "streaks", title: "First Steps", description: "Keep a 3-day streak", criterion: { type: "streak", days: 3 } },
+  { id: "consistency-master", category: "streaks", title: "Consistency Master", description: "Keep a 7-day streak", criterion: { type: "streak", days: 7 } },
+  { id: "dedicated-tracker", category: "streaks", title: "Dedicated Tracker", description: "Keep a 30-day streak", criterion: { type: "streak", days: 30 } },
+  { id: "hundred-day-streak", category: "streaks", title: "100-Day Streak", description: "Keep a 100-day streak", criterion: { type: "streak", days: 100 } },
+  { id: "goal-setter", category: "milestones", title: "Goal Setter", description: "Create your first goal", criterion: { type: "goalsCreated", count: 1 } },
+  { id: "progress-tracker", category: "milestones", title: "Progress Tracker", description: "Log progress 10 times", criterion: { type: "progressLogs", count: 10 } },
+  { id: "goal-completer", category: "milestones", title: "Goal Completer", description: "Complete 5 goals", criterion: { type: "goalsCompleted", count: 5 } },
+  { id: "fitness-enthusiast", category: "categories", title: "Fitness Enthusiast", description: "Complete 3 fitness goals", criterion: { type: "goalsCompleted", count: 3, category: "Fitness" } },
+  { id: "scholar", category: "categories", title: "Scholar", description: "Complete 3 learning goals", criterion: { type: "goalsCompleted", count: 3, category: "Learning" } },
+  { id: "career-climber", category: "categories", title: "Career Climber", description: "Complete 3 career goals", criterion: { type: "goalsCompleted", count: 3, category: "Career" } },
+  { id: "overachiever", category: "special", title: "Overachiever", description: "Complete a goal before its deadline", criterion: { type: "earlyCompletions", count: 1 } },
+  { id: "fast-achiever", category: "special", title: "Fast Achiever", description: "Complete 5 goals before their deadlines", criterion: { type: "earlyCompletions", count: 5 } },
+  { id: "perfect-planner", category: "special", title: "Perfect Planner", description: "Create goals in all categories", criterion: { type: "categoryCoverage" } },
+  { id: "goal-master", category: "special", title: "Goal Master", description: "Complete 50 goals total", criterion: { type: "goalsCompleted", count: 50 } },
+];
+
+/**
+ * What the criteria are measured against
+ */
+export interface AchievementStats {
+  longestStreak: number;
+  progressLogs: number;
+  goalsCreated: number;
+  goalsCompleted: number;
+  // Completed goals per category name
+  completedByCategory: Record<string, number>;
+  categoriesUsed: number;
+  totalCategories: number;
+  earlyCompletions: number;
+}
+
+/**
+ * A user's activity as storage finds it, for computeAchievementStats
+ */
+export interface AchievementActivity {
+  // Every goal the user has created, trashed or not
+  goals: { categoryId: number | null }[];
+  logDates: Date[];
+  completedActionItemDates: Date[];
+  // Goals completed through their progress, with when they were completed
+  completions: { completedAt: Date; deadline: Date; categoryName: string | null }[];
+  totalCategories: number;
+  timeZone: string;
+}
+
+export function computeAchievementStats(activity: AchievementActivity, now: Date = new Date()): AchievementStats {
+  const completedByCategory: Record<string, number> = {};
+  for (const { categoryName } of activity.completions) {
+    if (categoryName !== null) {
+      completedByCategory[categoryName] = (completedByCategory[categoryName] ?? 0) + 1;
+    }
+  }
+
+  const categoryIds = activity.goals
+    .map((goal) => goal.categoryId)
+    .filter((id): id is number => id !== null);
+
+  return {
+    longestStreak: computeStreak(
+      [...activity.logDates, ...activity.completedActionItemDates],
+      activity.timeZone,
+      now
+    ).longest,
+    progressLogs: activity.logDates.length,
+    goalsCreated: activity.goals.length,
+    goalsCompleted: activity.completions.length,
+    completedByCategory,
+    categoriesUsed: new Set(categoryIds).size,
+    totalCategories: activity.totalCategories,
+    earlyCompletions: activity.completions.filter(
+      (completion) => differenceInCalendarDaysInZone(completion.deadline, completion.completedAt, activity.timeZone) > 0
+    ).length,
+  };
+}
+
+/**
+ * How far `stats` are towards `criterion`
+ */
+function measure(criterion: AchievementCriterion, stats: AchievementStats): { current: number; target: number } {
+  switch (criterion.type) {
+    case "streak":
+      return { current: stats.longestStreak, target: criterion.days };
+    case "progressLogs":
+      return { current: stats.progressLogs, target: criterion.count };
+    case "goalsCreated":
+      return { current: stats.goalsCreated, target: criterion.count };
+    case "goalsCompleted":
+      return {
+        current: criterion.category === undefined
+          ? stats.goalsCompleted
+          : stats.completedByCategory[criterion.category] ?? 0,
+        target: criterion.count,
+      };
+    case "categoryCoverage":
+      return { current: stats.categoriesUsed, target: stats.totalCategories };
+    case "earlyCompletions":
+      return { current: stats.earlyCompletions, target: criterion.count };
+  }
+}
+
+/**
+ * Achievements whose criteria `stats` meet
+ */
+export function getMetAchievements(stats: AchievementStats): Achievement[] {
+  return achievements.filter((achievement) => {
+    const { current, target } = measure(achievement.criterion, stats);
+    return target > 0 && current >= target;
+  });
+}
+
+export interface AchievementStatus extends Omit<Achievement, "criterion"> {
+  unlocked: boolean;
+  unlockedAt: Date | null;
+  current: number;
+  target: number;
+  // 0-100; 100 once unlocked
+  progress: number;
+}
+
+/**
+ * Every achievement with whether `badges` show it unlocked and how close
+ * `stats` are to it
+ */
+export function describeAchievements(stats: AchievementStats, badges: Badge[]): AchievementStatus[] {
+  return achievements.map(({ criterion, ...achievement }) => {
+    const badge = badges.find((earned) => earned.achievementId === achievement.id);
+    const { current, target } = measure(criterion, stats);
+    return {
+      ...achievement,
+      unlocked: badge !== undefined,
+      unlockedAt: badge?.achievedAt ?? null,
+      current: Math.min(current, target),
+      target,
+      progress: badge ? 100 : target > 0 ? Math.floor((Math.min(current, target) / target) * 100) : 0,
+    };
+  });
+}
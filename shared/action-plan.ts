@@ -0,0 +1,195 @@
+import type { ActionItem, Goal, Milestone, ProgressLog } from "./schema";
+import { computeCurrentValue, isLowerBetter } from "./goal-progress";
+import { getPeriodEnd, getPeriodStart, isRecurring } from "./recurrence";
+import {
+  addDaysInZone,
+  differenceInCalendarDaysInZone,
+  isSameDayInZone,
+  startOfDayInZone,
+} from "./timezone";
+
+/**
+ * What to do on a given day for each goal. Plans only look at progress logged
+ * before that day starts, so a day's action item stays the same however much
+ * is logged during it. Days are the owner's, in their time zone.
+ *
+ * - recurring goals: what's left of the current period's target
+ * - cumulative: the remaining total spread over the days left, compared with
+ *   the recent pace. Days whose item was left unchecked leave more to spread,
+ *   so the amount grows after them and the plan says so.
+ * - decreasing / latest: the measurement to aim for today to stay on track
+ * - boolean: a reminder with how many times are left
+ * - checklist: the next milestone
+ *
+ * Each plan also says how much progress checking the item off should log:
+ * the amount it asks for (1 for habits), or nothing for measurements and
+ * milestones, which are recorded by hand.
+ */
+
+type PlannedGoal = Pick<
+  Goal,
+  "goalType" | "recurrence" | "startValue" | "targetValue" | "unit" | "deadline"
+>;
+
+export interface ActionPlan {
+  description: string;
+  // Progress to log on the goal when the item is completed
+  quantity: number | null;
+}
+
+// How many days of logs make up the recent pace
+const PACE_WINDOW_DAYS = 7;
+
+function formatAmount(amount: number): string {
+  if (Number.isInteger(amount)) return amount.toString();
+  // Far-off deadlines can leave less than a tenth a day; don't round it to 0
+  return amount < 0.1 ? amount.toPrecision(1) : amount.toFixed(1);
+}
+
+/**
+ * The amount as shown in the description, so checking off "Do 1.4 km
+ * today" logs exactly 1.4
+ */
+function toQuantity(amount: number): number {
+  return Number(formatAmount(amount));
+}
+
+function logsBefore<T extends Pick<ProgressLog, "date">>(logs: T[], end: Date, start?: Date): T[] {
+  return logs.filter((log) => log.date < end && (!start || log.date >= start));
+}
+
+/**
+ * Days from `dayStart` to the deadline, counting both; at least 1
+ */
+function getDaysLeft(goal: Pick<Goal, "deadline">, dayStart: Date, timeZone: string): number {
+  return Math.max(differenceInCalendarDaysInZone(goal.deadline, dayStart, timeZone) + 1, 1);
+}
+
+function planRecurringItem(
+  goal: PlannedGoal,
+  logs: Pick<ProgressLog, "value" | "date">[],
+  dayStart: Date,
+  timeZone: string,
+): ActionPlan | undefined {
+  const periodStart = getPeriodStart(goal.recurrence, dayStart, timeZone);
+  const done = computeCurrentValue(goal, logsBefore(logs, dayStart, periodStart));
+  const remaining = goal.targetValue - done;
+  if (remaining <= 0) return undefined;
+
+  const amount = formatAmount(remaining);
+  if (goal.goalType === "boolean") {
+    const times = remaining === 1 ? "time" : "times";
+    const description = goal.recurrence === "weekly" ? `Do it ${amount} more ${times} this week` : "Do it today";
+    return { description, quantity: 1 };
+  }
+  if (goal.recurrence === "weekly") {
+    // Spread the rest of the week's target over the days left in it
+    const periodEnd = getPeriodEnd(goal.recurrence, periodStart, timeZone);
+    const daysLeft = differenceInCalendarDaysInZone(periodEnd, dayStart, timeZone);
+    const today = remaining / daysLeft;
+    return {
+      description: `Do ${formatAmount(today)} ${goal.unit} today (${amount} more this week)`,
+      quantity: toQuantity(today),
+    };
+  }
+  return { description: `Do ${amount} ${goal.unit} today`, quantity: toQuantity(remaining) };
+}
+
+/**
+ * The action item for `goal` on the day containing `date`, or undefined when
+ * there is nothing left to do. `logs` must be in date order
+ * and `milestones` in position order; `earlierItems` are the goal's
+ * generated items from before that day, newest first.
+ */
+export function planActionItem(
+  goal: PlannedGoal,
+  logs: Pick<ProgressLog, "value" | "date">[],
+  milestones: Pick<Milestone, "title" | "completed">[],
+  date: Date,
+  timeZone: string,
+  earlierItems: Pick<ActionItem, "completed" | "date">[] = [],
+): ActionPlan | undefined {
+  const dayStart = startOfDayInZone(date, timeZone);
+  if (isRecurring(goal)) {
+    return planRecurringItem(goal, logs, dayStart, timeZone);
+  }
+
+  const earlierLogs = logsBefore(logs, dayStart);
+  const current = computeCurrentValue(goal, earlierLogs);
+  const daysLeft = getDaysLeft(goal, dayStart, timeZone);
+
+  switch (goal.goalType) {
+    case "checklist": {
+      const next = milestones.find((milestone) => !milestone.completed);
+      return next ? { description: `Complete "${next.title}"`, quantity: null } : undefined;
+    }
+    case "boolean": {
+      const remaining = goal.targetValue - current;
+      if (remaining <= 0) return undefined;
+      return { description: `Do it today (${formatAmount(remaining)} ${goal.unit} to go)`, quantity: 1 };
+    }
+    case "decreasing":
+    case "latest": {
+      const lowerIsBetter = isLowerBetter(goal);
+      const remaining = lowerIsBetter ? current - goal.targetValue : goal.targetValue - current;
+      if (remaining <= 0) return undefined;
+
+      const step = remaining / daysLeft;
+      const aim = lowerIsBetter ? current - step : current + step;
+      return { description: `Record your ${goal.unit} today (aim for ${formatAmount(aim)})`, quantity: null };
+    }
+    default: {
+      const remaining = goal.targetValue - current;
+      if (remaining <= 0) return undefined;
+
+      const needed = remaining / daysLeft;
+      const recent = logsBefore(earlierLogs, dayStart, addDaysInZone(dayStart, -PACE_WINDOW_DAYS, timeZone));
+      const pace = recent.reduce((total, log) => total + log.value, 0) / PACE_WINDOW_DAYS;
+      const missedDays = countMissedDays(earlierItems, earlierLogs, timeZone);
+      let description = `Do ${formatAmount(needed)} ${goal.unit} today`;
+      if (missedDays > 0) {
+        description += ` to make up for ${missedDays} missed ${missedDays === 1 ? "day" : "days"}`;
+      } else if (pace > 0 && pace < needed) {
+        // Only mention the pace once there is one and it falls short
+        description += ` (up from ${formatAmount(pace)} a day lately)`;
+      }
+      return { description, quantity: toQuantity(needed) };
+    }
+  }
+}
+
+/**
+ * How many days in a row, going back from the most recent, had an item that
+ * was neither checked off nor made up for by logging progress that day.
+ * `items` are a goal's generated items from before the day being planned,
+ * newest first.
+ */
+function countMissedDays(
+  items: Pick<ActionItem, "completed" | "date">[],
+  logs: Pick<ProgressLog, "date">[],
+  timeZone: string,
+): number {
+  let missed = 0;
+  for (const item of items) {
+    if (item.completed || logs.some((log) => isSameDayInZone(log.date, item.date, timeZone))) break;
+    missed++;
+  }
+  return missed;
+}
+
+/**
+ * Whether a goal should get an action item on the day containing `date`: it
+ * must be live, unfinished, not yet past its deadline, already created, and
+ * not a parent whose sub-goals get the action items instead
+ */
+export function needsActionItem(
+  goal: Pick<Goal, "completed" | "archived" | "deletedAt" | "deadline" | "createdAt">,
+  hasSubGoals: boolean,
+  date: Date,
+  timeZone: string,
+): boolean {
+  const dayStart = startOfDayInZone(date, timeZone);
+  return !goal.completed && !goal.archived && goal.deletedAt === null && !hasSubGoals &&
+    startOfDayInZone(goal.deadline, timeZone) >= dayStart &&
+    startOfDayInZone(goal.createdAt, timeZone) <= dayStart;
+}
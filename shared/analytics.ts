@@ -0,0 +1,354 @@
+import type { AnalyticsQuery, AnalyticsTimeFrame } from "./schema";
+import {
+  addDaysInZone,
+  addMonthsInZone,
+  differenceInCalendarDaysInZone,
+  formatDateKey,
+  getHourInZone,
+  getWeekdayInZone,
+  startOfWeekInZone,
+} from "./timezone";
+
+/**
+ * Aggregates of a user's goals and progress logs for the analytics page,
+ * bucketed by days, weeks or months in the user's time zone. Logs are
+ * counted rather than summed, since goals measure different units.
+ *
+ * The time frame covers the last 7 days ("week"), 30 days ("month"), 13
+ * weeks ("quarter") or 12 months ("year") up to now, or every month since
+ * the user's first goal or log ("all"). Reflections (notes) are counted by
+ * when they were written, next to the logs; narrowed to one goal, only the
+ * reflections linked to it count.
+ */
+
+export type AnalyticsGranularity = "day" | "week" | "month";
+
+export const timesOfDay = ["morning", "afternoon", "evening", "night"] as const;
+export type TimeOfDay = typeof timesOfDay[number];
+
+/**
+ * A user's goals and logs as storage finds them, for computeAnalytics
+ */
+export interface AnalyticsActivity {
+  // Goals outside the trash
+  goals: {
+    id: number;
+    categoryId: number | null;
+    completed: boolean;
+    archived: boolean;
+    createdAt: Date;
+    deadline: Date;
+    // When progress completed the goal (its "Goal Achieved" badge); null
+    // if it isn't complete or was marked complete by hand
+    completedAt: Date | null;
+  }[];
+  // Logs on those goals
+  logs: { goalId: number; date: Date }[];
+  // The user's notes, with the goals they're linked to
+  notes: { createdAt: Date; goalIds: number[] }[];
+  categories: { id: number; name: string; color: string }[];
+  timeZone: string;
+}
+
+export interface ProgressBucket {
+  // First day of the bucket, "YYYY-MM-DD"
+  start: string;
+  logs: number;
+  reflections: number;
+}
+
+export interface CompletionBucket {
+  start: string;
+  // Goals completed during the bucket
+  completed: number;
+  // Goals still open at its end
+  active: number;
+}
+
+export interface CategoryBreakdown {
+  // Null for goals without a category
+  categoryId: number | null;
+  name: string;
+  color: string;
+  // Goals open at some point during the time frame, and how many of them
+  // are complete now
+  goals: number;
+  completed: number;
+  logs: number;
+}
+
+export interface AnalyticsInsights {
+  // Days of the week (0 is Sunday) with the most and fewest logs; null
+  // without any logs
+  mostProductiveWeekday: number | null;
+  leastProductiveWeekday: number | null;
+  // First hour (0-23) of the two-hour window with the most logs
+  topActivityHour: number | null;
+  // Share of days with a log, out of 10
+  consistencyScore: number;
+  // Percentage of the goals completed in the time frame that were done by
+  // their deadline
+  onTimeRate: number | null;
+  averageDaysToComplete: number | null;
+  mostCompletedCategory: string | null;
+  // Percentage change in completions against the time frame before; null
+  // for "all" or when nothing was completed before
+  completionTrend: number | null;
+}
+
+export interface Analytics {
+  timeFrame: AnalyticsTimeFrame;
+  // The goal the figures are narrowed to, if any
+  goalId: number | null;
+  granularity: AnalyticsGranularity;
+  // First day covered, "YYYY-MM-DD"
+  from: string;
+  progress: ProgressBucket[];
+  completions: CompletionBucket[];
+  categories: CategoryBreakdown[];
+  // Logs per day of the week, Sunday first
+  byWeekday: number[];
+  byTimeOfDay: Record<TimeOfDay, number>;
+  // Logs per day over the last 28 days, whatever the time frame, oldest first
+  heatmap: { date: string; logs: number }[];
+  insights: AnalyticsInsights;
+}
+
+const granularities: Record<AnalyticsTimeFrame, AnalyticsGranularity> = {
+  week: "day",
+  month: "day",
+  quarter: "week",
+  year: "month",
+  all: "month",
+};
+
+/**
+ * Start of the bucket `amount` buckets after the one starting at `start`
+ */
+function step(start: Date, amount: number, granularity: AnalyticsGranularity, timeZone: string): Date {
+  switch (granularity) {
+    case "day":
+      return addDaysInZone(start, amount, timeZone);
+    case "week":
+      return addDaysInZone(start, amount * 7, timeZone);
+    case "month":
+      return addMonthsInZone(start, amount, timeZone);
+  }
+}
+
+function getFirstBucket(timeFrame: AnalyticsTimeFrame, activity: AnalyticsActivity, now: Date): Date {
+  const { timeZone } = activity;
+  switch (timeFrame) {
+    case "week":
+      return addDaysInZone(now, -6, timeZone);
+    case "month":
+      return addDaysInZone(now, -29, timeZone);
+    case "quarter":
+      return startOfWeekInZone(addDaysInZone(now, -12 * 7, timeZone), timeZone);
+    case "year":
+      return addMonthsInZone(now, -11, timeZone);
+    case "all": {
+      const earliest = Math.min(
+        now.getTime(),
+        ...activity.goals.map((goal) => goal.createdAt.getTime()),
+        ...activity.logs.map((log) => log.date.getTime())
+      );
+      return addMonthsInZone(new Date(earliest), 0, timeZone);
+    }
+  }
+}
+
+function getTimeOfDay(hour: number): TimeOfDay {
+  if (hour >= 5 && hour < 12) return "morning";
+  if (hour >= 12 && hour < 17) return "afternoon";
+  if (hour >= 17 && hour < 22) return "evening";
+  return "night";
+}
+
+/**
+ * Index of the largest count, or null if they're all zero
+ */
+function indexOfMax(counts: number[]): number | null {
+  const max = Math.max(...counts);
+  return max > 0 ? counts.indexOf(max) : null;
+}
+
+/**
+ * The part of `activity` about one goal
+ */
+function narrowToGoal(activity: AnalyticsActivity, goalId: number): AnalyticsActivity {
+  return {
+    ...activity,
+    goals: activity.goals.filter((goal) => goal.id === goalId),
+    logs: activity.logs.filter((log) => log.goalId === goalId),
+    notes: activity.notes.filter((note) => note.goalIds.includes(goalId)),
+  };
+}
+
+export function computeAnalytics(
+  userActivity: AnalyticsActivity,
+  { timeFrame, goalId }: AnalyticsQuery,
+  now: Date = new Date()
+): Analytics {
+  const activity = goalId === undefined ? userActivity : narrowToGoal(userActivity, goalId);
+  const { timeZone } = activity;
+  const granularity = granularities[timeFrame];
+  const from = getFirstBucket(timeFrame, activity, now);
+
+  const starts: Date[] = [];
+  for (let start = from; start <= now; start = step(start, 1, granularity, timeZone)) {
+    starts.push(start);
+  }
+  const bucketOf = (date: Date) => {
+    for (let i = starts.length - 1; i >= 0; i--) {
+      if (date >= starts[i]) return i;
+    }
+    return -1;
+  };
+  const inRange = (date: Date) => date >= from && date <= now;
+
+  // Goals marked complete by hand have no completion time; treat them as
+  // done from the start
+  const closedAt = (goal: AnalyticsActivity["goals"][number]) =>
+    goal.completed ? goal.completedAt ?? goal.createdAt : null;
+
+  const logs = activity.logs.filter((log) => inRange(log.date));
+  const completions = activity.goals.filter(
+    (goal) => goal.completedAt !== null && inRange(goal.completedAt)
+  );
+
+  const progress = starts.map((start) => ({ start: formatDateKey(start, timeZone), logs: 0, reflections: 0 }));
+  const byWeekday = [0, 0, 0, 0, 0, 0, 0];
+  const byHour = new Array<number>(24).fill(0);
+  const byTimeOfDay: Record<TimeOfDay, number> = { morning: 0, afternoon: 0, evening: 0, night: 0 };
+  const activeDays = new Set<string>();
+  for (const log of logs) {
+    progress[bucketOf(log.date)].logs++;
+    byWeekday[getWeekdayInZone(log.date, timeZone)]++;
+    const hour = getHourInZone(log.date, timeZone);
+    byHour[hour]++;
+    byTimeOfDay[getTimeOfDay(hour)]++;
+    activeDays.add(formatDateKey(log.date, timeZone));
+  }
+  for (const note of activity.notes) {
+    if (inRange(note.createdAt)) progress[bucketOf(note.createdAt)].reflections++;
+  }
+
+  const completionBuckets = starts.map((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1] : now;
+    return {
+      start: formatDateKey(start, timeZone),
+      completed: completions.filter((goal) => bucketOf(goal.completedAt!) === i).length,
+      active: activity.goals.filter((goal) => {
+        const closed = closedAt(goal);
+        return !goal.archived && goal.createdAt < end && (closed === null || closed >= end);
+      }).length,
+    };
+  });
+
+  const categories: CategoryBreakdown[] = [];
+  for (const goal of activity.goals) {
+    const closed = closedAt(goal);
+    if (goal.createdAt > now || (closed !== null && closed < from)) continue;
+    let breakdown = categories.find((c) => c.categoryId === goal.categoryId);
+    if (!breakdown) {
+      const category = activity.categories.find((c) => c.id === goal.categoryId);
+      breakdown = {
+        categoryId: category?.id ?? null,
+        name: category?.name ?? "Uncategorized",
+        color: category?.color ?? "#6b7280",
+        goals: 0,
+        completed: 0,
+        logs: 0,
+      };
+      categories.push(breakdown);
+    }
+    breakdown.goals++;
+    if (goal.completed) breakdown.completed++;
+    breakdown.logs += logs.filter((log) => log.goalId === goal.id).length;
+  }
+  categories.sort((a, b) => b.goals - a.goals);
+
+  const heatmap = Array.from({ length: 28 }, (_, i) => ({
+    date: formatDateKey(addDaysInZone(now, i - 27, timeZone), timeZone),
+    logs: 0,
+  }));
+  for (const log of activity.logs) {
+    const day = heatmap.find((entry) => entry.date === formatDateKey(log.date, timeZone));
+    if (day) day.logs++;
+  }
+
+  return {
+    timeFrame,
+    goalId: goalId ?? null,
+    granularity,
+    from: formatDateKey(from, timeZone),
+    progress,
+    completions: completionBuckets,
+    categories,
+    byWeekday,
+    byTimeOfDay,
+    heatmap,
+    insights: computeInsights(activity, timeFrame, { from, now, starts, logs, completions, byWeekday, byHour, activeDays }),
+  };
+}
+
+function computeInsights(
+  activity: AnalyticsActivity,
+  timeFrame: AnalyticsTimeFrame,
+  range: {
+    from: Date;
+    now: Date;
+    starts: Date[];
+    logs: AnalyticsActivity["logs"];
+    completions: AnalyticsActivity["goals"];
+    byWeekday: number[];
+    byHour: number[];
+    activeDays: Set<string>;
+  }
+): AnalyticsInsights {
+  const { timeZone } = activity;
+  const { from, now, logs, completions, byWeekday, byHour } = range;
+
+  const days = differenceInCalendarDaysInZone(now, from, timeZone) + 1;
+  const windows = byHour.map((count, hour) => count + byHour[(hour + 1) % 24]);
+
+  const completedByCategory: Record<string, number> = {};
+  for (const goal of completions) {
+    const name = activity.categories.find((c) => c.id === goal.categoryId)?.name;
+    if (name) completedByCategory[name] = (completedByCategory[name] ?? 0) + 1;
+  }
+  const [mostCompleted] = Object.entries(completedByCategory).sort((a, b) => b[1] - a[1]);
+
+  let completionTrend: number | null = null;
+  if (timeFrame !== "all") {
+    const granularity = granularities[timeFrame];
+    const previousFrom = step(from, -range.starts.length, granularity, timeZone);
+    const previous = activity.goals.filter(
+      (goal) => goal.completedAt !== null && goal.completedAt >= previousFrom && goal.completedAt < from
+    ).length;
+    if (previous > 0) {
+      completionTrend = Math.round(((completions.length - previous) / previous) * 100);
+    }
+  }
+
+  const daysToComplete = completions.map((goal) =>
+    differenceInCalendarDaysInZone(goal.completedAt!, goal.createdAt, timeZone)
+  );
+  const onTime = completions.filter(
+    (goal) => differenceInCalendarDaysInZone(goal.deadline, goal.completedAt!, timeZone) >= 0
+  ).length;
+
+  return {
+    mostProductiveWeekday: indexOfMax(byWeekday),
+    leastProductiveWeekday: logs.length > 0 ? byWeekday.indexOf(Math.min(...byWeekday)) : null,
+    topActivityHour: indexOfMax(windows),
+    consistencyScore: Math.round((range.activeDays.size / days) * 100) / 10,
+    onTimeRate: completions.length > 0 ? Math.round((onTime / completions.length) * 100) : null,
+    averageDaysToComplete: daysToComplete.length > 0
+      ? Math.round(daysToComplete.reduce((sum, d) => sum + d, 0) / daysToComplete.length)
+      : null,
+    mostCompletedCategory: mostCompleted?.[0] ?? null,
+    completionTrend,
+  };
+}
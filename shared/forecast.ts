@@ -0,0 +1,172 @@
+import type { Goal, ProgressLog } from "./schema";
+import { computeCurrentValue, getBaselineValue, getProgressFraction } from "./goal-progress";
+import { getPeriodEnd, isRecurring } from "./recurrence";
+import { addDaysInZone, differenceInCalendarDaysInZone, formatDateKey, getDayNumber } from "./timezone";
+
+/**
+ * Forecasts whether a goal will be finished by its deadline, from the pace
+ * of its progress so far. Pace is measured as the share of the way from the
+ * baseline to the target covered per day, so it works the same for goals
+ * that count up and goals that count down.
+ *
+ * - linear: the average pace since the goal was created
+ * - recent: each day's progress weighted by how recent it is, halving
+ *   every `recentHalfLifeDays`, so a slowdown (or a spurt) shows quickly
+ *
+ * A goal is on track when its recent pace meets the rate still required,
+ * behind when its deadline has passed or it is more than `behindMargin`
+ * short of where steady progress would have it by now, and at risk
+ * otherwise. Recurring goals are forecast for the current period. Goals
+ * that roll up sub-goals have no logs of their own, so only their linear
+ * pace is known.
+ */
+
+export const forecastRules = {
+  recentHalfLifeDays: 7,
+  behindMargin: 0.2,
+  // Projections further out than this are reported as never
+  maxProjectionDays: 3650,
+};
+
+export const forecastStatuses = ["on_track", "at_risk", "behind", "completed"] as const;
+export type ForecastStatus = typeof forecastStatuses[number];
+
+export interface GoalForecast {
+  goalId: number;
+  status: ForecastStatus;
+  // Percentages, now and where steady progress would have the goal by now
+  progress: number;
+  expectedProgress: number;
+  // Goal units per day towards the target
+  linearRate: number;
+  recentRate: number;
+  // What it takes from today to finish on time; null once complete or past
+  // the deadline
+  requiredDailyRate: number | null;
+  // Days left including today; 0 once the deadline (or period) has passed
+  daysLeft: number;
+  // Last day to finish on, "YYYY-MM-DD"
+  dueDate: string;
+  // When each pace would finish the goal, "YYYY-MM-DD"; null if it never does
+  linearProjection: string | null;
+  recentProjection: string | null;
+}
+
+type ForecastGoal = Pick<
+  Goal,
+  | "id"
+  | "goalType"
+  | "startValue"
+  | "targetValue"
+  | "currentValue"
+  | "completed"
+  | "deadline"
+  | "createdAt"
+  | "recurrence"
+  | "periodStart"
+>;
+
+export interface ForecastInput {
+  goal: ForecastGoal;
+  // In date order
+  logs: Pick<ProgressLog, "value" | "date">[];
+  // When each completed milestone was ticked, for checklist goals
+  milestoneCompletions: Date[];
+  hasSubGoals: boolean;
+  timeZone: string;
+}
+
+export function forecastGoal(input: ForecastInput, now: Date = new Date()): GoalForecast {
+  const { goal, timeZone } = input;
+
+  // The span the goal has to be finished in; the deadline day itself counts
+  let start = goal.createdAt;
+  let end = addDaysInZone(goal.deadline, 1, timeZone);
+  if (isRecurring(goal) && goal.periodStart) {
+    start = goal.periodStart;
+    const periodEnd = getPeriodEnd(goal.recurrence, goal.periodStart, timeZone);
+    if (periodEnd < end) end = periodEnd;
+  }
+
+  const fraction = getProgressFraction(goal);
+  const distance = Math.abs(goal.targetValue - getBaselineValue(goal));
+  const daysElapsed = Math.max(1, differenceInCalendarDaysInZone(now, start, timeZone) + 1);
+  const daysLeft = Math.max(0, differenceInCalendarDaysInZone(end, now, timeZone));
+  const span = end.getTime() - start.getTime();
+  const expected = span > 0 ? Math.min(1, Math.max(0, (now.getTime() - start.getTime()) / span)) : 1;
+
+  const linearPace = fraction / daysElapsed;
+  const recentPace = input.hasSubGoals ? linearPace : getRecentPace(input, start, now);
+  const remaining = 1 - fraction;
+
+  let status: ForecastStatus;
+  if (goal.completed || remaining <= 0) {
+    status = "completed";
+  } else if (daysLeft === 0 || fraction < expected - forecastRules.behindMargin) {
+    status = "behind";
+  } else if (recentPace >= remaining / daysLeft) {
+    status = "on_track";
+  } else {
+    status = "at_risk";
+  }
+
+  const project = (pace: number) => {
+    if (remaining <= 0) return formatDateKey(now, timeZone);
+    if (pace <= 0) return null;
+    // Today is the first of the days it takes
+    const days = Math.ceil(remaining / pace) - 1;
+    return days > forecastRules.maxProjectionDays ? null : formatDateKey(addDaysInZone(now, days, timeZone), timeZone);
+  };
+
+  return {
+    goalId: goal.id,
+    status,
+    progress: Math.round(fraction * 100),
+    expectedProgress: Math.round(expected * 100),
+    linearRate: roundRate(linearPace * distance),
+    recentRate: roundRate(recentPace * distance),
+    requiredDailyRate: status === "completed" || daysLeft === 0 ? null : roundRate((remaining * distance) / daysLeft),
+    daysLeft,
+    dueDate: formatDateKey(addDaysInZone(end, -1, timeZone), timeZone),
+    linearProjection: project(linearPace),
+    recentProjection: project(recentPace),
+  };
+}
+
+function roundRate(rate: number): number {
+  return Math.round(rate * 100) / 100;
+}
+
+/**
+ * Weighted average of the progress made each day from `start` to today
+ */
+function getRecentPace({ goal, logs, milestoneCompletions, timeZone }: ForecastInput, start: Date, now: Date): number {
+  const firstDay = getDayNumber(start, timeZone);
+  const today = getDayNumber(now, timeZone);
+
+  // Progress at the end of each day that had any, replaying the logs (or
+  // milestones) up to then
+  const progressByDay = new Map<number, number>();
+  const events = goal.goalType === "checklist"
+    ? milestoneCompletions.slice().sort((a, b) => a.getTime() - b.getTime())
+    : logs.map((log) => log.date);
+  events.forEach((date, i) => {
+    if (date < start || date > now) return;
+    const currentValue = goal.goalType === "checklist"
+      ? computeCurrentValue(goal, [], i + 1)
+      : computeCurrentValue(goal, logs.slice(0, i + 1).filter((log) => log.date >= start));
+    progressByDay.set(getDayNumber(date, timeZone), getProgressFraction({ ...goal, currentValue }));
+  });
+
+  let previous = 0;
+  let weightedTotal = 0;
+  let totalWeight = 0;
+  for (let day = firstDay; day <= today; day++) {
+    const progress = progressByDay.get(day) ?? previous;
+    const weight = Math.pow(0.5, (today - day) / forecastRules.recentHalfLifeDays);
+    weightedTotal += (progress - previous) * weight;
+    totalWeight += weight;
+    previous = progress;
+  }
+  return totalWeight > 0 ? Math.max(0, weightedTotal / totalWeight) : 0;
+}
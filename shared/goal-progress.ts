@@ -0,0 +1,122 @@
+import type { Goal, GoalType, ProgressLog } from "./schema";
+
+/**
+ * Progress rules for each goal type, shared by both storage backends and the
+ * client so percentages and completion always agree.
+ *
+ * - cumulative: logs add up towards the target ("run 100 km")
+ * - decreasing: logs are measurements heading down from the start value
+ *   ("weigh 80 kg, starting from 90")
+ * - latest: the most recent measurement counts; lower is better when the
+ *   start value is above the target ("run 5k in 25 minutes, from 30")
+ * - boolean: each log records whether a habit was done (1) or not (0); the
+ *   target is how many times it has to be done
+ * - checklist: progress is the number of completed milestones
+ */
+
+type GoalTargets = Pick<Goal, "goalType" | "startValue" | "targetValue">;
+
+/**
+ * Whether a smaller current value is closer to the target
+ */
+export function isLowerBetter(goal: GoalTargets): boolean {
+  return goal.goalType === "decreasing" ||
+    (goal.goalType === "latest" && goal.startValue !== null && goal.startValue > goal.targetValue);
+}
+
+/**
+ * Whether progress comes from the latest measurement rather than a running total
+ */
+export function isMeasuredGoal(goalType: GoalType): boolean {
+  return goalType === "decreasing" || goalType === "latest";
+}
+
+/**
+ * The current value of a goal before anything has been logged
+ */
+export function getBaselineValue(goal: GoalTargets): number {
+  return isMeasuredGoal(goal.goalType) ? goal.startValue ?? 0 : 0;
+}
+
+/**
+ * Replay a goal's logs, in date order, into its current value. Checklist
+ * goals are driven by milestones, so their logs are ignored.
+ */
+export function computeCurrentValue(goal: GoalTargets, logs: Pick<ProgressLog, "value">[], completedMilestones = 0): number {
+  switch (goal.goalType) {
+    case "checklist":
+      return completedMilestones;
+    case "boolean":
+      return logs.filter((log) => log.value > 0).length;
+    case "decreasing":
+    case "latest":
+      return logs.length > 0 ? logs[logs.length - 1].value : getBaselineValue(goal);
+    default:
+      return logs.reduce((total, log) => total + log.value, 0);
+  }
+}
+
+/**
+ * Whether `currentValue` meets the goal's target
+ */
+export function isGoalComplete(goal: GoalTargets, currentValue: number): boolean {
+  return isLowerBetter(goal) ? currentValue <= goal.targetValue : currentValue >= goal.targetValue;
+}
+
+/**
+ * How far the goal is from its baseline to its target, between 0 and 1
+ */
+export function getProgressFraction(goal: GoalTargets & Pick<Goal, "currentValue">): number {
+  const baseline = getBaselineValue(goal);
+  const distance = goal.targetValue - baseline;
+  if (distance === 0) {
+    return isGoalComplete(goal, goal.currentValue) ? 1 : 0;
+  }
+
+  const fraction = (goal.currentValue - baseline) / distance;
+  return Math.max(0, Math.min(fraction, 1));
+}
+
+/**
+ * getProgressFraction as a whole percentage between 0 and 100
+ */
+export function getProgressPercentage(goal: GoalTargets & Pick<Goal, "currentValue">): number {
+  return Math.round(getProgressFraction(goal) * 100);
+}
+
+/**
+ * Why `value` can't be logged against a goal of this type, or undefined if
+ * it can
+ */
+export function getProgressValueError(goal: Pick<Goal, "goalType">, value: number): string | undefined {
+  switch (goal.goalType) {
+    case "checklist":
+      return "Checklist goals are updated by completing milestones";
+    case "boolean":
+      return value === 0 || value === 1 ? undefined : "Habit entries must be 1 (done) or 0 (not done)";
+    case "decreasing":
+    case "latest":
+      return value >= 0 ? undefined : "Measurements can't be negative";
+    default:
+      return value > 0 ? undefined : "Progress value must be positive";
+  }
+}
+
+/**
+ * Short human-readable progress line, e.g. "4.0 / 10 km" or "85 kg (target 80, from 90)"
+ */
+export function describeProgress(goal: GoalTargets & Pick<Goal, "currentValue" | "unit">): string {
+  switch (goal.goalType) {
+    case "checklist":
+      return `${goal.currentValue} of ${goal.targetValue} milestones`;
+    case "boolean":
+      return `Done ${goal.currentValue} of ${goal.targetValue} ${goal.unit}`;
+    case "decreasing":
+    case "latest": {
+      const from = goal.startValue !== null ? `, from ${goal.startValue}` : "";
+      return `${goal.currentValue} ${goal.unit} (target ${goal.targetValue}${from})`;
+    }
+    default:
+      return `${goal.currentValue.toFixed(1)} / ${goal.targetValue} ${goal.unit}`;
+  }
+}
@@ -0,0 +1,90 @@
+import type { Goal } from "./schema";
+import { getProgressFraction } from "./goal-progress";
+
+/**
+ * Rules for goal trees ("Run a marathon" broken into "Build to 30 km a week",
+ * "Complete a half marathon", ...). A goal with live sub-goals takes its
+ * progress from them instead of from progress logs: each sub-goal counts
+ * towards the parent in proportion to its weight, and the parent is complete
+ * once every sub-goal is. Shared by both storage backends and the client.
+ */
+
+type TreeGoal = Pick<Goal, "id" | "parentGoalId" | "position">;
+
+type SubGoal = Parameters<typeof getProgressFraction>[0] & Pick<Goal, "weight" | "completed">;
+
+export type GoalTreeNode<T extends TreeGoal> = T & { subGoals: GoalTreeNode<T>[] };
+
+/**
+ * Whether a goal can be broken into sub-goals. Only one-off totals can; the
+ * rolled-up value is a share of their target.
+ */
+export function canHaveSubGoals(goal: Pick<Goal, "goalType" | "recurrence">): boolean {
+  return goal.goalType === "cumulative" && goal.recurrence === "none";
+}
+
+/**
+ * Why `child` can't be placed under `parent`, or undefined if it can. Cycles
+ * and logged progress on the parent are checked where the goals are loaded.
+ */
+export function getSubGoalError(
+  parent: Pick<Goal, "goalType" | "recurrence">,
+  child: Pick<Goal, "recurrence">,
+): string | undefined {
+  if (!canHaveSubGoals(parent)) return "Only one-off cumulative goals can have sub-goals";
+  if (child.recurrence !== "none") return "Recurring goals can't be sub-goals";
+  return undefined;
+}
+
+/**
+ * A parent goal's value and completion from its live sub-goals
+ */
+export function computeRollUp(
+  parent: Pick<Goal, "targetValue">,
+  subGoals: SubGoal[],
+): { currentValue: number; completed: boolean } {
+  const totalWeight = subGoals.reduce((total, subGoal) => total + subGoal.weight, 0);
+  const achieved = subGoals.reduce(
+    (total, subGoal) => total + subGoal.weight * (subGoal.completed ? 1 : getProgressFraction(subGoal)),
+    0,
+  );
+  return {
+    currentValue: totalWeight > 0 ? parent.targetValue * (achieved / totalWeight) : 0,
+    completed: subGoals.every((subGoal) => subGoal.completed),
+  };
+}
+
+/**
+ * Order sibling sub-goals by position, then creation
+ */
+export function compareSubGoals(a: TreeGoal, b: TreeGoal): number {
+  return a.position - b.position || a.id - b.id;
+}
+
+/**
+ * Nest a flat goal list into trees. Goals whose parent isn't in the list are
+ * treated as roots and keep their original order.
+ */
+export function buildGoalTree<T extends TreeGoal>(goals: T[]): GoalTreeNode<T>[] {
+  const nodes = new Map<number, GoalTreeNode<T>>();
+  goals.forEach((goal) => nodes.set(goal.id, { ...goal, subGoals: [] }));
+
+  const roots: GoalTreeNode<T>[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentGoalId !== null ? nodes.get(node.parentGoalId) : undefined;
+    if (parent) {
+      parent.subGoals.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  nodes.forEach((node) => node.subGoals.sort(compareSubGoals));
+  return roots;
+}
+
+/**
+ * Every node of the trees, each parent before its sub-goals
+ */
+export function flattenGoalTree<T extends TreeGoal>(nodes: GoalTreeNode<T>[]): GoalTreeNode<T>[] {
+  return nodes.flatMap((node) => [node, ...flattenGoalTree(node.subGoals)]);
+}
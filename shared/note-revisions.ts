@@ -0,0 +1,115 @@
+import type { NoteRevision } from "./schema";
+
+/**
+ * How a note's revision history is kept. Each revision is a title and
+ * content the note was saved with, and the newest one is what the note
+ * holds now. The Notepad auto-saves every couple of seconds, so saves are
+ * folded into the newest revision until it is `coalesceMinutes` old,
+ * except:
+ *
+ * - a save that cuts the content to less than `shrinkShare` of the longest
+ *   it has been in the newest revision starts a new revision, so clearing
+ *   a note by accident, even a little at a time, never replaces the text
+ *   it had
+ * - restoring a revision always starts a new one, so the restore can be
+ *   undone
+ *
+ * Only the newest `maxRevisions` of a note are kept.
+ */
+
+export const revisionRules = {
+  coalesceMinutes: 10,
+  shrinkShare: 0.5,
+  maxRevisions: 50,
+};
+
+/**
+ * Whether saving `next` should start a new revision rather than fold into
+ * `latest`
+ */
+export function startsNewRevision(
+  latest: Pick<NoteRevision, "content" | "peakContentLength" | "createdAt">,
+  next: { content: string },
+  now: Date = new Date(),
+): boolean {
+  const age = now.getTime() - latest.createdAt.getTime();
+  // Revisions saved before the peak was kept have only their content to go by
+  const peak = Math.max(latest.peakContentLength, latest.content.length);
+  return age >= revisionRules.coalesceMinutes * 60 * 1000 ||
+    next.content.length < peak * revisionRules.shrinkShare;
+}
+
+export type DiffLineType = "same" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Beyond this many line pairs to compare, the changed middle is shown as
+// removed and re-added in full rather than diffed
+const maxDiffCells = 4_000_000;
+
+/**
+ * The lines of `after` compared with `before`: unchanged lines, lines that
+ * were removed, and lines that were added, in reading order
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  // Empty text has no lines rather than one blank one
+  const a = before === "" ? [] : before.split("\n");
+  const b = after === "" ? [] : after.split("\n");
+
+  // Lines shared at the start and end need no comparing
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head = a.slice(0, start).map((text): DiffLine => ({ type: "same", text }));
+  const tail = a.slice(endA).map((text): DiffLine => ({ type: "same", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > maxDiffCells) {
+    return [
+      ...head,
+      ...midA.map((text): DiffLine => ({ type: "removed", text })),
+      ...midB.map((text): DiffLine => ({ type: "added", text })),
+      ...tail,
+    ];
+  }
+
+  // Longest common subsequence of the middles, from the end backwards
+  const width = midB.length + 1;
+  const lengths = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: "same", text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push({ type: "removed", text: midA[i++] });
+    } else {
+      middle.push({ type: "added", text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: "removed", text: midA[i++] });
+  while (j < midB.length) middle.push({ type: "added", text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}
@@ -0,0 +1,55 @@
+import type { PointEvent } from "./schema";
+
+/**
+ * Scoring rules, shared by the server (which awards points) and the client
+ * (which explains them). Every award is recorded in the points ledger under
+ * its event. Undoing what earned it (deleting the log, unticking the
+ * milestone, reopening the goal) records the same event with the points
+ * negated, so a user's ledger always adds up to their total.
+ */
+
+export interface PointRule {
+  points: number;
+  // What the user did, as shown in their points history
+  label: string;
+}
+
+export const pointRules: Record<PointEvent, PointRule> = {
+  progress_logged: { points: 10, label: "Logged progress" },
+  milestone_completed: { points: 10, label: "Completed a milestone" },
+  goal_completed: { points: 50, label: "Completed a goal" },
+  action_item_completed: { points: 5, label: "Completed an action item" },
+};
+
+/**
+ * Points for `event`, negated when the award is taken back
+ */
+export function getEventPoints(event: PointEvent, revoke = false): number {
+  return revoke ? -pointRules[event].points : pointRules[event].points;
+}
+
+// Points from level 1 to level 2; each level after that needs this much
+// more than the one before
+const LEVEL_STEP = 100;
+
+/**
+ * Total points needed to reach `level`: 0, 100, 300, 600, 1000, ...
+ */
+export function getLevelThreshold(level: number): number {
+  return (LEVEL_STEP * level * (level - 1)) / 2;
+}
+
+export function getLevel(points: number): number {
+  let level = 1;
+  while (points >= getLevelThreshold(level + 1)) level++;
+  return level;
+}
+
+/**
+ * How far `points` is through the current level, as a percentage
+ */
+export function getLevelProgress(points: number): number {
+  const level = getLevel(points);
+  const start = getLevelThreshold(level);
+  return Math.round(((points - start) / (getLevelThreshold(level + 1) - start)) * 100);
+}
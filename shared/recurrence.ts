@@ -0,0 +1,92 @@
+import type { Goal, ProgressLog, Recurrence } from "./schema";
+import { computeCurrentValue } from "./goal-progress";
+import { addDaysInZone, startOfDayInZone, startOfWeekInZone } from "./timezone";
+
+/**
+ * Period rules for recurring goals ("read 20 pages daily", "run 3 times per
+ * week"). A recurring goal's currentValue only counts logs in the current
+ * period; every finished period is kept as a goal_periods row, met or missed.
+ * Weeks start on Monday. Periods stop at the goal's deadline. Days and
+ * weeks follow the calendar in the owner's time zone.
+ */
+
+type RecurringGoal = Pick<Goal, "recurrence">;
+
+export interface PeriodSummary {
+  periodStart: Date;
+  periodEnd: Date;
+  achievedValue: number;
+}
+
+export function isRecurring(goal: RecurringGoal): boolean {
+  return goal.recurrence !== "none";
+}
+
+/**
+ * Start of the period containing `date`
+ */
+export function getPeriodStart(recurrence: Recurrence, date: Date, timeZone: string): Date {
+  return recurrence === "weekly"
+    ? startOfWeekInZone(date, timeZone)
+    : startOfDayInZone(date, timeZone);
+}
+
+/**
+ * Start of the period after the one starting at `periodStart`
+ */
+export function getPeriodEnd(recurrence: Recurrence, periodStart: Date, timeZone: string): Date {
+  return addDaysInZone(periodStart, recurrence === "weekly" ? 7 : 1, timeZone);
+}
+
+function logsBetween<T extends Pick<ProgressLog, "date">>(logs: T[], start: Date, end: Date): T[] {
+  return logs.filter((log) => log.date >= start && log.date < end);
+}
+
+/**
+ * What was achieved in each period that has finished by `now`, from the one
+ * the goal was created in up to its deadline. `logs` must be in date order.
+ */
+export function summarizeClosedPeriods(
+  goal: Pick<Goal, "recurrence" | "goalType" | "startValue" | "targetValue" | "createdAt" | "deadline">,
+  logs: Pick<ProgressLog, "value" | "date">[],
+  timeZone: string,
+  now: Date = new Date(),
+): PeriodSummary[] {
+  if (!isRecurring(goal)) return [];
+
+  const currentStart = getPeriodStart(goal.recurrence, now, timeZone);
+  const summaries: PeriodSummary[] = [];
+  for (
+    let periodStart = getPeriodStart(goal.recurrence, goal.createdAt, timeZone);
+    periodStart < currentStart && periodStart <= goal.deadline;
+    periodStart = getPeriodEnd(goal.recurrence, periodStart, timeZone)
+  ) {
+    const periodEnd = getPeriodEnd(goal.recurrence, periodStart, timeZone);
+    summaries.push({
+      periodStart,
+      periodEnd,
+      achievedValue: computeCurrentValue(goal, logsBetween(logs, periodStart, periodEnd)),
+    });
+  }
+  return summaries;
+}
+
+/**
+ * What has been achieved so far in the period containing `now`
+ */
+export function computePeriodValue(
+  goal: Pick<Goal, "recurrence" | "goalType" | "startValue" | "targetValue">,
+  logs: Pick<ProgressLog, "value" | "date">[],
+  timeZone: string,
+  now: Date = new Date(),
+): number {
+  const periodStart = getPeriodStart(goal.recurrence, now, timeZone);
+  return computeCurrentValue(goal, logsBetween(logs, periodStart, getPeriodEnd(goal.recurrence, periodStart, timeZone)));
+}
+
+/**
+ * "Today" or "This week"
+ */
+export function describePeriod(recurrence: Recurrence): string {
+  return recurrence === "weekly" ? "This week" : "Today";
+}
@@ -0,0 +1,123 @@
+import { getDayNumber } from "./timezone";
+
+/**
+ * What the Notepad offers to start a reflection from: the three principles
+ * on the mantra page, each with prompts to reflect on, and the templates
+ * every user's library starts out with. Users edit their own copies of the
+ * templates; these defaults are only copied in the first time the library
+ * is read.
+ */
+
+export const principles = [
+  {
+    id: "understanding",
+    title: "Deep Understanding",
+    description: "Don't just track tasks—understand why they matter to your growth journey.",
+  },
+  {
+    id: "alignment",
+    title: "Intentional Alignment",
+    description: "Align each goal with your deeper purpose for natural motivation.",
+  },
+  {
+    id: "iteration",
+    title: "Conscious Iteration",
+    description: "Treat each setback as data, not failure. Progress is a spiral, not a line.",
+  },
+] as const;
+
+export type PrincipleId = typeof principles[number]["id"];
+
+const prompts: Record<PrincipleId, string[]> = {
+  understanding: [
+    "Which of your goals matters most to you right now, and why?",
+    "What did today's progress teach you about how you work best?",
+    "What would change for you if you reached your hardest goal?",
+  ],
+  alignment: [
+    "Which goal feels most like you, and which feels like an obligation?",
+    "What would you stop doing to make room for what matters?",
+    "How does this week's progress connect to who you want to become?",
+  ],
+  iteration: [
+    "What went differently than planned lately, and what does it tell you?",
+    "Which small change would make tomorrow's progress easier?",
+    "What setback are you glad happened, looking back?",
+  ],
+};
+
+export interface ReflectionPrompt {
+  principle: typeof principles[number];
+  text: string;
+}
+
+/**
+ * The prompt for the day containing `date`. Days cycle through the
+ * principles, and each principle through its prompts, so the same prompt
+ * comes back every nine days.
+ */
+export function getPromptOfTheDay(date: Date, timeZone: string): ReflectionPrompt {
+  const day = getDayNumber(date, timeZone);
+  const principle = principles[day % principles.length];
+  const texts = prompts[principle.id];
+  return { principle, text: texts[Math.floor(day / principles.length) % texts.length] };
+}
+
+export const defaultNoteTemplates: { name: string; content: string }[] = [
+  {
+    name: "Weekly Review",
+    content: [
+      "## Week of {{date}}",
+      "",
+      "### What went well",
+      "- ",
+      "",
+      "### What got in the way",
+      "- ",
+      "",
+      "### What I learned",
+      "",
+      "### Focus for next week",
+      "1. ",
+    ].join("\n"),
+  },
+  {
+    name: "Setback Post-Mortem",
+    content: [
+      "## Setback on {{date}}",
+      "",
+      "### What happened",
+      "",
+      "### Why it happened",
+      "",
+      "### What it tells me",
+      "",
+      "### What I'll try next",
+      "- ",
+    ].join("\n"),
+  },
+  {
+    name: "Goal Kickoff",
+    content: [
+      "## Starting out, {{date}}",
+      "",
+      "### Why this goal matters to me",
+      "",
+      "### What success looks like",
+      "",
+      "### Obstacles I expect",
+      "- ",
+      "",
+      "### First step",
+      "",
+    ].join("\n"),
+  },
+];
+
+/**
+ * A template's content with its placeholders filled in. `{{date}}` becomes
+ * the given day, e.g. "May 1, 2024".
+ */
+export function applyTemplate(content: string, values: { date: string }): string {
+  return content.replace(/\{\{\s*date\s*\}\}/g, values.date);
+}
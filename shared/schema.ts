@@ -1,6 +1,7 @@
 import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_TIME_ZONE, isValidTimeZone, startOfDayInZone } from "./timezone";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -8,6 +9,13 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   points: integer("points").default(0).notNull(),
   level: integer("level").default(1).notNull(),
+  // Keep unfinished custom action items on the dashboard after their day
+  carryOverActionItems: boolean("carry_over_action_items").default(true).notNull(),
+  // IANA zone the user's days are counted in; see shared/timezone.ts
+  timeZone: text("time_zone").default(DEFAULT_TIME_ZONE).notNull(),
+  // Whether the default note templates have been copied into the user's
+  // library, so deleting them all doesn't bring them back
+  noteTemplatesSeeded: boolean("note_templates_seeded").default(false).notNull(),
 });
 
 export const categories = pgTable("categories", {
@@ -16,18 +24,41 @@ export const categories = pgTable("categories", {
   color: text("color").notNull(),
 });
 
+// How a goal's logs turn into progress; see shared/goal-progress.ts
+export const goalTypes = ["cumulative", "decreasing", "latest", "boolean", "checklist"] as const;
+export type GoalType = typeof goalTypes[number];
+
+// Recurring goals reset their target every period; see shared/recurrence.ts
+export const recurrences = ["none", "daily", "weekly"] as const;
+export type Recurrence = typeof recurrences[number];
+
 export const goals = pgTable("goals", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   description: text("description").notNull(),
+  goalType: text("goal_type").$type<GoalType>().default("cumulative").notNull(),
+  // Where decreasing and latest-value goals start from
+  startValue: doublePrecision("start_value"),
   targetValue: doublePrecision("target_value").notNull(),
   currentValue: doublePrecision("current_value").default(0).notNull(),
   unit: text("unit").notNull(),
   deadline: timestamp("deadline").notNull(),
   categoryId: integer("category_id"),
   completed: boolean("completed").default(false).notNull(),
+  archived: boolean("archived").default(false).notNull(),
   reminderFrequency: text("reminder_frequency").default("none").notNull(),
+  recurrence: text("recurrence").$type<Recurrence>().default("none").notNull(),
+  // Start of the period currentValue covers; only set for recurring goals
+  periodStart: timestamp("period_start"),
+  // Sub-goals roll their progress up into this goal; see shared/goal-tree.ts
+  parentGoalId: integer("parent_goal_id"),
+  // Share of the parent's progress, relative to the sibling sub-goals
+  weight: doublePrecision("weight").default(1).notNull(),
+  // Order among sibling sub-goals
+  position: integer("position").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Set when the goal is moved to the trash; null for live goals
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const progressLogs = pgTable("progress_logs", {
@@ -38,12 +69,61 @@ export const progressLogs = pgTable("progress_logs", {
   notes: text("notes"),
 });
 
-export const actionItems = pgTable("action_items", {
+// Outcome of each finished period of a recurring goal, including missed ones
+export const goalPeriods = pgTable("goal_periods", {
+  id: serial("id").primaryKey(),
+  goalId: integer("goal_id").notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  // The goal's target at the time, so later edits don't rewrite history
+  targetValue: doublePrecision("target_value").notNull(),
+  achievedValue: doublePrecision("achieved_value").notNull(),
+  met: boolean("met").notNull(),
+});
+
+// Ordered steps of a checklist goal
+export const milestones = pgTable("milestones", {
   id: serial("id").primaryKey(),
   goalId: integer("goal_id").notNull(),
+  title: text("title").notNull(),
+  position: integer("position").default(0).notNull(),
+  completed: boolean("completed").default(false).notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const actionItems = pgTable("action_items", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  // Custom items may stand on their own; generated ones always have a goal
+  goalId: integer("goal_id"),
   description: text("description").notNull(),
   completed: boolean("completed").default(false).notNull(),
+  completedAt: timestamp("completed_at"),
+  // Day the item is listed on
   date: timestamp("date").defaultNow().notNull(),
+  // Added by the user rather than the daily generator
+  custom: boolean("custom").default(false).notNull(),
+  dueDate: timestamp("due_date"),
+  // Progress logged against the goal when the item is completed, and the
+  // log that was created, so un-completing the item can remove it
+  quantity: doublePrecision("quantity"),
+  progressLogId: integer("progress_log_id"),
+  position: integer("position").default(0).notNull(),
+});
+
+// What points are awarded for; the values live in shared/points.ts
+export const pointEvents = ["progress_logged", "milestone_completed", "goal_completed", "action_item_completed"] as const;
+export type PointEvent = typeof pointEvents[number];
+
+// Every award and every award taken back (with negative points)
+export const pointsLedger = pgTable("points_ledger", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  event: text("event").$type<PointEvent>().notNull(),
+  points: integer("points").notNull(),
+  // Goal the points were earned on, if any
+  goalId: integer("goal_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const badges = pgTable("badges", {
@@ -51,33 +131,99 @@ export const badges = pgTable("badges", {
   userId: integer("user_id").notNull(),
   name: text("name").notNull(),
   description: text("description").notNull(),
+  // Goal the badge was earned for, so it can be revoked if the goal is un-completed
+  goalId: integer("goal_id"),
+  // Achievement the badge unlocked; see shared/achievements.ts
+  achievementId: text("achievement_id"),
   achievedAt: timestamp("achieved_at").defaultNow().notNull(),
 });
 
+// Reflections written in the Notepad
+export const notes = pgTable("notes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  title: text("title").notNull(),
+  content: text("content").default("").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Titles and content a note was saved with; see shared/note-revisions.ts.
+// createdAt is when the revision was started and updatedAt the last save
+// folded into it.
+export const noteRevisions = pgTable("note_revisions", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  title: text("title").notNull(),
+  content: text("content").default("").notNull(),
+  // Longest the content has been over the saves folded into the revision
+  peakContentLength: integer("peak_content_length").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A user's reflection templates; see shared/reflections.ts
+export const noteTemplates = pgTable("note_templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  content: text("content").default("").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Goals a note is about
+export const noteGoals = pgTable("note_goals", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  goalId: integer("goal_id").notNull(),
+});
+
+// Progress entries a note reflects on; their goals are linked to the note too
+export const noteProgressLogs = pgTable("note_progress_logs", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  progressLogId: integer("progress_log_id").notNull(),
+});
+
 // Insert schemas using drizzle-zod
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  timeZone: true,
 });
 
 export const insertCategorySchema = createInsertSchema(categories);
 
-export const insertGoalSchema = createInsertSchema(goals).omit({
+export const insertGoalSchema = createInsertSchema(goals, {
+  goalType: z.enum(goalTypes).optional(),
+  recurrence: z.enum(recurrences).optional(),
+}).omit({
   id: true,
   currentValue: true,
   completed: true,
+  archived: true,
+  periodStart: true,
+  position: true,
   createdAt: true,
+  deletedAt: true,
 });
 
 export const insertProgressLogSchema = createInsertSchema(progressLogs).omit({
   id: true,
-  date: true,
+});
+
+export const insertMilestoneSchema = createInsertSchema(milestones).omit({
+  id: true,
+  completed: true,
+  completedAt: true,
 });
 
 export const insertActionItemSchema = createInsertSchema(actionItems).omit({
   id: true,
   completed: true,
-  date: true,
+  completedAt: true,
+  progressLogId: true,
+  position: true,
 });
 
 export const insertBadgeSchema = createInsertSchema(badges).omit({
@@ -85,9 +231,22 @@ export const insertBadgeSchema = createInsertSchema(badges).omit({
   achievedAt: true,
 });
 
+export const insertNoteTemplateSchema = createInsertSchema(noteTemplates).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Dates are only given when importing notes written before they were
+// stored on the server
+export const insertNoteSchema = createInsertSchema(notes).omit({
+  id: true,
+});
+
 // Zod types for frontend validation
-export const goalFormSchema = z.object({
+const goalFieldsSchema = z.object({
   description: z.string().min(3, "Description must be at least 3 characters"),
+  goalType: z.enum(goalTypes).default("cumulative"),
+  startValue: z.number().optional(),
   targetValue: z.number().positive("Target value must be positive"),
   unit: z.string().min(1, "Unit is required"),
   deadline: z.union([
@@ -96,33 +255,346 @@ export const goalFormSchema = z.object({
   ]),
   categoryId: z.number().optional(),
   reminderFrequency: z.enum(["daily", "weekly", "none"]),
+  // Cumulative and habit goals only: reset the target every day or week
+  recurrence: z.enum(recurrences).default("none"),
+  // Checklist goals only: milestone titles in order
+  milestones: z.array(z.string().trim().min(1, "Milestones can't be blank")).optional(),
+  // Makes this a sub-goal of another goal
+  parentGoalId: z.number().int().optional(),
+  weight: z.number().positive("Weight must be positive").optional(),
+});
+
+/**
+ * Why a goal's type, start and target don't fit together, or undefined if
+ * they do
+ */
+export function getGoalTargetError(goal: {
+  goalType: GoalType;
+  startValue?: number | null;
+  targetValue: number;
+}): string | undefined {
+  const startValue = goal.startValue ?? undefined;
+  switch (goal.goalType) {
+    case "decreasing":
+      if (startValue === undefined) return "Decreasing goals need a start value";
+      if (startValue <= goal.targetValue) return "Start value must be above the target for a decreasing goal";
+      return undefined;
+    case "latest":
+      if (startValue === goal.targetValue) return "Start value must differ from the target";
+      return undefined;
+    case "boolean":
+      if (!Number.isInteger(goal.targetValue)) return "Habit goals need a whole number of days";
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+export const goalFormSchema = goalFieldsSchema.superRefine((goal, ctx) => {
+  const message = getGoalTargetError(goal);
+  if (message) {
+    const path = goal.goalType === "boolean" ? "targetValue" : "startValue";
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+  }
+  if (goal.recurrence !== "none" && goal.goalType !== "cumulative" && goal.goalType !== "boolean") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["recurrence"], message: "Only cumulative and habit goals can recur" });
+  }
+  if (goal.goalType === "checklist" && !goal.milestones?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["milestones"], message: "Checklist goals need at least one milestone" });
+  }
+  if (goal.recurrence !== "none" && goal.parentGoalId !== undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["parentGoalId"], message: "Recurring goals can't be sub-goals" });
+  }
 });
 
+// Editable goal fields plus explicit state changes. Anything else (userId,
+// currentValue, completed, createdAt, ...) is rejected rather than ignored.
+// A goal's type, start value, recurrence and milestones are fixed once it's created.
+// A null parentGoalId moves a sub-goal back to the top level.
+export const goalUpdateSchema = goalFieldsSchema
+  .omit({ goalType: true, startValue: true, recurrence: true, milestones: true })
+  .partial()
+  .extend({
+    categoryId: z.number().nullable().optional(),
+    parentGoalId: z.number().int().nullable().optional(),
+    action: z.enum(["archive", "unarchive", "complete"]).optional(),
+  })
+  .strict()
+  .refine((update) => Object.keys(update).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const milestoneUpdateSchema = z
+  .object({
+    completed: z.boolean(),
+  })
+  .strict();
+
+export const milestoneFormSchema = z
+  .object({
+    title: z.string().trim().min(1, "Milestone title is required"),
+  })
+  .strict();
+
+// A user's own action item, listed today unless another day is given. The
+// goal, if any, is checked against the user's goals by the route.
+export const actionItemFormSchema = insertActionItemSchema
+  .pick({ goalId: true, date: true, dueDate: true, quantity: true })
+  .extend({
+    description: z.string().trim().min(1, "Description is required"),
+    goalId: z.number().int().nullable().optional(),
+    date: z.coerce.date().optional(),
+    dueDate: z.coerce.date().nullable().optional(),
+    quantity: z.number().positive("Quantity must be greater than zero").nullable().optional(),
+  })
+  .strict()
+  .refine((item) => item.quantity == null || item.goalId != null, {
+    message: "Only items linked to a goal can log progress",
+    path: ["quantity"],
+  });
+
+export const actionItemUpdateSchema = z
+  .object({
+    description: z.string().trim().min(1, "Description is required"),
+    goalId: z.number().int().nullable(),
+    // Moves (snoozes) the item to another day
+    date: z.coerce.date(),
+    dueDate: z.coerce.date().nullable(),
+    quantity: z.number().positive("Quantity must be greater than zero").nullable(),
+    completed: z.boolean(),
+  })
+  .partial()
+  .strict()
+  .refine((update) => Object.keys(update).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+// Day whose action items to generate or reorder; defaults to today
+export const actionItemDateQuerySchema = z.object({
+  date: z.coerce.date().optional(),
+});
+
+// How far back the analytics look; see shared/analytics.ts
+export const analyticsTimeFrames = ["week", "month", "quarter", "year", "all"] as const;
+export type AnalyticsTimeFrame = typeof analyticsTimeFrames[number];
+
+export const analyticsQuerySchema = z.object({
+  timeFrame: z.enum(analyticsTimeFrames).default("week"),
+  // Only this goal's logs and the reflections linked to it
+  goalId: z.coerce.number().int().optional(),
+});
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+
+// Searching goals, progress notes and reflections; see shared/search.ts
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search text is required").max(200, "Search text must be at most 200 characters"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+// New order of a goal's sub-goals or milestones, or a day's action items;
+// must list each of them once
+export const reorderSchema = z
+  .object({
+    ids: z.array(z.number().int()).min(1, "At least one id is required"),
+  })
+  .strict();
+
+// Goals and progress entries are checked against the user's by the route
+const noteLinksSchema = z.object({
+  goalIds: z.array(z.number().int()).max(50, "At most 50 goals can be linked"),
+  progressLogIds: z.array(z.number().int()).max(50, "At most 50 progress entries can be linked"),
+});
+
+export const noteFormSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title is required").max(200, "Title must be at most 200 characters"),
+    content: z.string().max(100000, "Content must be at most 100000 characters").default(""),
+  })
+  .merge(noteLinksSchema.partial())
+  .strict();
+
+// Links given replace the note's current ones
+export const noteUpdateSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title is required").max(200, "Title must be at most 200 characters"),
+    content: z.string().max(100000, "Content must be at most 100000 characters"),
+  })
+  .merge(noteLinksSchema)
+  .partial()
+  .strict()
+  .refine((update) => Object.keys(update).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+// Notes the Notepad kept in the browser's localStorage, with their dates
+export const noteImportSchema = z
+  .object({
+    notes: z
+      .array(noteFormSchema.omit({ goalIds: true, progressLogIds: true }).extend({
+        createdAt: z.coerce.date(),
+        updatedAt: z.coerce.date(),
+      }))
+      .max(1000, "At most 1000 notes can be imported at once"),
+  })
+  .strict();
+
+export const noteTemplateFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+    content: z.string().max(20000, "Content must be at most 20000 characters").default(""),
+  })
+  .strict();
+
+export const noteTemplateUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+    content: z.string().max(20000, "Content must be at most 20000 characters"),
+  })
+  .partial()
+  .strict()
+  .refine((update) => Object.keys(update).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+// Searching and paging through a user's notes; pages count from 1
+export const noteQuerySchema = z.object({
+  q: z.string().trim().optional(),
+  // Only notes linked to this goal
+  goalId: z.coerce.number().int().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const timeZoneSchema = z.string().refine(isValidTimeZone, { message: "Unknown time zone" });
+
+// Preferences a user can change about their own account
+export const userSettingsSchema = z
+  .object({
+    carryOverActionItems: z.boolean(),
+    timeZone: timeZoneSchema,
+  })
+  .partial()
+  .strict()
+  .refine((settings) => Object.keys(settings).length > 0, {
+    message: "At least one setting must be provided",
+  });
+
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const registerSchema = z.object({
+  username: z.string()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[A-Za-z0-9_.-]+$/, "Username may only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  // Usually the browser's zone; UTC when omitted
+  timeZone: timeZoneSchema.optional(),
+});
+
+// What counts as a valid value depends on the goal type; see getProgressValueError
 export const progressLogFormSchema = z.object({
   goalId: z.number(),
-  value: z.number().positive("Progress value must be positive"),
+  value: z.number(),
   notes: z.string().optional(),
+  // When the progress happened; defaults to now. Checked against the goal
+  // with getProgressDateError once the goal is loaded.
+  date: z.coerce.date().optional(),
 });
 
+/**
+ * Why a progress entry can't be dated `date` for a goal created at
+ * `goalCreatedAt`, or undefined if it can. Entries may be backdated as far
+ * as the day the goal was created in the user's time zone, but never into
+ * the future.
+ */
+export function getProgressDateError(
+  date: Date,
+  goalCreatedAt: Date,
+  timeZone: string,
+  now: Date = new Date(),
+): string | undefined {
+  if (date.getTime() > now.getTime()) {
+    return "Progress can't be logged for a future date";
+  }
+  
+  const createdDay = startOfDayInZone(goalCreatedAt, timeZone);
+  if (date.getTime() < createdDay.getTime()) {
+    return "Progress can't be logged before the goal was created";
+  }
+  return undefined;
+}
+
+// Correcting a logged entry; the goal it belongs to can't be changed. A new
+// date is checked with getProgressDateError like a new entry's.
+export const progressLogUpdateSchema = z
+  .object({
+    value: z.number(),
+    notes: z.string().nullable(),
+    date: z.coerce.date(),
+  })
+  .partial()
+  .strict()
+  .refine((update) => Object.keys(update).length > 0, {
+    message: "At least one field must be provided",
+  });
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+// The user shape sent to clients; the password hash never leaves the server
+export type SafeUser = Omit<User, "password">;
+export type UserSettings = z.infer<typeof userSettingsSchema>;
 
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 
 export type Goal = typeof goals.$inferSelect;
 export type InsertGoal = z.infer<typeof insertGoalSchema>;
+export type GoalForm = z.infer<typeof goalFormSchema>;
+export type GoalUpdate = z.infer<typeof goalUpdateSchema>;
 
 export type ProgressLog = typeof progressLogs.$inferSelect;
 export type InsertProgressLog = z.infer<typeof insertProgressLogSchema>;
+export type ProgressLogUpdate = z.infer<typeof progressLogUpdateSchema>;
+
+export type GoalPeriod = typeof goalPeriods.$inferSelect;
+
+export type Milestone = typeof milestones.$inferSelect;
+export type InsertMilestone = z.infer<typeof insertMilestoneSchema>;
 
 export type ActionItem = typeof actionItems.$inferSelect;
 export type InsertActionItem = z.infer<typeof insertActionItemSchema>;
+export type ActionItemForm = z.infer<typeof actionItemFormSchema>;
+export type ActionItemUpdate = z.infer<typeof actionItemUpdateSchema>;
+// As listed for the user; the goal fields are null for items without a goal
+export type ActionItemWithGoal = ActionItem & { goalDescription: string | null; goalUnit: string | null };
+
+export type PointsLedgerEntry = typeof pointsLedger.$inferSelect;
+// goalDescription is null for awards without a goal or whose goal was purged
+export type PointsLedgerEntryWithGoal = PointsLedgerEntry & { goalDescription: string | null };
 
 export type Badge = typeof badges.$inferSelect;
 export type InsertBadge = z.infer<typeof insertBadgeSchema>;
 
+export type Note = typeof notes.$inferSelect;
+export type InsertNote = z.infer<typeof insertNoteSchema>;
+export type NoteUpdate = z.infer<typeof noteUpdateSchema>;
+export type NoteLinks = z.infer<typeof noteLinksSchema>;
+export type NoteQuery = z.infer<typeof noteQuerySchema>;
+export type NoteWithLinks = Note & NoteLinks;
+export type NoteRevision = typeof noteRevisions.$inferSelect;
+export type NoteTemplate = typeof noteTemplates.$inferSelect;
+export type InsertNoteTemplate = z.infer<typeof insertNoteTemplateSchema>;
+export type NoteTemplateUpdate = z.infer<typeof noteTemplateUpdateSchema>;
+export type NoteGoal = typeof noteGoals.$inferSelect;
+export type NoteProgressLog = typeof noteProgressLogs.$inferSelect;
+// One page of a user's notes; total counts every note matching the search
+export type NotePage = { notes: NoteWithLinks[]; total: number; page: number; pageSize: number };
+
 export type GoalWithCategory = Goal & { category?: Category };
 
 export type DashboardStats = {
@@ -130,3 +602,13 @@ export type DashboardStats = {
   completedGoals: number;
   pointsEarned: number;
 };
+
+// Seed data shared by every storage implementation
+export const defaultCategories: InsertCategory[] = [
+  { name: 'Fitness', color: '#4f46e5' },
+  { name: 'Learning', color: '#f59e0b' },
+  { name: 'Health', color: '#10b981' },
+  { name: 'Finance', color: '#06b6d4' },
+  { name: 'Career', color: '#8b5cf6' },
+  { name: 'Personal', color: '#ec4899' },
+];
@@ -0,0 +1,257 @@
+import type { GoalWithCategory, Note, ProgressLog, SearchQuery } from "./schema";
+
+/**
+ * Searches a user's goals, the notes on their progress entries, and their
+ * reflections. The search text is split into words, and a result must
+ * contain every word (ignoring case) somewhere in its searchable text:
+ *
+ * - goals: the description, and the category and unit
+ * - progress entries: their notes (the result is titled with the goal)
+ * - reflections: the title and content
+ *
+ * Results are ranked by how much weight their matching words carry. A word
+ * in a title counts `titleWeight`, anywhere else `bodyWeight`, and doubles
+ * when it starts a word; the whole search text appearing as written adds
+ * `phraseBonus` times the weight of where it appears. Ties go to the most
+ * recent. Each result carries its title and a snippet of the rest of its
+ * text around the first match, with the ranges of the matched words to
+ * highlight.
+ */
+
+export const searchRules = {
+  titleWeight: 3,
+  bodyWeight: 1,
+  wordStartMultiplier: 2,
+  phraseBonus: 2,
+  maxTerms: 10,
+  snippetLength: 160,
+  // How much of the text before the first match the snippet starts with
+  snippetLead: 40,
+};
+
+export const searchResultTypes = ["goal", "progress_log", "note"] as const;
+export type SearchResultType = typeof searchResultTypes[number];
+
+// Text with [start, end) ranges to highlight
+export interface HighlightedText {
+  text: string;
+  highlights: [number, number][];
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  // The goal a goal or progress entry result belongs to
+  goalId: number | null;
+  title: HighlightedText;
+  snippet: HighlightedText | null;
+  score: number;
+  // When the goal was created, the entry logged for, or the note last saved
+  date: Date;
+}
+
+export interface SearchResults {
+  query: string;
+  // Every match, though only the first `limit` are returned
+  total: number;
+  results: SearchResult[];
+}
+
+export interface SearchInput {
+  // Outside the trash
+  goals: GoalWithCategory[];
+  // Of those goals; entries without notes are skipped
+  progressLogs: Pick<ProgressLog, "id" | "goalId" | "notes" | "date">[];
+  notes: Note[];
+}
+
+interface SearchDocument {
+  type: SearchResultType;
+  id: number;
+  goalId: number | null;
+  title: string;
+  // Progress entries are titled with their goal, which isn't searched as
+  // part of them
+  titleSearched: boolean;
+  body: string;
+  date: Date;
+}
+
+/**
+ * The distinct lowercase words of a search, up to `maxTerms`
+ */
+export function getSearchTerms(query: string): string[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return Array.from(new Set(words)).slice(0, searchRules.maxTerms);
+}
+
+export function search(input: SearchInput, { q, limit }: SearchQuery): SearchResults {
+  const terms = getSearchTerms(q);
+  const phrase = terms.length > 1 ? normalize(q).toLowerCase() : null;
+
+  const matches = toDocuments(input)
+    .map(doc => ({ doc, score: scoreDocument(doc, terms, phrase) }))
+    .filter((match): match is { doc: SearchDocument; score: number } => match.score !== null)
+    .sort((a, b) =>
+      b.score - a.score ||
+      b.doc.date.getTime() - a.doc.date.getTime() ||
+      searchResultTypes.indexOf(a.doc.type) - searchResultTypes.indexOf(b.doc.type) ||
+      b.doc.id - a.doc.id);
+
+  return {
+    query: q,
+    total: matches.length,
+    results: matches.slice(0, limit).map(({ doc, score }) => ({
+      type: doc.type,
+      id: doc.id,
+      goalId: doc.goalId,
+      title: doc.titleSearched ? highlight(doc.title, terms) : { text: doc.title, highlights: [] },
+      snippet: doc.body ? getSnippet(doc.body, terms) : null,
+      score,
+      date: doc.date,
+    })),
+  };
+}
+
+function toDocuments({ goals, progressLogs, notes }: SearchInput): SearchDocument[] {
+  const goalsById = new Map(goals.map(goal => [goal.id, goal]));
+  const documents: SearchDocument[] = goals.map(goal => ({
+    type: "goal",
+    id: goal.id,
+    goalId: goal.id,
+    title: normalize(goal.description),
+    titleSearched: true,
+    body: normalize([goal.category?.name, goal.unit].filter(Boolean).join(" · ")),
+    date: goal.createdAt,
+  }));
+
+  for (const log of progressLogs) {
+    const goal = goalsById.get(log.goalId);
+    if (!goal || !log.notes?.trim()) continue;
+    documents.push({
+      type: "progress_log",
+      id: log.id,
+      goalId: goal.id,
+      title: normalize(goal.description),
+      titleSearched: false,
+      body: normalize(log.notes),
+      date: log.date,
+    });
+  }
+
+  for (const note of notes) {
+    documents.push({
+      type: "note",
+      id: note.id,
+      goalId: null,
+      title: normalize(note.title),
+      titleSearched: true,
+      body: normalize(note.content),
+      date: note.updatedAt,
+    });
+  }
+  return documents;
+}
+
+// Snippets and highlights are on a single line
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * The document's score, or null if it's missing any of the terms
+ */
+function scoreDocument(doc: SearchDocument, terms: string[], phrase: string | null): number | null {
+  const fields = [
+    { text: doc.body.toLowerCase(), weight: searchRules.bodyWeight },
+    ...(doc.titleSearched ? [{ text: doc.title.toLowerCase(), weight: searchRules.titleWeight }] : []),
+  ];
+
+  let score = 0;
+  for (const term of terms) {
+    let best = 0;
+    for (const field of fields) {
+      const index = field.text.indexOf(term);
+      if (index === -1) continue;
+      const multiplier = isWordStart(field.text, index, term) ? searchRules.wordStartMultiplier : 1;
+      best = Math.max(best, field.weight * multiplier);
+    }
+    if (best === 0) return null;
+    score += best;
+  }
+
+  if (phrase) {
+    const phraseWeight = Math.max(0, ...fields.filter(field => field.text.includes(phrase)).map(field => field.weight));
+    score += phraseWeight * searchRules.phraseBonus;
+  }
+  return score;
+}
+
+// Whether any occurrence of the term from `index` on starts a word
+function isWordStart(text: string, index: number, term: string): boolean {
+  for (let i = index; i !== -1; i = text.indexOf(term, i + 1)) {
+    if (i === 0 || !isWordCharacter(text[i - 1])) return true;
+  }
+  return false;
+}
+
+// Digits, and letters that have upper and lower case forms
+function isWordCharacter(character: string): boolean {
+  return /[0-9]/.test(character) || character.toLowerCase() !== character.toUpperCase();
+}
+
+/**
+ * Every occurrence of the terms in `text`, merged where they overlap
+ */
+function highlight(text: string, terms: string[]): HighlightedText {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let i = lower.indexOf(term); i !== -1; i = lower.indexOf(term, i + term.length)) {
+      ranges.push([i, i + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const highlights: [number, number][] = [];
+  for (const [start, end] of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      highlights.push([start, end]);
+    }
+  }
+  return { text, highlights };
+}
+
+/**
+ * Up to `snippetLength` characters around the first match, cut at word
+ * breaks, with "…" where the text goes on
+ */
+function getSnippet(text: string, terms: string[]): HighlightedText {
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index !== -1));
+
+  // Starting no later than needed to fill the snippet to the end of the text
+  let start = Number.isFinite(first)
+    ? Math.max(0, Math.min(first - searchRules.snippetLead, text.length - searchRules.snippetLength))
+    : 0;
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space !== -1 && space < first ? space + 1 : start;
+  }
+  let end = Math.min(text.length, start + searchRules.snippetLength);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    end = space > start && space > first ? space : end;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const { highlights } = highlight(text.slice(start, end), terms);
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    highlights: highlights.map(([from, to]) => [from + prefix.length, to + prefix.length]),
+  };
+}
@@ -0,0 +1,122 @@
+import { getDayNumber } from "./timezone";
+
+/**
+ * Streaks are runs of consecutive days, in the user's time zone, with some
+ * activity: logged progress, or for the user as a whole a completed action
+ * item too. Several on one day count once.
+ *
+ * A streak isn't broken by today until today is over, and a missed day can
+ * be covered by a streak freeze. Freezes are earned, not bought: one for
+ * every `freezeEvery` days a streak reaches, holding at most `maxFreezes`.
+ * They are spent automatically on the first missed day, keep the streak
+ * alive without adding to it, and are kept when a streak breaks anyway.
+ * Everything is derived from the activity dates, so deleting a log takes
+ * back any freeze it earned.
+ */
+
+export const streakRules = {
+  freezeEvery: 7,
+  maxFreezes: 2,
+};
+
+export interface Streak {
+  current: number;
+  longest: number;
+  // Freezes left to cover the next missed days
+  freezesAvailable: number;
+  // Missed days a freeze was spent on, as "YYYY-MM-DD"
+  frozenDays: string[];
+  // Whether today has any activity yet; the current streak lasts until
+  // today ends either way
+  activeToday: boolean;
+  lastActiveDay: string | null;
+}
+
+export interface GoalStreak extends Streak {
+  goalId: number;
+  description: string;
+}
+
+// The user's streak plus one per goal that has any progress logged
+export interface UserStreaks extends Streak {
+  goals: GoalStreak[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * "YYYY-MM-DD" for a day number; day numbers count wall-clock days, so
+ * reading one back as a UTC date gives the right calendar date
+ */
+function dayNumberToKey(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The streaks `dates` add up to as of `now`. Dates after today are ignored.
+ */
+export function computeStreak(dates: Date[], timeZone: string, now: Date = new Date()): Streak {
+  const today = getDayNumber(now, timeZone);
+  const activeDays = new Set(
+    dates.map((date) => getDayNumber(date, timeZone)).filter((day) => day <= today)
+  );
+
+  const streak: Streak = {
+    current: 0,
+    longest: 0,
+    freezesAvailable: 0,
+    frozenDays: [],
+    activeToday: activeDays.has(today),
+    lastActiveDay: null,
+  };
+  if (activeDays.size === 0) return streak;
+
+  let lastActive = Math.min(...Array.from(activeDays));
+  for (let day = lastActive; day <= today; day++) {
+    if (activeDays.has(day)) {
+      streak.current++;
+      streak.longest = Math.max(streak.longest, streak.current);
+      if (streak.current % streakRules.freezeEvery === 0) {
+        streak.freezesAvailable = Math.min(streak.freezesAvailable + 1, streakRules.maxFreezes);
+      }
+      lastActive = day;
+    } else if (day === today || streak.current === 0) {
+      // Today isn't over yet, and there's no streak to protect
+      continue;
+    } else if (streak.freezesAvailable > 0) {
+      streak.freezesAvailable--;
+      streak.frozenDays.push(dayNumberToKey(day));
+    } else {
+      streak.current = 0;
+    }
+  }
+  streak.lastActiveDay = dayNumberToKey(lastActive);
+  return streak;
+}
+
+/**
+ * A user's activity as storage finds it, for computeUserStreaks
+ */
+export interface StreakActivity {
+  // Goals to report a streak for
+  goals: { id: number; description: string }[];
+  // Every log on the user's goals, including ones not listed in `goals`
+  logs: { goalId: number; date: Date }[];
+  completedActionItemDates: Date[];
+  timeZone: string;
+}
+
+export function computeUserStreaks(activity: StreakActivity, now: Date = new Date()): UserStreaks {
+  const { logs, timeZone } = activity;
+  const goalStreaks = activity.goals.flatMap((goal) => {
+    const dates = logs.filter((log) => log.goalId === goal.id).map((log) => log.date);
+    return dates.length > 0
+      ? [{ goalId: goal.id, description: goal.description, ...computeStreak(dates, timeZone, now) }]
+      : [];
+  });
+
+  return {
+    ...computeStreak([...logs.map((log) => log.date), ...activity.completedActionItemDates], timeZone, now),
+    goals: goalStreaks.sort((a, b) => b.current - a.current || b.longest - a.longest),
+  };
+}
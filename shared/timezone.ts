@@ -0,0 +1,186 @@
+/**
+ * Calendar arithmetic in a user's IANA time zone ("Europe/Berlin",
+ * "America/Los_Angeles"). Days and weeks are bucketed by the user's wall
+ * clock, not the server's, so everyone's "today" starts at their own
+ * midnight. Instants stay plain Dates; only the day boundaries move.
+ */
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CalendarDate {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The wall-clock reading at `date` in `timeZone`
+ */
+function getWallClock(date: Date, timeZone: string) {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+/**
+ * How far `timeZone` is ahead of UTC at `date`, in milliseconds
+ */
+function getOffset(date: Date, timeZone: string): number {
+  const clock = getWallClock(date, timeZone);
+  const wallTime = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return wallTime - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function getCalendarDate(date: Date, timeZone: string): CalendarDate {
+  const { year, month, day } = getWallClock(date, timeZone);
+  return { year, month, day };
+}
+
+/**
+ * The instant a calendar date begins in `timeZone`. Out-of-range days roll
+ * over into the next or previous month.
+ */
+function startOfCalendarDate({ year, month, day }: CalendarDate, timeZone: string): Date {
+  const wallMidnight = Date.UTC(year, month - 1, day);
+  // A first guess can land on the other side of a DST change, so check the
+  // offset again at the guess
+  const guess = wallMidnight - getOffset(new Date(wallMidnight), timeZone);
+  return new Date(wallMidnight - getOffset(new Date(guess), timeZone));
+}
+
+/**
+ * Days since the epoch for a calendar date, for whole-day differences
+ */
+function toDayNumber({ year, month, day }: CalendarDate): number {
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+/**
+ * Start of the day containing `date` in `timeZone`
+ */
+export function startOfDayInZone(date: Date, timeZone: string): Date {
+  return startOfCalendarDate(getCalendarDate(date, timeZone), timeZone);
+}
+
+/**
+ * Start of the day `amount` days after the one containing `date`. Days are
+ * calendar days, so one across a DST change is 23 or 25 hours long.
+ */
+export function addDaysInZone(date: Date, amount: number, timeZone: string): Date {
+  const { year, month, day } = getCalendarDate(date, timeZone);
+  return startOfCalendarDate({ year, month, day: day + amount }, timeZone);
+}
+
+/**
+ * Start of the Monday-based week containing `date` in `timeZone`
+ */
+export function startOfWeekInZone(date: Date, timeZone: string): Date {
+  const calendarDate = getCalendarDate(date, timeZone);
+  const weekday = new Date(Date.UTC(calendarDate.year, calendarDate.month - 1, calendarDate.day)).getUTCDay();
+  return startOfCalendarDate({ ...calendarDate, day: calendarDate.day - ((weekday + 6) % 7) }, timeZone);
+}
+
+/**
+ * Start of the month `amount` months after the one containing `date` in
+ * `timeZone`; 0 for the month itself
+ */
+export function addMonthsInZone(date: Date, amount: number, timeZone: string): Date {
+  const { year, month } = getCalendarDate(date, timeZone);
+  return startOfCalendarDate({ year, month: month + amount, day: 1 }, timeZone);
+}
+
+/**
+ * Day of the week at `date` in `timeZone`, 0 for Sunday
+ */
+export function getWeekdayInZone(date: Date, timeZone: string): number {
+  const { year, month, day } = getCalendarDate(date, timeZone);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Hour of the day (0-23) at `date` in `timeZone`
+ */
+export function getHourInZone(date: Date, timeZone: string): number {
+  return getWallClock(date, timeZone).hour;
+}
+
+export function isSameDayInZone(left: Date, right: Date, timeZone: string): boolean {
+  return differenceInCalendarDaysInZone(left, right, timeZone) === 0;
+}
+
+/**
+ * Number of midnights in `timeZone` between `right` and `left`
+ */
+export function differenceInCalendarDaysInZone(left: Date, right: Date, timeZone: string): number {
+  return getDayNumber(left, timeZone) - getDayNumber(right, timeZone);
+}
+
+/**
+ * Days since 1970-01-01 for the day containing `date` in `timeZone`; one
+ * apart for consecutive days, whatever their length
+ */
+export function getDayNumber(date: Date, timeZone: string): number {
+  return toDayNumber(getCalendarDate(date, timeZone));
+}
+
+/**
+ * "2024-05-01" for the day containing `date` in `timeZone`
+ */
+export function formatDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getCalendarDate(date, timeZone);
+  return [year, month, day].map((n, i) => String(n).padStart(i === 0 ? 4 : 2, "0")).join("-");
+}
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Midnight in `timeZone` for a date-only string such as "2024-05-01", or
+ * undefined if `value` isn't one. `new Date("2024-05-01")` would give UTC
+ * midnight, which is the previous day anywhere west of Greenwich.
+ */
+export function parseDateOnly(value: string, timeZone: string): Date | undefined {
+  const match = DATE_ONLY.exec(value);
+  if (!match) return undefined;
+  const [, year, month, day] = match.map(Number);
+  return startOfCalendarDate({ year, month, day }, timeZone);
+}
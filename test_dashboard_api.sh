@@ -9,9 +9,16 @@ echo "===== Testing Dashboard API Endpoints ====="
 # Start timestamp for test duration calculation
 START_TIME=$(date +%s%N)
 
+# Register a throwaway user; the session cookie authenticates the requests below
+COOKIE_JAR=$(mktemp)
+trap 'rm -f "$COOKIE_JAR"' EXIT
+curl -s -c "$COOKIE_JAR" -X POST -H "Content-Type: application/json" \
+  -d "{\"username\": \"tester_$(date +%s%N)\", \"password\": \"test-password\"}" \
+  http://localhost:5000/api/auth/register > /dev/null
+
 # 1. Test dashboard stats API
 echo -e "\n1. Testing dashboard stats API..."
-STATS_RESPONSE=$(curl -s -X GET http://localhost:5000/api/dashboard/stats)
+STATS_RESPONSE=$(curl -s -b "$COOKIE_JAR" -X GET http://localhost:5000/api/dashboard/stats)
 
 # Check if successful response
 if [ $? -ne 0 ]; then
@@ -36,7 +43,7 @@ echo $STATS_RESPONSE | jq .
 
 # 2. Test goals API
 echo -e "\n2. Testing goals API..."
-GOALS_RESPONSE=$(curl -s -X GET http://localhost:5000/api/goals)
+GOALS_RESPONSE=$(curl -s -b "$COOKIE_JAR" -X GET http://localhost:5000/api/goals)
 
 # Check if successful response
 if [ $? -ne 0 ]; then
@@ -57,7 +64,7 @@ echo $GOALS_RESPONSE | jq .
 
 # 3. Test action items API
 echo -e "\n3. Testing action items API..."
-ACTIONS_RESPONSE=$(curl -s -X GET http://localhost:5000/api/action-items)
+ACTIONS_RESPONSE=$(curl -s -b "$COOKIE_JAR" -X GET http://localhost:5000/api/action-items)
 
 # Check if successful response
 if [ $? -ne 0 ]; then
@@ -0,0 +1,29 @@
+#!/bin/bash
+
+# Test the PostgreSQL storage against an in-process PGlite database
+# Migrations are generated from shared/schema.ts into a scratch directory,
+# then server/db-storage.smoke.ts applies them and exercises DbStorage
+# directly. No server or DATABASE_URL is needed.
+
+echo "===== Testing DbStorage Against PGlite ====="
+
+START_TIME=$(date +%s%N)
+MIGRATIONS_DIR=$(mktemp -d)
+trap 'rm -rf "$MIGRATIONS_DIR"' EXIT
+
+echo -e "\nGenerating migrations from shared/schema.ts..."
+if ! npx drizzle-kit generate --dialect postgresql --schema ./shared/schema.ts --out "$MIGRATIONS_DIR" > /dev/null; then
+  echo -e "\n===== DbStorage Tests Failed: could not generate migrations ====="
+  exit 1
+fi
+
+if ! npx tsx server/db-storage.smoke.ts "$MIGRATIONS_DIR"; then
+  echo -e "\n===== DbStorage Tests Failed ====="
+  exit 1
+fi
+
+END_TIME=$(date +%s%N)
+DURATION=$(( (END_TIME - START_TIME) / 1000000 ))
+
+echo -e "\n===== DbStorage Tests Passed! (${DURATION}ms) ====="
+exit 0
@@ -15,10 +15,17 @@ DEADLINE="2025-04-15"
 CATEGORY_ID=2
 REMINDER="weekly"
 
+# Register a throwaway user; the session cookie authenticates the requests below
+COOKIE_JAR=$(mktemp)
+trap 'rm -f "$COOKIE_JAR"' EXIT
+curl -s -c "$COOKIE_JAR" -X POST -H "Content-Type: application/json" \
+  -d "{\"username\": \"tester_$(date +%s%N)\", \"password\": \"test-password\"}" \
+  http://localhost:5000/api/auth/register > /dev/null
+
 echo "Creating goal with description: $GOAL_DESCRIPTION"
 
 # Create the goal via API
-CREATE_RESPONSE=$(curl -s -X POST -H "Content-Type: application/json" \
+CREATE_RESPONSE=$(curl -s -b "$COOKIE_JAR" -X POST -H "Content-Type: application/json" \
   -d "{\"description\": \"$GOAL_DESCRIPTION\", \"targetValue\": $TARGET_VALUE, \"unit\": \"$UNIT\", \"deadline\": \"$DEADLINE\", \"categoryId\": $CATEGORY_ID, \"reminderFrequency\": \"$REMINDER\"}" \
   http://localhost:5000/api/goals)
 
@@ -42,7 +49,7 @@ echo "Goal created successfully with ID: $GOAL_ID"
 
 # Fetch all goals to verify the goal exists
 echo "Fetching all goals to verify creation..."
-GET_RESPONSE=$(curl -s -X GET -H "Content-Type: application/json" http://localhost:5000/api/goals)
+GET_RESPONSE=$(curl -s -b "$COOKIE_JAR" -X GET -H "Content-Type: application/json" http://localhost:5000/api/goals)
 
 # Find our created goal in the list
 FOUND_GOAL=$(echo $GET_RESPONSE | jq --arg desc "$GOAL_DESCRIPTION" '.[] | select(.description==$desc)')
@@ -0,0 +1,138 @@
+#!/bin/bash
+
+# Test that goal, progress and action-item routes reject cross-user access
+# Two users are registered: the owner creates a goal, then a second user
+# tries every goal-scoped route against it and must get 403 FORBIDDEN.
+# Ids that don't exist must get 404 NOT_FOUND.
+
+echo "===== Testing Resource Ownership Checks ====="
+
+BASE_URL=http://localhost:5000
+START_TIME=$(date +%s%N)
+FAILURES=0
+
+OWNER_JAR=$(mktemp)
+OTHER_JAR=$(mktemp)
+trap 'rm -f "$OWNER_JAR" "$OTHER_JAR"' EXIT
+
+# Register a user and keep their session cookie in the given jar
+register_user() {
+  curl -s -c "$1" -X POST -H "Content-Type: application/json" \
+    -d "{\"username\": \"$2_$(date +%s%N)\", \"password\": \"test-password\"}" \
+    $BASE_URL/api/auth/register > /dev/null
+}
+
+# Usage: expect_status <label> <expected status> <expected error code|-> <curl args...>
+expect_status() {
+  local label=$1 expected=$2 expected_code=$3
+  shift 3
+  local body status code
+  body=$(curl -s -w "\n%{http_code}" "$@")
+  status=$(echo "$body" | tail -n 1)
+  code=$(echo "$body" | sed '$d' | jq -r '.error.code // empty' 2>/dev/null)
+
+  if [ "$status" != "$expected" ] || { [ "$expected_code" != "-" ] && [ "$code" != "$expected_code" ]; }; then
+    echo "FAIL: $label (expected $expected $expected_code, got $status $code)"
+    FAILURES=$((FAILURES + 1))
+  else
+    echo "PASS: $label"
+  fi
+}
+
+echo -e "\n1. Registering owner and second user..."
+register_user "$OWNER_JAR" "owner"
+register_user "$OTHER_JAR" "intruder"
+
+echo -e "\n2. Creating a goal as the owner..."
+GOAL_ID=$(curl -s -b "$OWNER_JAR" -X POST -H "Content-Type: application/json" \
+  -d '{"description": "Ownership test goal", "targetValue": 10, "unit": "km", "deadline": "2099-01-01", "reminderFrequency": "none"}' \
+  $BASE_URL/api/goals | jq -r '.id')
+
+if [ -z "$GOAL_ID" ] || [ "$GOAL_ID" == "null" ]; then
+  echo "Failed to create goal as owner"
+  exit 1
+fi
+
+ACTION_ITEM_ID=$(curl -s -b "$OWNER_JAR" $BASE_URL/api/action-items \
+  | jq -r --argjson goal "$GOAL_ID" '[.[] | select(.goalId == $goal)][0].id')
+
+PROGRESS_LOG_ID=$(curl -s -b "$OWNER_JAR" -X POST -H "Content-Type: application/json" \
+  -d "{\"goalId\": $GOAL_ID, \"value\": 1}" \
+  $BASE_URL/api/progress-logs | jq -r '.id')
+
+echo "Goal $GOAL_ID created with action item $ACTION_ITEM_ID and progress log $PROGRESS_LOG_ID"
+
+echo -e "\n3. Owner can access their own resources..."
+expect_status "owner GET goal" 200 - -b "$OWNER_JAR" $BASE_URL/api/goals/$GOAL_ID
+expect_status "owner GET goal progress" 200 - -b "$OWNER_JAR" $BASE_URL/api/goals/$GOAL_ID/progress
+
+echo -e "\n4. Second user is rejected on every goal-scoped route..."
+expect_status "GET /api/goals/:id" 403 FORBIDDEN \
+  -b "$OTHER_JAR" $BASE_URL/api/goals/$GOAL_ID
+expect_status "PATCH /api/goals/:id" 403 FORBIDDEN \
+  -b "$OTHER_JAR" -X PATCH -H "Content-Type: application/json" -d '{"description": "Hijacked"}' \
+  $BASE_URL/api/goals/$GOAL_ID
+expect_status "DELETE /api/goals/:id" 403 FORBIDDEN \
+  -b "$OTHER_JAR" -X DELETE $BASE_URL/api/goals/$GOAL_ID
+expect_status "GET /api/goals/:goalId/progress" 403 FORBIDDEN \
+  -b "$OTHER_JAR" $BASE_URL/api/goals/$GOAL_ID/progress
+expect_status "GET /api/goals/:goalId/subgoals" 403 FORBIDDEN \
+  -b "$OTHER_JAR" $BASE_URL/api/goals/$GOAL_ID/subgoals
+expect_status "POST /api/goals with another user's parent" 400 VALIDATION_ERROR \
+  -b "$OTHER_JAR" -X POST -H "Content-Type: application/json" \
+  -d "{\"description\": \"Sneaky sub-goal\", \"targetValue\": 1, \"unit\": \"km\", \"deadline\": \"2099-01-01\", \"reminderFrequency\": \"none\", \"parentGoalId\": $GOAL_ID}" \
+  $BASE_URL/api/goals
+expect_status "GET /api/progress-logs/:goalId" 403 FORBIDDEN \
+  -b "$OTHER_JAR" $BASE_URL/api/progress-logs/$GOAL_ID
+expect_status "POST /api/progress-logs" 403 FORBIDDEN \
+  -b "$OTHER_JAR" -X POST -H "Content-Type: application/json" -d "{\"goalId\": $GOAL_ID, \"value\": 5}" \
+  $BASE_URL/api/progress-logs
+expect_status "POST /api/progress" 403 FORBIDDEN \
+  -b "$OTHER_JAR" -X POST -H "Content-Type: application/json" -d "{\"goalId\": $GOAL_ID, \"value\": 5}" \
+  $BASE_URL/api/progress
+expect_status "PATCH /api/progress-logs/:id" 403 FORBIDDEN \
+  -b "$OTHER_JAR" -X PATCH -H "Content-Type: application/json" -d '{"value": 100}' \
+  $BASE_URL/api/progress-logs/$PROGRESS_LOG_ID
+expect_status "DELETE /api/progress-logs/:id" 403 FORBIDDEN \
+  -b "$OTHER_JAR" -X DELETE $BASE_URL/api/progress-logs/$PROGRESS_LOG_ID
+expect_status "PATCH /api/action-items/:id" 403 FORBIDDEN \
+  -b "$OTHER_JAR" -X PATCH -H "Content-Type: application/json" -d '{"completed": true}' \
+  $BASE_URL/api/action-items/$ACTION_ITEM_ID
+expect_status "DELETE /api/action-items/:id" 403 FORBIDDEN \
+  -b "$OTHER_JAR" -X DELETE $BASE_URL/api/action-items/$ACTION_ITEM_ID
+expect_status "POST /api/action-items linked to another user's goal" 400 VALIDATION_ERROR \
+  -b "$OTHER_JAR" -X POST -H "Content-Type: application/json" \
+  -d "{\"description\": \"Sneaky action\", \"goalId\": $GOAL_ID}" \
+  $BASE_URL/api/action-items
+
+echo -e "\n5. Rejected requests left the owner's data untouched..."
+OWNER_GOAL=$(curl -s -b "$OWNER_JAR" $BASE_URL/api/goals/$GOAL_ID)
+if [ "$(echo $OWNER_GOAL | jq -r '.description')" != "Ownership test goal" ] || \
+   [ "$(echo $OWNER_GOAL | jq -r '.currentValue')" != "1" ]; then
+  echo "FAIL: goal was modified by another user"
+  echo $OWNER_GOAL | jq .
+  FAILURES=$((FAILURES + 1))
+else
+  echo "PASS: goal unchanged"
+fi
+
+echo -e "\n6. Unknown ids return NOT_FOUND..."
+expect_status "GET unknown goal" 404 NOT_FOUND -b "$OWNER_JAR" $BASE_URL/api/goals/999999
+expect_status "GET non-numeric goal" 404 NOT_FOUND -b "$OWNER_JAR" $BASE_URL/api/goals/abc
+expect_status "PATCH unknown action item" 404 NOT_FOUND \
+  -b "$OWNER_JAR" -X PATCH -H "Content-Type: application/json" -d '{"completed": true}' \
+  $BASE_URL/api/action-items/999999
+
+echo -e "\n7. Anonymous requests are rejected..."
+expect_status "anonymous GET goal" 401 UNAUTHORIZED $BASE_URL/api/goals/$GOAL_ID
+
+END_TIME=$(date +%s%N)
+DURATION=$(( (END_TIME - START_TIME) / 1000000 ))
+
+if [ $FAILURES -ne 0 ]; then
+  echo -e "\n===== Ownership Tests Failed: $FAILURES failure(s) ====="
+  exit 1
+fi
+
+echo -e "\n===== Ownership Tests Passed! (${DURATION}ms) ====="
+exit 0
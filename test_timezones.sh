@@ -0,0 +1,134 @@
+#!/bin/bash
+
+# Test that days are bucketed in each user's own time zone
+# Two users are registered on either side of UTC midnight: Pacific/Kiritimati
+# (UTC+14) and Pacific/Pago_Pago (UTC-11). Their calendars are always a day
+# or two apart, so each must see custom and generated action items on their
+# own local date, and date-only inputs must mean their own local midnight.
+
+echo "===== Testing Time Zone Day Boundaries ====="
+
+BASE_URL=http://localhost:5000
+START_TIME=$(date +%s%N)
+FAILURES=0
+
+EAST_TZ="Pacific/Kiritimati"
+WEST_TZ="Pacific/Pago_Pago"
+EAST_JAR=$(mktemp)
+WEST_JAR=$(mktemp)
+trap 'rm -f "$EAST_JAR" "$WEST_JAR"' EXIT
+
+# Usage: local_date <time zone> [days from today]
+local_date() {
+  TZ="$1" date -d "${2:-0} days" +%F
+}
+
+# Register a user in the given zone and keep their session cookie in the given jar
+register_user() {
+  curl -s -c "$1" -X POST -H "Content-Type: application/json" \
+    -d "{\"username\": \"$2_$(date +%s%N)\", \"password\": \"test-password\", \"timeZone\": \"$3\"}" \
+    $BASE_URL/api/auth/register | jq -r '.timeZone'
+}
+
+# Usage: expect_equal <label> <expected> <actual>
+expect_equal() {
+  if [ "$2" != "$3" ]; then
+    echo "FAIL: $1 (expected $2, got $3)"
+    FAILURES=$((FAILURES + 1))
+  else
+    echo "PASS: $1"
+  fi
+}
+
+# Usage: expect_status <label> <expected status> <curl args...>
+expect_status() {
+  local label=$1 expected=$2
+  shift 2
+  local status
+  status=$(curl -s -o /dev/null -w "%{http_code}" "$@")
+  expect_equal "$label" "$expected" "$status"
+}
+
+# Number of items in the user's list for a local date matching a jq filter
+# Usage: count_items <jar> <date> <jq filter>
+count_items() {
+  curl -s -b "$1" "$BASE_URL/api/action-items?date=$2" | jq "[.[] | select($3)] | length"
+}
+
+EAST_TODAY=$(local_date $EAST_TZ)
+WEST_TODAY=$(local_date $WEST_TZ)
+echo "Today is $EAST_TODAY in $EAST_TZ and $WEST_TODAY in $WEST_TZ"
+
+echo -e "\n1. Registering a user on each side of UTC midnight..."
+expect_equal "east user keeps their time zone" "$EAST_TZ" "$(register_user "$EAST_JAR" "east" $EAST_TZ)"
+expect_equal "west user keeps their time zone" "$WEST_TZ" "$(register_user "$WEST_JAR" "west" $WEST_TZ)"
+
+echo -e "\n2. Custom action items land on each user's local today..."
+for side in EAST WEST; do
+  jar_var="${side}_JAR"; today_var="${side}_TODAY"
+  curl -s -b "${!jar_var}" -X POST -H "Content-Type: application/json" \
+    -d '{"description": "Time zone check"}' $BASE_URL/api/action-items > /dev/null
+  expect_equal "$side item listed on ${!today_var}" 1 \
+    "$(count_items "${!jar_var}" "${!today_var}" '.description == "Time zone check"')"
+done
+# The other user's today is a different calendar day for each of them
+expect_equal "east item not listed on the west date" 0 \
+  "$(count_items "$EAST_JAR" "$WEST_TODAY" '.description == "Time zone check"')"
+expect_equal "west item not listed on the east date" 0 \
+  "$(count_items "$WEST_JAR" "$EAST_TODAY" '.description == "Time zone check"')"
+
+echo -e "\n3. A date-only item date means local midnight..."
+for side in EAST WEST; do
+  jar_var="${side}_JAR"; tz_var="${side}_TZ"
+  tomorrow=$(local_date ${!tz_var} 1)
+  curl -s -b "${!jar_var}" -X POST -H "Content-Type: application/json" \
+    -d "{\"description\": \"Tomorrow check\", \"date\": \"$tomorrow\"}" $BASE_URL/api/action-items > /dev/null
+  expect_equal "$side item for $tomorrow listed on that day" 1 \
+    "$(count_items "${!jar_var}" "$tomorrow" '.description == "Tomorrow check"')"
+done
+
+echo -e "\n4. Generated items follow local today, up to a deadline of local today..."
+for side in EAST WEST; do
+  jar_var="${side}_JAR"; today_var="${side}_TODAY"
+  goal_id=$(curl -s -b "${!jar_var}" -X POST -H "Content-Type: application/json" \
+    -d "{\"description\": \"Deadline today\", \"targetValue\": 5, \"unit\": \"km\", \"deadline\": \"${!today_var}\", \"reminderFrequency\": \"none\"}" \
+    $BASE_URL/api/goals | jq -r '.id')
+  expect_equal "$side goal due today gets an item today" 1 \
+    "$(count_items "${!jar_var}" "${!today_var}" ".goalId == $goal_id")"
+done
+
+echo -e "\n5. Snoozing is checked against the user's own today..."
+for side in EAST WEST; do
+  jar_var="${side}_JAR"; tz_var="${side}_TZ"; today_var="${side}_TODAY"
+  item_id=$(curl -s -b "${!jar_var}" "$BASE_URL/api/action-items?date=${!today_var}" \
+    | jq -r '[.[] | select(.description == "Time zone check")][0].id')
+  expect_status "$side snooze to local yesterday rejected" 400 \
+    -b "${!jar_var}" -X PATCH -H "Content-Type: application/json" \
+    -d "{\"date\": \"$(local_date ${!tz_var} -1)\"}" $BASE_URL/api/action-items/$item_id
+  expect_status "$side snooze to local today accepted" 200 \
+    -b "${!jar_var}" -X PATCH -H "Content-Type: application/json" \
+    -d "{\"date\": \"${!today_var}\"}" $BASE_URL/api/action-items/$item_id
+done
+
+echo -e "\n6. Changing the time zone moves the day boundaries..."
+expect_status "unknown time zone rejected" 400 \
+  -b "$EAST_JAR" -X PATCH -H "Content-Type: application/json" -d '{"timeZone": "Mars/Olympus_Mons"}' \
+  $BASE_URL/api/users/me
+expect_status "west user moves east" 200 \
+  -b "$WEST_JAR" -X PATCH -H "Content-Type: application/json" -d "{\"timeZone\": \"$EAST_TZ\"}" \
+  $BASE_URL/api/users/me
+# The generated item was listed at the moment the goal was created, which
+# falls on today's date in whatever zone the user is in
+expect_equal "moved user's generated item now listed on $EAST_TODAY" 1 \
+  "$(count_items "$WEST_JAR" "$EAST_TODAY" '.goalId != null')"
+
+END_TIME=$(date +%s%N)
+DURATION=$(( (END_TIME - START_TIME) / 1000000 ))
+
+if [ $FAILURES -ne 0 ]; then
+  echo -e "\n===== Time Zone Tests Failed: $FAILURES failure(s) ====="
+  exit 1
+fi
+
+echo -e "\n===== Time Zone Tests Passed! (${DURATION}ms) ====="
+exit 0